@@ -13,21 +13,24 @@ import { COLORS } from '@/constants/Colors';
 import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
 import Button from '@/components/Button';
 import { useAuth } from '@/context/AuthContext';
-import { CLAN_IMAGES } from '@/assets/images/clans';
-import { Settings, User, LogOut, Award, CreditCard as Edit } from 'lucide-react-native';
+import { useProgram } from '@/context/ProgramContext';
+import { useAchievements } from '@/hooks/useAchievements';
+import { formatClanName } from '@/lib/clanRepository';
+import { getStreakStatus } from '@/lib/streaks';
+import { router } from 'expo-router';
+import { Settings, User, LogOut, Award, CreditCard as Edit, ListChecks } from 'lucide-react-native';
 
 export default function AccountScreen() {
   const { user, signOut } = useAuth();
+  const { userPrograms } = useProgram();
+  const { unlockedCount } = useAchievements();
   
   if (!user) return null;
   
+  const streak = getStreakStatus(user.streak, user.timezone);
+  
   const getClanName = () => {
-    switch (user.clan) {
-      case 'onotka': return 'Onotka';
-      case 'ekloa': return 'Ekloa';
-      case 'okwaho': return 'Okwáho';
-      default: return '';
-    }
+    return user.clan ? formatClanName(user.clan) : '';
   };
   
   const handleSignOut = () => {
@@ -56,7 +59,7 @@ export default function AccountScreen() {
         <View style={styles.profileHeader}>
           <View style={styles.profileImageContainer}>
             <Image 
-              source={{ uri: CLAN_IMAGES[user.clan] }}
+              source={{ uri: user.clan?.imageUrl || undefined }}
               style={styles.profileImage}
             />
             <TouchableOpacity style={styles.editButton}>
@@ -78,12 +81,17 @@ export default function AccountScreen() {
           </View>
           <View style={styles.statDivider} />
           <View style={styles.statItem}>
-            <Text style={styles.statValue}>1</Text>
+            <Text style={styles.statValue}>{streak.current}</Text>
+            <Text style={styles.statLabel}>Série</Text>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{new Set(userPrograms.map(up => up.programId)).size}</Text>
             <Text style={styles.statLabel}>Programmes</Text>
           </View>
           <View style={styles.statDivider} />
           <View style={styles.statItem}>
-            <Text style={styles.statValue}>0</Text>
+            <Text style={styles.statValue}>{unlockedCount}</Text>
             <Text style={styles.statLabel}>Badges</Text>
           </View>
         </View>
@@ -102,7 +110,18 @@ export default function AccountScreen() {
           <Text style={styles.menuItemText}>Paramètres de l'application</Text>
         </TouchableOpacity>
         
-        <TouchableOpacity style={styles.menuItem}>
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => router.push('/(app)/programs')}
+        >
+          <ListChecks size={20} color={COLORS.textSecondary} />
+          <Text style={styles.menuItemText}>Mes programmes</Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => router.push('/(app)/achievements')}
+        >
           <Award size={20} color={COLORS.textSecondary} />
           <Text style={styles.menuItemText}>Mes accomplissements</Text>
         </TouchableOpacity>
@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   StyleSheet, 
   Text, 
@@ -11,8 +11,15 @@ import { COLORS } from '@/constants/Colors';
 import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
 import ProgressBar from '@/components/ProgressBar';
 import ExerciseCard from '@/components/ExerciseCard';
+import PostRitualCheckIn from '@/components/PostRitualCheckIn';
+import ReadinessCheck from '@/components/ReadinessCheck';
 import Button from '@/components/Button';
 import { useProgram } from '@/context/ProgramContext';
+import { useClanChallenge } from '@/hooks/useClanChallenge';
+import { isReadinessLow } from '@/lib/checkIns';
+import { getLogAmount } from '@/lib/exerciseLogRepository';
+import { formatAmount } from '@/lib/measurements';
+import { AlertTriangle, BatteryLow, CloudOff, Feather, Lock, Moon, Play, Undo2 } from 'lucide-react-native';
 import Animated, { 
   useAnimatedStyle, 
   useSharedValue, 
@@ -24,13 +31,31 @@ import Animated, {
 export default function DailyRitualScreen() {
   const { 
     currentProgram, 
-    userPrograms, 
+    currentUserProgram, 
     getCurrentDayRitual, 
     updateExerciseProgress,
+    setExerciseProgress,
+    undoableLog,
+    undoLastLog,
     completeDay,
+    getCheckInForDay,
+    saveReadiness,
+    pendingCheckIn,
+    submitCheckIn,
+    dismissCheckIn,
+    getCurrentSchedule,
+    hasProgramAccess,
+    pendingSyncCount,
+    failedSyncCount,
+    dismissFailedSync,
   } = useProgram();
+  const { challenge } = useClanChallenge();
+  // Day whose readiness check was skipped, or whose lighter variant was declined
+  const [skippedReadinessDay, setSkippedReadinessDay] = useState<number | null>(null);
+  const [declinedVariantDay, setDeclinedVariantDay] = useState<number | null>(null);
   
   const ritual = getCurrentDayRitual();
+  const schedule = getCurrentSchedule();
   const pulseValue = useSharedValue(1);
   
   useEffect(() => {
@@ -66,9 +91,53 @@ export default function DailyRitualScreen() {
     );
   }
   
-  if (!ritual) {
+  // Premium rituals are unreadable once the entitlement is gone
+  if (!hasProgramAccess(currentProgram.id)) {
     return (
       <View style={styles.emptyContainer}>
+        <Lock size={48} color={COLORS.primary} style={styles.lockedIcon} />
+        <Text style={styles.emptyTitle}>Programme verrouillé</Text>
+        <Text style={styles.emptyText}>
+          Débloquez {currentProgram.title} pour retrouver vos rituels là où vous les avez laissés.
+        </Text>
+        <Button
+          title="Débloquer le programme"
+          onPress={() => router.push({ pathname: '/(app)/paywall', params: { id: currentProgram.id } })}
+          style={styles.emptyButton}
+        />
+      </View>
+    );
+  }
+  
+  const renderPendingCheckIn = () =>
+    pendingCheckIn && (
+      <PostRitualCheckIn
+        moodBefore={getCheckInForDay(pendingCheckIn.day)?.moodBefore ?? null}
+        onSubmit={submitCheckIn}
+        onDismiss={dismissCheckIn}
+      />
+    );
+  
+  if (schedule?.state === 'locked') {
+    return (
+      <ScrollView contentContainerStyle={styles.emptyContainer}>
+        <Moon size={48} color={COLORS.primary} style={styles.lockedIcon} />
+        <Text style={styles.emptyTitle}>
+          {schedule.isRestDay ? 'Jour de repos' : 'Rituel du jour accompli'}
+        </Text>
+        <Text style={styles.emptyText}>
+          {schedule.unlocksInDays === 1
+            ? 'Le prochain rituel se débloque demain.'
+            : `Le prochain rituel se débloque dans ${schedule.unlocksInDays} jours.`}
+        </Text>
+        {renderPendingCheckIn()}
+      </ScrollView>
+    );
+  }
+  
+  if (!ritual) {
+    return (
+      <ScrollView contentContainerStyle={styles.emptyContainer}>
         <Text style={styles.emptyTitle}>Programme terminé !</Text>
         <Text style={styles.emptyText}>
           Félicitations pour avoir complété ce programme.
@@ -79,54 +148,178 @@ export default function DailyRitualScreen() {
           onPress={() => router.push('/(app)/(tabs)/voies')}
           style={styles.emptyButton}
         />
-      </View>
+        {renderPendingCheckIn()}
+      </ScrollView>
     );
   }
   
-  const userProgram = userPrograms.find(up => up.programId === currentProgram.id);
-  const dayProgress = userProgram ? `JOUR ${userProgram.currentDay} / ${currentProgram.duration}` : '';
+  const dayProgress = currentUserProgram
+    ? `JOUR ${currentUserProgram.currentDay} / ${currentProgram.duration}`
+    : '';
   
   const calculateDailyProgress = () => {
     if (!ritual) return 0;
     
-    const totalReps = ritual.exercises.reduce((acc, ex) => acc + ex.targetReps, 0);
-    const completedReps = ritual.exercises.reduce((acc, ex) => acc + ex.completedReps, 0);
+    // A ritual without exercises has nothing left to do
+    if (ritual.exercises.length === 0) return 1;
     
-    return completedReps / totalReps;
+    // Targets are in different units, so each exercise weighs the same
+    const total = ritual.exercises.reduce((acc, ex) => acc + ex.completed / ex.target, 0);
+    
+    return total / ritual.exercises.length;
   };
   
   const isRitualComplete = () => {
     return calculateDailyProgress() === 1;
   };
   
+  const getUndoLabel = () => {
+    const exercise = ritual.exercises.find(ex => ex.id === undoableLog?.exerciseId);
+    if (!undoableLog || !exercise) return null;
+    
+    const amount = getLogAmount(undoableLog);
+    return `${amount > 0 ? '+' : '-'}${formatAmount(exercise.measurement, Math.abs(amount))} · ${exercise.name}`;
+  };
+  
   const handleCompleteDay = () => {
     completeDay();
   };
   
+  const currentDay = currentUserProgram?.currentDay ?? null;
+  const checkIn = currentDay ? getCheckInForDay(currentDay) : null;
+  const showReadinessCheck =
+    checkIn?.sleep == null && skippedReadinessDay !== currentDay && calculateDailyProgress() === 0;
+  const suggestLightVariant =
+    currentProgram.lightVariantScale != null &&
+    checkIn != null &&
+    !checkIn.lightVariant &&
+    isReadinessLow(checkIn) &&
+    declinedVariantDay !== currentDay &&
+    !isRitualComplete();
+  const lightVariantPercent = Math.round((currentProgram.lightVariantScale ?? 1) * 100);
+  
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
       <View style={styles.header}>
         <Text style={styles.title}>RITUEL DU JOUR</Text>
         <Text style={styles.programName}>{currentProgram.title}</Text>
         <Text style={styles.dayProgress}>{dayProgress}</Text>
+        
+        {pendingSyncCount > 0 && (
+          <View style={styles.syncBadge}>
+            <CloudOff size={14} color={COLORS.warning} />
+            <Text style={styles.syncText}>
+              {pendingSyncCount} progression{pendingSyncCount > 1 ? 's' : ''} en attente de synchronisation
+            </Text>
+          </View>
+        )}
+        
+        {failedSyncCount > 0 && (
+          <View style={styles.syncBadge}>
+            <AlertTriangle size={14} color={COLORS.error} />
+            <Text style={[styles.syncText, styles.failedSyncText]}>
+              {failedSyncCount > 1
+                ? `${failedSyncCount} progressions refusées par le serveur n'ont pas été enregistrées`
+                : 'Une progression refusée par le serveur n\'a pas été enregistrée'}
+            </Text>
+            <TouchableOpacity onPress={dismissFailedSync}>
+              <Text style={styles.syncDismiss}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
       
       <Animated.View style={[styles.quoteContainer, animatedStyle]}>
         <Text style={styles.quote}>"{ritual.quote}"</Text>
       </Animated.View>
       
+      {showReadinessCheck && (
+        <ReadinessCheck
+          onSubmit={saveReadiness}
+          onSkip={() => setSkippedReadinessDay(currentDay)}
+        />
+      )}
+      
+      {suggestLightVariant && (
+        <View style={styles.variantCard}>
+          <View style={styles.variantHeader}>
+            <BatteryLow size={20} color={COLORS.warning} />
+            <Text style={styles.variantTitle}>Forme en baisse aujourd'hui</Text>
+          </View>
+          <Text style={styles.variantText}>
+            Ce programme propose une version allégée : objectifs à {lightVariantPercent} %.
+            Le jour comptera comme les autres.
+          </Text>
+          <Button
+            title="Passer en version allégée"
+            onPress={() => saveReadiness({ lightVariant: true })}
+            iconLeft={<Feather size={18} color={COLORS.text} />}
+            fullWidth
+            style={styles.variantButton}
+          />
+          <Button
+            title="Garder le rituel complet"
+            variant="outline"
+            onPress={() => setDeclinedVariantDay(currentDay)}
+            fullWidth
+          />
+        </View>
+      )}
+      
+      {checkIn?.lightVariant && (
+        <View style={styles.variantBadge}>
+          <Feather size={14} color={COLORS.primary} />
+          <Text style={styles.variantBadgeText}>
+            Version allégée · objectifs à {lightVariantPercent} %
+          </Text>
+          {!isRitualComplete() && (
+            <TouchableOpacity onPress={() => saveReadiness({ lightVariant: false })}>
+              <Text style={styles.variantBadgeLink}>Rituel complet</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      
       <View style={styles.progressContainer}>
         <Text style={styles.progressTitle}>Progression du jour</Text>
         <ProgressBar progress={calculateDailyProgress()} height={12} showPercentage />
       </View>
       
+      {!isRitualComplete() && (
+        <Button
+          title="Commencer le rituel guidé"
+          onPress={() => router.push('/(app)/ritual-player')}
+          iconLeft={<Play size={18} color={COLORS.text} />}
+          fullWidth
+          style={styles.playerButton}
+        />
+      )}
+      
       <Text style={styles.exercisesTitle}>EXERCICES DU JOUR</Text>
       
+      {getUndoLabel() && (
+        <View style={styles.undoBar}>
+          <Text style={styles.undoText} numberOfLines={1}>
+            Dernière saisie : {getUndoLabel()}
+          </Text>
+          <TouchableOpacity style={styles.undoButton} onPress={undoLastLog}>
+            <Undo2 size={16} color={COLORS.primary} />
+            <Text style={styles.undoButtonText}>Annuler</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
       {ritual.exercises.map((exercise) => (
         <ExerciseCard
           key={exercise.id}
           exercise={exercise}
           onUpdateProgress={updateExerciseProgress}
+          onSetProgress={setExerciseProgress}
+          challengeTitle={
+            challenge && (!challenge.exerciseId || challenge.exerciseId === exercise.id)
+              ? challenge.title
+              : undefined
+          }
         />
       ))}
       
@@ -155,7 +348,7 @@ const styles = StyleSheet.create({
     padding: SPACING.lg,
   },
   emptyContainer: {
-    flex: 1,
+    flexGrow: 1,
     justifyContent: 'center',
     alignItems: 'center',
     padding: SPACING.xl,
@@ -175,6 +368,9 @@ const styles = StyleSheet.create({
   emptyButton: {
     minWidth: 240,
   },
+  lockedIcon: {
+    marginBottom: SPACING.lg,
+  },
   header: {
     marginBottom: SPACING.lg,
   },
@@ -193,6 +389,31 @@ const styles = StyleSheet.create({
     ...FONTS.body,
     color: COLORS.textSecondary,
   },
+  syncBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: COLORS.cardSecondary,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.sm,
+    marginTop: SPACING.sm,
+  },
+  syncText: {
+    ...FONTS.caption,
+    color: COLORS.warning,
+    marginLeft: SPACING.xs,
+  },
+  failedSyncText: {
+    color: COLORS.error,
+    flexShrink: 1,
+  },
+  syncDismiss: {
+    ...FONTS.caption,
+    color: COLORS.primary,
+    textDecorationLine: 'underline',
+    marginLeft: SPACING.sm,
+  },
   quoteContainer: {
     backgroundColor: COLORS.card,
     borderRadius: BORDER_RADIUS.md,
@@ -207,6 +428,52 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     textAlign: 'center',
   },
+  variantCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.warning,
+    padding: SPACING.lg,
+    marginBottom: SPACING.lg,
+  },
+  variantHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  variantTitle: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    marginLeft: SPACING.sm,
+  },
+  variantText: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  variantButton: {
+    marginBottom: SPACING.sm,
+  },
+  variantBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.cardSecondary,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    marginBottom: SPACING.lg,
+  },
+  variantBadgeText: {
+    ...FONTS.caption,
+    color: COLORS.text,
+    flex: 1,
+    marginLeft: SPACING.xs,
+  },
+  variantBadgeLink: {
+    ...FONTS.caption,
+    color: COLORS.primary,
+    textDecorationLine: 'underline',
+  },
   progressContainer: {
     marginBottom: SPACING.xl,
   },
@@ -215,12 +482,40 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     marginBottom: SPACING.sm,
   },
+  playerButton: {
+    marginBottom: SPACING.xl,
+  },
   exercisesTitle: {
     ...FONTS.subheading,
     color: COLORS.textSecondary,
     marginBottom: SPACING.md,
     letterSpacing: 1,
   },
+  undoBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.cardSecondary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  undoText: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    flex: 1,
+  },
+  undoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: SPACING.md,
+  },
+  undoButtonText: {
+    ...FONTS.button,
+    color: COLORS.primary,
+    fontSize: 14,
+    marginLeft: SPACING.xs,
+  },
   completeContainer: {
     backgroundColor: COLORS.card,
     borderRadius: BORDER_RADIUS.md,
@@ -13,10 +13,14 @@ import { router } from 'expo-router';
 import { COLORS } from '@/constants/Colors';
 import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
 import Button from '@/components/Button';
+import ChallengeCard from '@/components/ChallengeCard';
+import CheckInTrendsCard from '@/components/CheckInTrendsCard';
 import ProgressBar from '@/components/ProgressBar';
 import { useAuth } from '@/context/AuthContext';
 import { useProgram } from '@/context/ProgramContext';
-import { CLAN_IMAGES } from '@/assets/images/clans';
+import { useCheckInTrends } from '@/hooks/useCheckInTrends';
+import { useClanChallenge } from '@/hooks/useClanChallenge';
+import { getStreakStatus } from '@/lib/streaks';
 import Animated, { 
   useSharedValue, 
   useAnimatedStyle, 
@@ -27,7 +31,9 @@ import Animated, {
 
 export default function TotemScreen() {
   const { user } = useAuth();
-  const { currentProgram, userPrograms } = useProgram();
+  const { currentProgram, currentUserProgram } = useProgram();
+  const { challenge } = useClanChallenge();
+  const { trends } = useCheckInTrends();
   
   const glowValue = useSharedValue(0);
   
@@ -49,29 +55,30 @@ export default function TotemScreen() {
   if (!user) return null;
 
   const getClanColor = () => {
-    return COLORS.clan[user.clan];
+    return user.clan?.color || COLORS.primary;
   };
   
   const getClanImage = () => {
-    return CLAN_IMAGES[user.clan];
+    return user.clan?.imageUrl || undefined;
   };
   
   const getClanName = () => {
-    switch (user.clan) {
-      case 'onotka': return 'ONOTKA';
-      case 'ekloa': return 'EKLOA';
-      case 'okwaho': return 'OKWÁHO';
-      default: return '';
-    }
+    return user.clan?.name || '';
   };
   
   const getCurrentProgramProgress = () => {
-    if (!currentProgram) return 0;
+    if (!currentProgram || !currentUserProgram) return 0;
     
-    const userProgram = userPrograms.find(up => up.programId === currentProgram.id);
-    if (!userProgram) return 0;
-    
-    return userProgram.currentDay / currentProgram.duration;
+    return currentUserProgram.currentDay / currentProgram.duration;
+  };
+  
+  const streak = getStreakStatus(user.streak, user.timezone);
+  
+  const getMissedDaysMessage = () => {
+    if (streak.missedDays === 0) return null;
+    return streak.missedDays === 1
+      ? 'Un jour manqué : ta série repart de zéro.'
+      : `${streak.missedDays} jours manqués : ta série repart de zéro.`;
   };
 
   return (
@@ -105,10 +112,15 @@ export default function TotemScreen() {
                   <Text style={styles.statLabel}>JOURS ACCOMPLIS</Text>
                 </View>
                 
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>{streak.current}</Text>
+                  <Text style={styles.statLabel}>SÉRIE</Text>
+                </View>
+                
                 {currentProgram ? (
                   <View style={styles.statItem}>
                     <Text style={styles.statValue}>
-                      {userPrograms.find(up => up.programId === currentProgram.id)?.currentDay || 0}/{currentProgram.duration}
+                      {currentUserProgram?.currentDay || 0}/{currentProgram.duration}
                     </Text>
                     <Text style={styles.statLabel}>PROGRESSION</Text>
                   </View>
@@ -138,6 +150,24 @@ export default function TotemScreen() {
         </ImageBackground>
       </View>
       
+      {challenge ? (
+        <View style={styles.challengeContainer}>
+          <Text style={styles.sectionTitle}>DÉFI DE LA SEMAINE</Text>
+          <ChallengeCard
+            challenge={challenge}
+            color={getClanColor()}
+            onPress={() => router.push('/(app)/challenge')}
+          />
+        </View>
+      ) : null}
+      
+      {trends && trends.count > 0 ? (
+        <View style={styles.trendsContainer}>
+          <Text style={styles.sectionTitle}>VOTRE RESSENTI</Text>
+          <CheckInTrendsCard trends={trends} />
+        </View>
+      ) : null}
+      
       <View style={styles.journeyContainer}>
         <Text style={styles.sectionTitle}>VOTRE VOYAGE</Text>
         
@@ -151,6 +181,15 @@ export default function TotemScreen() {
             <Text style={styles.journeyValue}>{user.totalDaysCompleted}</Text>
           </View>
           
+          <View style={styles.journeyStat}>
+            <Text style={styles.journeyLabel}>Plus longue série :</Text>
+            <Text style={styles.journeyValue}>{streak.longest}</Text>
+          </View>
+          
+          {getMissedDaysMessage() ? (
+            <Text style={styles.missedDaysText}>{getMissedDaysMessage()}</Text>
+          ) : null}
+          
           {currentProgram ? (
             <TouchableOpacity 
               style={styles.ritualButton}
@@ -159,6 +198,13 @@ export default function TotemScreen() {
               <Text style={styles.ritualButtonText}>Voir le rituel du jour</Text>
             </TouchableOpacity>
           ) : null}
+          
+          <TouchableOpacity 
+            style={[styles.ritualButton, styles.leaderboardButton]}
+            onPress={() => router.push('/(app)/leaderboard')}
+          >
+            <Text style={styles.ritualButtonText}>Voir le classement des clans</Text>
+          </TouchableOpacity>
         </View>
       </View>
     </ScrollView>
@@ -268,6 +314,12 @@ const styles = StyleSheet.create({
   programButton: {
     minWidth: 200,
   },
+  challengeContainer: {
+    marginBottom: SPACING.xl,
+  },
+  trendsContainer: {
+    marginBottom: SPACING.xl,
+  },
   journeyContainer: {
     marginBottom: SPACING.xl,
   },
@@ -303,12 +355,20 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     fontFamily: 'Rajdhani-Bold',
   },
+  missedDaysText: {
+    ...FONTS.caption,
+    color: COLORS.warning,
+    marginBottom: SPACING.md,
+  },
   ritualButton: {
     backgroundColor: COLORS.cardSecondary,
     padding: SPACING.md,
     borderRadius: BORDER_RADIUS.md,
     alignItems: 'center',
   },
+  leaderboardButton: {
+    marginTop: SPACING.sm,
+  },
   ritualButtonText: {
     ...FONTS.button,
     color: COLORS.text,
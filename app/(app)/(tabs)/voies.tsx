@@ -1,64 +1,75 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   StyleSheet,
   Text,
   View,
   ScrollView,
   ActivityIndicator,
-  Dimensions
+  TextInput,
+  TouchableOpacity,
 } from 'react-native';
 import { router } from 'expo-router';
 import { COLORS } from '@/constants/Colors';
-import { FONTS, SPACING } from '@/constants/Layout';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
 import ProgramCard from '@/components/ProgramCard';
-import { createClient } from '@supabase/supabase-js';
+import SegmentedControl from '@/components/SegmentedControl';
+import { useAuth } from '@/context/AuthContext';
+import { useProgram } from '@/context/ProgramContext';
+import {
+  DurationRange,
+  EMPTY_FILTERS,
+  filterPrograms,
+  getProgramTags,
+  hasActiveFilters,
+  ProgramFilters,
+} from '@/lib/programFilters';
+import { getRecommendedPrograms } from '@/lib/recommendations';
+import { Program, ProgramDifficulty } from '@/types';
+import { Search, SlidersHorizontal, X } from 'lucide-react-native';
 
 const CARD_WIDTH = 280;
-const { width } = Dimensions.get('window');
-
-const supabase = createClient(
-  process.env.EXPO_PUBLIC_SUPABASE_URL!,
-  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-interface Program {
-  id: string;
-  nom: string;
-  description: string;
-  image_url: string;
-  duree_jours: number;
-  type: 'Découverte' | 'Premium';
-  tags: string | string[];
-  clan_id: string;
-  niveau_difficulte: string;
-  resultats: any;
-  parcours_resume: any;
-}
+
+const DURATIONS: { value: DurationRange | 'all'; label: string }[] = [
+  { value: 'all', label: 'Toutes' },
+  { value: 'short', label: '≤ 7 j' },
+  { value: 'medium', label: '8-30 j' },
+  { value: 'long', label: '30 j +' },
+];
+
+const DIFFICULTIES: { value: ProgramDifficulty | 'all'; label: string }[] = [
+  { value: 'all', label: 'Tous' },
+  { value: 'beginner', label: 'Débutant' },
+  { value: 'intermediate', label: 'Interm.' },
+  { value: 'advanced', label: 'Avancé' },
+];
 
 export default function PathsScreen() {
-  const [programs, setPrograms] = useState<Program[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchPrograms();
-  }, []);
-
-  const fetchPrograms = async () => {
-    try {
-      const { data, error } = await supabase.from('programmes').select('*');
-      if (error) throw error;
-      setPrograms(data || []);
-    } catch (err) {
-      console.error('Error fetching programs:', err);
-      setError('Une erreur est survenue lors du chargement des programmes');
-    } finally {
-      setIsLoading(false);
-    }
+  const { user } = useAuth();
+  const { programs, userPrograms, hasProgramAccess, isLoading, error } = useProgram();
+  const [filters, setFilters] = useState<ProgramFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState<boolean>(false);
+
+  const visiblePrograms = filterPrograms(programs, filters);
+  const recommendedPrograms = getRecommendedPrograms(
+    visiblePrograms,
+    userPrograms,
+    user?.clan?.id ?? null
+  );
+  const discoveryPrograms = visiblePrograms.filter(p => p.category === 'discovery');
+  const premiumPrograms = visiblePrograms.filter(p => p.category === 'premium');
+  const tags = getProgramTags(programs);
+
+  const updateFilters = (changes: Partial<ProgramFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
   };
 
-  const discoveryPrograms = programs.filter(p => p.type === 'Découverte');
-  const premiumPrograms = programs.filter(p => p.type === 'Premium');
+  const toggleTag = (tag: string) => {
+    updateFilters({
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter(t => t !== tag)
+        : [...filters.tags, tag],
+    });
+  };
 
   const handleProgramPress = (programId: string) => {
     router.push({
@@ -75,32 +86,15 @@ export default function PathsScreen() {
       decelerationRate="fast"
       snapToInterval={CARD_WIDTH + SPACING.md}
     >
-      {programs.map(program => {
-        let parsedTags: string[] = [];
-        try {
-          parsedTags = Array.isArray(program.tags)
-            ? program.tags
-            : JSON.parse(program.tags);
-        } catch {
-          parsedTags = [];
-        }
-
-        return (
-          <View key={program.id} style={styles.cardContainer}>
-            <ProgramCard
-              program={{
-                id: program.id,
-                title: program.nom,
-                description: program.description,
-                duration: program.duree_jours,
-                focus: parsedTags,
-                imageUrl: program.image_url
-              }}
-              onPress={handleProgramPress}
-            />
-          </View>
-        );
-      })}
+      {programs.map(program => (
+        <View key={program.id} style={styles.cardContainer}>
+          <ProgramCard
+            program={program}
+            onPress={handleProgramPress}
+            isLocked={!hasProgramAccess(program.id)}
+          />
+        </View>
+      ))}
     </ScrollView>
   );
 
@@ -135,21 +129,105 @@ export default function PathsScreen() {
         <Text style={styles.subtitle}>Choisissez votre parcours de transformation</Text>
       </View>
 
-      <View style={styles.sectionContainer}>
-        <Text style={styles.sectionTitle}>DÉCOUVERTE</Text>
-        <Text style={styles.sectionDescription}>
-          Programmes courts pour explorer les fondamentaux du mouvement ancestral.
-        </Text>
-        {renderProgramList(discoveryPrograms)}
+      <View style={styles.searchContainer}>
+        <View style={styles.searchBox}>
+          <Search size={18} color={COLORS.textSecondary} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Rechercher un programme"
+            placeholderTextColor={COLORS.textSecondary}
+            value={filters.query}
+            onChangeText={query => updateFilters({ query })}
+            returnKeyType="search"
+          />
+          {filters.query ? (
+            <TouchableOpacity onPress={() => updateFilters({ query: '' })}>
+              <X size={18} color={COLORS.textSecondary} />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+        <TouchableOpacity
+          style={[styles.filterButton, showFilters && styles.filterButtonActive]}
+          onPress={() => setShowFilters(prev => !prev)}
+        >
+          <SlidersHorizontal size={18} color={COLORS.text} />
+        </TouchableOpacity>
       </View>
 
-      <View style={styles.sectionContainer}>
-        <Text style={styles.sectionTitle}>LA VOIE MOHERO</Text>
-        <Text style={styles.sectionDescription}>
-          Programme complet de transformation physique et mentale.
-        </Text>
-        {renderProgramList(premiumPrograms)}
-      </View>
+      {showFilters && (
+        <View style={styles.filtersContainer}>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.tagsContainer}
+          >
+            {tags.map(tag => {
+              const isSelected = filters.tags.includes(tag);
+
+              return (
+                <TouchableOpacity
+                  key={tag}
+                  style={[styles.tag, isSelected && styles.selectedTag]}
+                  onPress={() => toggleTag(tag)}
+                >
+                  <Text style={[styles.tagText, isSelected && styles.selectedTagText]}>{tag}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          <SegmentedControl
+            options={DURATIONS}
+            value={filters.duration ?? 'all'}
+            onChange={value => updateFilters({ duration: value === 'all' ? null : value })}
+            style={styles.control}
+          />
+          <SegmentedControl
+            options={DIFFICULTIES}
+            value={filters.difficulty ?? 'all'}
+            onChange={value => updateFilters({ difficulty: value === 'all' ? null : value })}
+            style={styles.control}
+          />
+          {hasActiveFilters(filters) && (
+            <TouchableOpacity onPress={() => setFilters(EMPTY_FILTERS)}>
+              <Text style={styles.resetText}>Réinitialiser les filtres</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {visiblePrograms.length === 0 && (
+        <Text style={styles.noResultText}>Aucun programme ne correspond à votre recherche</Text>
+      )}
+
+      {recommendedPrograms.length > 0 && (
+        <View style={styles.sectionContainer}>
+          <Text style={styles.sectionTitle}>{user?.clan ? 'POUR TON CLAN' : 'POUR TOI'}</Text>
+          <Text style={styles.sectionDescription}>
+            Choisis selon ton clan, ton niveau et les voies que tu n'as pas encore parcourues.
+          </Text>
+          {renderProgramList(recommendedPrograms)}
+        </View>
+      )}
+
+      {discoveryPrograms.length > 0 && (
+        <View style={styles.sectionContainer}>
+          <Text style={styles.sectionTitle}>DÉCOUVERTE</Text>
+          <Text style={styles.sectionDescription}>
+            Programmes courts pour explorer les fondamentaux du mouvement ancestral.
+          </Text>
+          {renderProgramList(discoveryPrograms)}
+        </View>
+      )}
+
+      {premiumPrograms.length > 0 && (
+        <View style={styles.sectionContainer}>
+          <Text style={styles.sectionTitle}>LA VOIE MOHERO</Text>
+          <Text style={styles.sectionDescription}>
+            Programme complet de transformation physique et mentale.
+          </Text>
+          {renderProgramList(premiumPrograms)}
+        </View>
+      )}
     </ScrollView>
   );
 }
@@ -183,6 +261,78 @@ const styles = StyleSheet.create({
     ...FONTS.body,
     color: COLORS.textSecondary,
   },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.lg,
+    marginBottom: SPACING.md,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.cardSecondary,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.md,
+    height: 44,
+  },
+  searchInput: {
+    ...FONTS.body,
+    flex: 1,
+    color: COLORS.text,
+    marginHorizontal: SPACING.sm,
+  },
+  filterButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.cardSecondary,
+    borderRadius: BORDER_RADIUS.sm,
+    marginLeft: SPACING.sm,
+  },
+  filterButtonActive: {
+    backgroundColor: COLORS.primary,
+  },
+  filtersContainer: {
+    paddingHorizontal: SPACING.lg,
+    marginBottom: SPACING.lg,
+  },
+  tagsContainer: {
+    paddingBottom: SPACING.sm,
+  },
+  tag: {
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    marginRight: SPACING.xs,
+  },
+  selectedTag: {
+    backgroundColor: COLORS.primary,
+  },
+  tagText: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+  },
+  selectedTagText: {
+    color: COLORS.text,
+  },
+  control: {
+    marginBottom: SPACING.sm,
+  },
+  resetText: {
+    ...FONTS.caption,
+    color: COLORS.primary,
+    textDecorationLine: 'underline',
+  },
+  noResultText: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginVertical: SPACING.xl,
+    paddingHorizontal: SPACING.lg,
+  },
   sectionContainer: {
     marginBottom: SPACING.xl,
   },
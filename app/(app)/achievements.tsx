@@ -0,0 +1,120 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { router, Stack } from 'expo-router';
+import { COLORS } from '@/constants/Colors';
+import { FONTS, SPACING } from '@/constants/Layout';
+import BadgeCard from '@/components/BadgeCard';
+import ProgressBar from '@/components/ProgressBar';
+import { useAchievements } from '@/hooks/useAchievements';
+import { ArrowLeft } from 'lucide-react-native';
+
+export default function AchievementsScreen() {
+  const { achievements, unlockedCount, isLoading, error } = useAchievements();
+
+  // Unlocked badges first, most recent on top
+  const sortedAchievements = [...achievements].sort((a, b) => {
+    if (a.unlockedAt && b.unlockedAt) return b.unlockedAt.getTime() - a.unlockedAt.getTime();
+    if (a.unlockedAt) return -1;
+    if (b.unlockedAt) return 1;
+    return 0;
+  });
+
+  const rows = sortedAchievements.reduce<(typeof achievements)[]>((acc, achievement, index) => {
+    if (index % 2 === 0) acc.push([achievement]);
+    else acc[acc.length - 1].push(achievement);
+    return acc;
+  }, []);
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerStyle: { backgroundColor: COLORS.background },
+          headerTintColor: COLORS.text,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={styles.backButton}
+            >
+              <ArrowLeft size={24} color={COLORS.text} />
+            </TouchableOpacity>
+          ),
+          headerTitle: 'Mes accomplissements',
+        }}
+      />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {isLoading ? (
+          <ActivityIndicator size="large" color={COLORS.primary} style={styles.loader} />
+        ) : error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : (
+          <>
+            <View style={styles.summary}>
+              <Text style={styles.summaryText}>
+                {unlockedCount} / {achievements.length} badges débloqués
+              </Text>
+              <ProgressBar
+                progress={achievements.length > 0 ? unlockedCount / achievements.length : 0}
+              />
+            </View>
+
+            {rows.map((row, index) => (
+              <View key={index} style={styles.row}>
+                {row.map(achievement => (
+                  <BadgeCard key={achievement.id} achievement={achievement} />
+                ))}
+                {row.length === 1 && <View style={styles.placeholder} />}
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  contentContainer: {
+    padding: SPACING.lg,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  loader: {
+    marginTop: SPACING.xl,
+  },
+  errorText: {
+    ...FONTS.body,
+    color: COLORS.error,
+    textAlign: 'center',
+    marginTop: SPACING.xl,
+  },
+  summary: {
+    marginBottom: SPACING.lg,
+  },
+  summaryText: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  placeholder: {
+    flex: 1,
+  },
+});
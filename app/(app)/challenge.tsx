@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { router, Stack } from 'expo-router';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import ChallengeCard from '@/components/ChallengeCard';
+import { useAuth } from '@/context/AuthContext';
+import { useClanChallenge } from '@/hooks/useClanChallenge';
+import { fetchChallengeContributions } from '@/lib/challengeRepository';
+import { ChallengeContribution } from '@/types';
+import { ArrowLeft } from 'lucide-react-native';
+
+export default function ChallengeScreen() {
+  const { user } = useAuth();
+  const { challenge, isLoading, error } = useClanChallenge();
+  const [contributions, setContributions] = useState<ChallengeContribution[]>([]);
+
+  // Contributions follow the collective progress polled by the hook
+  useEffect(() => {
+    if (!challenge) return;
+
+    const loadContributions = async () => {
+      try {
+        setContributions(await fetchChallengeContributions(challenge.id));
+      } catch (error) {
+        console.error('Failed to load challenge contributions:', error);
+      }
+    };
+
+    loadContributions();
+  }, [challenge?.id, challenge?.progress]);
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerStyle: { backgroundColor: COLORS.background },
+          headerTintColor: COLORS.text,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={styles.backButton}
+            >
+              <ArrowLeft size={24} color={COLORS.text} />
+            </TouchableOpacity>
+          ),
+          headerTitle: 'Défi du clan',
+        }}
+      />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {isLoading ? (
+          <ActivityIndicator size="large" color={COLORS.primary} style={styles.loader} />
+        ) : error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : !challenge ? (
+          <Text style={styles.emptyText}>Aucun défi en cours pour votre clan</Text>
+        ) : (
+          <>
+            <ChallengeCard challenge={challenge} color={user?.clan?.color} />
+
+            <Text style={styles.sectionTitle}>CONTRIBUTIONS</Text>
+            {contributions.length === 0 ? (
+              <Text style={styles.emptyText}>Soyez le premier à contribuer</Text>
+            ) : (
+              contributions.map((contribution, index) => (
+                <View
+                  key={contribution.userId}
+                  style={[styles.row, contribution.isCurrentUser && styles.highlightedRow]}
+                >
+                  <Text style={styles.rank}>{index + 1}</Text>
+                  <View style={styles.rowContent}>
+                    <Text style={styles.rowTitle}>
+                      {contribution.name ?? 'Membre anonyme'}
+                      {contribution.isCurrentUser ? ' (vous)' : ''}
+                    </Text>
+                    <Text style={styles.rowSubtitle}>
+                      {Math.round((contribution.reps / Math.max(challenge.progress, 1)) * 100)}% du
+                      total du clan
+                    </Text>
+                  </View>
+                  <Text style={styles.value}>{contribution.reps.toLocaleString('fr-FR')}</Text>
+                </View>
+              ))
+            )}
+          </>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  contentContainer: {
+    padding: SPACING.lg,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  loader: {
+    marginTop: SPACING.xl,
+  },
+  errorText: {
+    ...FONTS.body,
+    color: COLORS.error,
+    textAlign: 'center',
+    marginTop: SPACING.xl,
+  },
+  emptyText: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.xl,
+  },
+  sectionTitle: {
+    ...FONTS.subheading,
+    color: COLORS.textSecondary,
+    letterSpacing: 1,
+    marginTop: SPACING.xl,
+    marginBottom: SPACING.md,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  highlightedRow: {
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+  },
+  rank: {
+    ...FONTS.heading,
+    color: COLORS.text,
+    fontSize: 20,
+    width: 36,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    fontSize: 16,
+  },
+  rowSubtitle: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+  },
+  value: {
+    ...FONTS.button,
+    color: COLORS.primary,
+  },
+});
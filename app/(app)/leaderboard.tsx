@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { router, Stack } from 'expo-router';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import SegmentedControl from '@/components/SegmentedControl';
+import { useAuth } from '@/context/AuthContext';
+import { fetchClanLeaderboard, fetchMemberLeaderboard } from '@/lib/leaderboardRepository';
+import { formatClanName } from '@/lib/clanRepository';
+import { ClanStanding, LeaderboardMetric, LeaderboardPeriod, MemberStanding } from '@/types';
+import { ArrowLeft } from 'lucide-react-native';
+
+type Scope = 'clans' | 'clan' | 'members';
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: 'week', label: 'Semaine' },
+  { value: 'month', label: 'Mois' },
+  { value: 'all', label: 'Toujours' },
+];
+
+const METRICS: { value: LeaderboardMetric; label: string }[] = [
+  { value: 'days', label: 'Jours' },
+  { value: 'reps', label: 'Répétitions' },
+  { value: 'streak', label: 'Séries' },
+];
+
+export default function LeaderboardScreen() {
+  const { user, setPublicRanking } = useAuth();
+  const [scope, setScope] = useState<Scope>('clans');
+  const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+  const [metric, setMetric] = useState<LeaderboardMetric>('days');
+  const [clanStandings, setClanStandings] = useState<ClanStanding[]>([]);
+  const [memberStandings, setMemberStandings] = useState<MemberStanding[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const clanId = user?.clan?.id;
+
+  const scopes: { value: Scope; label: string }[] = [
+    { value: 'clans', label: 'Clans' },
+    ...(user?.clan ? [{ value: 'clan' as const, label: formatClanName(user.clan) }] : []),
+    { value: 'members', label: 'Guerriers' },
+  ];
+
+  useEffect(() => {
+    const loadStandings = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        if (scope === 'clans') {
+          setClanStandings(await fetchClanLeaderboard(period, metric));
+        } else {
+          setMemberStandings(
+            await fetchMemberLeaderboard(period, metric, scope === 'clan' ? clanId : undefined)
+          );
+        }
+      } catch (error) {
+        console.error('Failed to load leaderboard:', error);
+        setError('Une erreur est survenue lors du chargement du classement');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadStandings();
+  }, [scope, period, metric, clanId]);
+
+  const formatValue = (standing: { daysCompleted: number; repsLogged: number }, streak: number) => {
+    switch (metric) {
+      case 'days':
+        return `${standing.daysCompleted} j`;
+      case 'reps':
+        return `${standing.repsLogged}`;
+      case 'streak':
+        return `${streak}`;
+    }
+  };
+
+  const handleRankingToggle = async (value: boolean) => {
+    try {
+      await setPublicRanking(value);
+    } catch {
+      // Already logged; the switch stays on the saved value
+    }
+  };
+
+  const renderClans = () =>
+    clanStandings.map(standing => (
+      <View
+        key={standing.clanId}
+        style={[styles.row, standing.clanId === clanId && styles.highlightedRow]}
+      >
+        <Text style={styles.rank}>{standing.rank}</Text>
+        <View style={[styles.clanDot, { backgroundColor: standing.color }]} />
+        <View style={styles.rowContent}>
+          <Text style={styles.rowTitle}>{standing.name}</Text>
+          <Text style={styles.rowSubtitle}>
+            {standing.members} membre{standing.members > 1 ? 's' : ''}
+          </Text>
+        </View>
+        <Text style={styles.value}>{formatValue(standing, standing.activeStreaks)}</Text>
+      </View>
+    ));
+
+  const renderMembers = () =>
+    memberStandings.map(standing => (
+      <View
+        key={standing.userId}
+        style={[styles.row, standing.isCurrentUser && styles.highlightedRow]}
+      >
+        <Text style={styles.rank}>{standing.rank}</Text>
+        <View style={styles.rowContent}>
+          <Text style={styles.rowTitle}>
+            {standing.name}
+            {standing.isCurrentUser ? ' (vous)' : ''}
+          </Text>
+        </View>
+        <Text style={styles.value}>{formatValue(standing, standing.currentStreak)}</Text>
+      </View>
+    ));
+
+  const isEmpty = scope === 'clans' ? clanStandings.length === 0 : memberStandings.length === 0;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerStyle: { backgroundColor: COLORS.background },
+          headerTintColor: COLORS.text,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={styles.backButton}
+            >
+              <ArrowLeft size={24} color={COLORS.text} />
+            </TouchableOpacity>
+          ),
+          headerTitle: 'Classement',
+        }}
+      />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <SegmentedControl options={scopes} value={scope} onChange={setScope} style={styles.control} />
+        <SegmentedControl options={PERIODS} value={period} onChange={setPeriod} style={styles.control} />
+        <SegmentedControl options={METRICS} value={metric} onChange={setMetric} style={styles.control} />
+
+        {metric === 'streak' && (
+          <Text style={styles.hint}>
+            {scope === 'clans'
+              ? 'Nombre de membres avec une série en cours'
+              : 'Séries en cours, quelle que soit la période'}
+          </Text>
+        )}
+
+        {isLoading ? (
+          <ActivityIndicator size="large" color={COLORS.primary} style={styles.loader} />
+        ) : error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : isEmpty ? (
+          <Text style={styles.emptyText}>Aucune activité sur cette période</Text>
+        ) : (
+          <View style={styles.list}>
+            {scope === 'clans' ? renderClans() : renderMembers()}
+          </View>
+        )}
+
+        {user && (
+          <View style={styles.optOut}>
+            <View style={styles.optOutText}>
+              <Text style={styles.rowTitle}>Apparaître dans le classement</Text>
+              <Text style={styles.rowSubtitle}>
+                Votre progression compte toujours pour votre clan.
+              </Text>
+            </View>
+            <Switch
+              value={user.publicRanking}
+              onValueChange={handleRankingToggle}
+              trackColor={{ true: COLORS.primary, false: COLORS.border }}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  contentContainer: {
+    padding: SPACING.lg,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  control: {
+    marginBottom: SPACING.sm,
+  },
+  hint: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.sm,
+  },
+  loader: {
+    marginTop: SPACING.xl,
+  },
+  errorText: {
+    ...FONTS.body,
+    color: COLORS.error,
+    textAlign: 'center',
+    marginTop: SPACING.xl,
+  },
+  emptyText: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.xl,
+  },
+  list: {
+    marginTop: SPACING.md,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  highlightedRow: {
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+  },
+  rank: {
+    ...FONTS.heading,
+    color: COLORS.text,
+    fontSize: 20,
+    width: 36,
+  },
+  clanDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: SPACING.sm,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    fontSize: 16,
+  },
+  rowSubtitle: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+  },
+  value: {
+    ...FONTS.button,
+    color: COLORS.primary,
+  },
+  optOut: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: SPACING.xl,
+    paddingTop: SPACING.lg,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  optOutText: {
+    flex: 1,
+    marginRight: SPACING.md,
+  },
+});
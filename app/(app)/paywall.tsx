@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import Button from '@/components/Button';
+import { useProgram } from '@/context/ProgramContext';
+import { getStore } from '@/lib/purchases';
+import { PurchaseError, StoreProduct } from '@/lib/store';
+import { ArrowLeft, Check, Lock } from 'lucide-react-native';
+
+const getPurchaseErrorMessage = (error: unknown): string | null => {
+  if (error instanceof PurchaseError) {
+    switch (error.code) {
+      case 'cancelled':
+        return null;
+      case 'declined':
+        return 'Le paiement a été refusé. Aucun montant n\'a été débité.';
+      case 'unavailable':
+        return 'Les achats ne sont pas disponibles sur cet appareil.';
+      case 'invalid_receipt':
+        return 'Le reçu d\'achat n\'a pas pu être vérifié.';
+    }
+  }
+
+  return 'Une erreur est survenue lors de l\'achat. Réessayez plus tard.';
+};
+
+export default function PaywallScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { programs, hasProgramAccess, purchaseProgram, restorePurchases, selectProgram } = useProgram();
+  const [product, setProduct] = useState<StoreProduct | null>(null);
+  const [isLoadingProduct, setIsLoadingProduct] = useState<boolean>(true);
+  const [isPurchasing, setIsPurchasing] = useState<boolean>(false);
+  const [isRestoring, setIsRestoring] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const program = programs.find(p => p.id === id);
+  const store = getStore();
+
+  useEffect(() => {
+    if (!program?.productId || !store) {
+      setIsLoadingProduct(false);
+      return;
+    }
+
+    const loadProduct = async () => {
+      try {
+        const [found] = await store.getProducts([program.productId!]);
+        setProduct(found ?? null);
+      } catch (error) {
+        console.error('Failed to load store product:', error);
+      } finally {
+        setIsLoadingProduct(false);
+      }
+    };
+
+    loadProduct();
+  }, [program?.productId]);
+
+  if (!program) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.errorText}>Programme non trouvé</Text>
+        <Button title="Retour" onPress={() => router.back()} />
+      </View>
+    );
+  }
+
+  const isUnlocked = hasProgramAccess(program.id);
+
+  const handlePurchase = async () => {
+    try {
+      setIsPurchasing(true);
+      setError(null);
+      await purchaseProgram(program.id);
+    } catch (error) {
+      console.error('Failed to purchase program:', error);
+      setError(getPurchaseErrorMessage(error));
+    } finally {
+      setIsPurchasing(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    try {
+      setIsRestoring(true);
+      setError(null);
+      const restored = await restorePurchases();
+      setMessage(
+        restored > 0
+          ? `${restored} achat${restored > 1 ? 's' : ''} restauré${restored > 1 ? 's' : ''}`
+          : 'Aucun achat à restaurer'
+      );
+    } catch (error) {
+      console.error('Failed to restore purchases:', error);
+      setError(getPurchaseErrorMessage(error));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleStart = async () => {
+    await selectProgram(program.id);
+    router.replace('/(app)/(tabs)/ritual');
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerStyle: { backgroundColor: COLORS.background },
+          headerTintColor: COLORS.text,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={styles.backButton}
+            >
+              <ArrowLeft size={24} color={COLORS.text} />
+            </TouchableOpacity>
+          ),
+          headerTitle: 'Programme premium',
+        }}
+      />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.lockCircle}>
+          <Lock size={32} color={COLORS.primary} />
+        </View>
+        <Text style={styles.title}>{program.title}</Text>
+        <Text style={styles.subtitle}>
+          {program.duration} jours de rituels guidés, à vous pour toujours.
+        </Text>
+
+        <View style={styles.benefitsContainer}>
+          {program.details.benefits.map((benefit, index) => (
+            <View key={index} style={styles.benefitItem}>
+              <Check size={18} color={COLORS.primary} style={styles.checkIcon} />
+              <Text style={styles.benefitText}>{benefit}</Text>
+            </View>
+          ))}
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+        {message ? <Text style={styles.messageText}>{message}</Text> : null}
+
+        {isUnlocked ? (
+          <Button title="Commencer le programme" onPress={handleStart} fullWidth />
+        ) : !store ? (
+          <Text style={styles.unavailableText}>
+            Les achats ne sont pas disponibles sur cet appareil.
+          </Text>
+        ) : isLoadingProduct ? (
+          <ActivityIndicator size="large" color={COLORS.primary} />
+        ) : (
+          <>
+            <Button
+              title={product ? `Débloquer pour ${product.price}` : 'Débloquer le programme'}
+              onPress={handlePurchase}
+              isLoading={isPurchasing}
+              disabled={isRestoring}
+              fullWidth
+            />
+            <TouchableOpacity
+              onPress={handleRestore}
+              disabled={isPurchasing || isRestoring}
+              style={styles.restoreButton}
+            >
+              {isRestoring ? (
+                <ActivityIndicator size="small" color={COLORS.textSecondary} />
+              ) : (
+                <Text style={styles.restoreText}>Restaurer mes achats</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  contentContainer: {
+    padding: SPACING.lg,
+    alignItems: 'center',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.background,
+    padding: SPACING.xl,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  lockCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: COLORS.card,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginVertical: SPACING.lg,
+  },
+  title: {
+    ...FONTS.heading,
+    color: COLORS.text,
+    fontSize: 28,
+    textAlign: 'center',
+    marginBottom: SPACING.xs,
+  },
+  subtitle: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: SPACING.xl,
+  },
+  benefitsContainer: {
+    width: '100%',
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginBottom: SPACING.xl,
+  },
+  benefitItem: {
+    flexDirection: 'row',
+    marginBottom: SPACING.md,
+    alignItems: 'flex-start',
+  },
+  checkIcon: {
+    marginRight: SPACING.sm,
+    marginTop: 2,
+  },
+  benefitText: {
+    ...FONTS.body,
+    color: COLORS.text,
+    flex: 1,
+  },
+  errorText: {
+    ...FONTS.body,
+    color: COLORS.error,
+    textAlign: 'center',
+    marginBottom: SPACING.md,
+  },
+  messageText: {
+    ...FONTS.body,
+    color: COLORS.success,
+    textAlign: 'center',
+    marginBottom: SPACING.md,
+  },
+  unavailableText: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+  restoreButton: {
+    marginTop: SPACING.lg,
+    padding: SPACING.sm,
+  },
+  restoreText: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    textDecorationLine: 'underline',
+  },
+});
@@ -5,7 +5,8 @@ import {
   View, 
   ScrollView, 
   ImageBackground, 
-  TouchableOpacity 
+  TouchableOpacity,
+  ActivityIndicator,
 } from 'react-native';
 import { useLocalSearchParams, router, Stack } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -13,14 +14,29 @@ import { COLORS } from '@/constants/Colors';
 import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
 import Button from '@/components/Button';
 import { useProgram } from '@/context/ProgramContext';
-import { ArrowLeft, Check } from 'lucide-react-native';
+import { ArrowLeft, Check, Lock } from 'lucide-react-native';
 
 export default function ProgramDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { programs, selectProgram, userPrograms, isLoading } = useProgram();
+  const {
+    programs,
+    selectProgram,
+    restartProgram,
+    userPrograms,
+    hasProgramAccess,
+    isLoading,
+  } = useProgram();
   
   const program = programs.find(p => p.id === id);
   
+  if (!program && isLoading) {
+    return (
+      <View style={styles.errorContainer}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+  
   if (!program) {
     return (
       <View style={styles.errorContainer}>
@@ -34,10 +50,32 @@ export default function ProgramDetailScreen() {
     );
   }
   
-  const isProgramSelected = userPrograms.some(up => up.programId === program.id);
+  const enrollments = userPrograms.filter(up => up.programId === program.id);
+  const isProgramSelected = enrollments.some(
+    up => up.status === 'active' || up.status === 'paused'
+  );
+  const isProgramFinished = !isProgramSelected && enrollments.some(up => up.status === 'completed');
+  
+  const isLocked = !hasProgramAccess(program.id);
+  
+  const getActionTitle = () => {
+    if (isLocked) return 'Débloquer le programme';
+    if (isProgramSelected) return 'Continuer le programme';
+    if (isProgramFinished) return 'Recommencer le programme';
+    return 'Commencer le programme';
+  };
   
   const handleSelectProgram = async () => {
-    await selectProgram(program.id);
+    if (isLocked) {
+      router.push({ pathname: '/(app)/paywall', params: { id: program.id } });
+      return;
+    }
+    
+    if (isProgramFinished) {
+      await restartProgram(program.id);
+    } else {
+      await selectProgram(program.id);
+    }
     router.replace('/(app)/(tabs)/ritual');
   };
   
@@ -116,9 +154,10 @@ export default function ProgramDetailScreen() {
           </View>
           
           <Button
-            title={isProgramSelected ? "Continuer le programme" : "Commencer le programme"}
+            title={getActionTitle()}
             onPress={handleSelectProgram}
             isLoading={isLoading}
+            iconLeft={isLocked ? <Lock size={18} color={COLORS.text} /> : undefined}
             fullWidth
             style={styles.actionButton}
           />
@@ -0,0 +1,154 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Platform,
+} from 'react-native';
+import { router, Stack } from 'expo-router';
+import { COLORS } from '@/constants/Colors';
+import { FONTS, SPACING } from '@/constants/Layout';
+import Button from '@/components/Button';
+import EnrollmentCard from '@/components/EnrollmentCard';
+import { useProgram } from '@/context/ProgramContext';
+import { ArrowLeft } from 'lucide-react-native';
+
+export default function MyProgramsScreen() {
+  const {
+    programs,
+    userPrograms,
+    pauseProgram,
+    resumeProgram,
+    abandonProgram,
+    restartProgram,
+  } = useProgram();
+
+  const enrollments = userPrograms.flatMap(userProgram => {
+    const program = programs.find(p => p.id === userProgram.programId);
+    return program ? [{ userProgram, program }] : [];
+  });
+
+  const currentEnrollments = enrollments.filter(
+    ({ userProgram }) => userProgram.status === 'active' || userProgram.status === 'paused'
+  );
+  const pastEnrollments = enrollments.filter(
+    ({ userProgram }) => userProgram.status === 'completed' || userProgram.status === 'abandoned'
+  );
+
+  const handleAbandon = (userProgramId: string) => {
+    // On web, we can use Alert API
+    if (Platform.OS === 'web') {
+      if (confirm('Abandonner ce programme ? Votre progression sera conservée dans l\'historique.')) {
+        abandonProgram(userProgramId);
+      }
+      return;
+    }
+
+    Alert.alert(
+      'Abandonner le programme',
+      'Votre progression sera conservée dans l\'historique.',
+      [
+        { text: 'Annuler', style: 'cancel' },
+        { text: 'Abandonner', style: 'destructive', onPress: () => abandonProgram(userProgramId) },
+      ]
+    );
+  };
+
+  const handleResume = async (userProgramId: string) => {
+    await resumeProgram(userProgramId);
+    router.push('/(app)/(tabs)/ritual');
+  };
+
+  const handleRestart = async (programId: string) => {
+    await restartProgram(programId);
+    router.push('/(app)/(tabs)/ritual');
+  };
+
+  const renderEnrollments = (items: typeof enrollments) =>
+    items.map(({ userProgram, program }) => (
+      <EnrollmentCard
+        key={userProgram.id}
+        userProgram={userProgram}
+        program={program}
+        onPause={pauseProgram}
+        onResume={handleResume}
+        onAbandon={handleAbandon}
+        onRestart={handleRestart}
+      />
+    ));
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerStyle: { backgroundColor: COLORS.background },
+          headerTintColor: COLORS.text,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={styles.backButton}
+            >
+              <ArrowLeft size={24} color={COLORS.text} />
+            </TouchableOpacity>
+          ),
+          headerTitle: 'Mes programmes',
+        }}
+      />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <Text style={styles.sectionTitle}>EN COURS</Text>
+        {currentEnrollments.length > 0 ? (
+          renderEnrollments(currentEnrollments)
+        ) : (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>Aucun programme en cours</Text>
+            <Button
+              title="Découvrir les programmes"
+              onPress={() => router.push('/(app)/(tabs)/voies')}
+              size="small"
+            />
+          </View>
+        )}
+
+        {pastEnrollments.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>HISTORIQUE</Text>
+            {renderEnrollments(pastEnrollments)}
+          </>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  contentContainer: {
+    padding: SPACING.lg,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  sectionTitle: {
+    ...FONTS.subheading,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+    letterSpacing: 1,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: SPACING.lg,
+    marginBottom: SPACING.lg,
+  },
+  emptyText: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+});
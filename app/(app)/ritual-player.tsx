@@ -0,0 +1,436 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, ScrollView, TouchableOpacity, Image } from 'react-native';
+import { router, Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import Button from '@/components/Button';
+import ExerciseTimer from '@/components/ExerciseTimer';
+import ProgressBar from '@/components/ProgressBar';
+import { useProgram } from '@/context/ProgramContext';
+import { playCue } from '@/lib/cues';
+import { formatAmount, formatDuration, formatProgress } from '@/lib/measurements';
+import { getSetStatus } from '@/lib/sets';
+import { Check, ChevronLeft, ChevronRight, X } from 'lucide-react-native';
+
+interface Rest {
+  endsAt: number;
+  nextIndex: number; // exercise shown once the rest is over
+}
+
+export default function RitualPlayerScreen() {
+  const insets = useSafeAreaInsets();
+  const { getCurrentDayRitual, updateExerciseProgress, completeDay } = useProgram();
+  const ritual = getCurrentDayRitual();
+
+  // Resume where the ritual was left, e.g. after logging from the list
+  const [exerciseIndex, setExerciseIndex] = useState(() => {
+    const index = ritual?.exercises.findIndex(ex => ex.completed < ex.target) ?? -1;
+    return index === -1 ? 0 : index;
+  });
+  const [rest, setRest] = useState<Rest | null>(null);
+  const [showSummary, setShowSummary] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const goTo = (index: number) => {
+    setRest(null);
+    setShowSummary(false);
+    setExerciseIndex(index);
+  };
+
+  const restSecondsLeft = rest ? Math.max(0, Math.ceil((rest.endsAt - now) / 1000)) : 0;
+
+  useEffect(() => {
+    if (!rest) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [rest]);
+
+  useEffect(() => {
+    if (!rest) return;
+
+    if (restSecondsLeft <= 0) {
+      playCue('start', 'C\'est reparti');
+      goTo(rest.nextIndex);
+    } else if (restSecondsLeft <= 3) {
+      playCue('countdown', `${restSecondsLeft}`);
+    }
+  }, [restSecondsLeft]);
+
+  if (!ritual || ritual.exercises.length === 0) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <Text style={styles.title}>Aucun rituel disponible</Text>
+        <Button title="Retour" onPress={() => router.back()} style={styles.summaryButton} />
+      </View>
+    );
+  }
+
+  const exercises = ritual.exercises;
+  const exercise = exercises[exerciseIndex];
+  const nextExercise = exercises[exerciseIndex + 1];
+  const setStatus = getSetStatus(exercise);
+  const isLastExercise = exerciseIndex === exercises.length - 1;
+  const isRitualDone = exercises.every(ex => ex.completed >= ex.target);
+
+  const startRest = (nextIndex: number) => {
+    if (exercise.restSeconds === 0) {
+      goTo(nextIndex);
+      return;
+    }
+
+    const timestamp = Date.now();
+    setNow(timestamp);
+    setRest({ endsAt: timestamp + exercise.restSeconds * 1000, nextIndex });
+  };
+
+  // Moves on once the current set is logged: same exercise while sets remain,
+  // then the next exercise, then the summary
+  const advance = () => {
+    if (setStatus.currentSet < exercise.sets) {
+      startRest(exerciseIndex);
+    } else if (!isLastExercise) {
+      startRest(exerciseIndex + 1);
+    } else {
+      setShowSummary(true);
+    }
+  };
+
+  const handleSetDone = async () => {
+    if (setStatus.remaining > 0) {
+      await updateExerciseProgress(exercise.id, setStatus.remaining);
+    }
+    advance();
+  };
+
+  const handleSkip = () => {
+    if (isLastExercise) setShowSummary(true);
+    else goTo(exerciseIndex + 1);
+  };
+
+  // Leaves first: once completed, the ritual of the day becomes the next one
+  const handleCompleteDay = () => {
+    router.back();
+    completeDay();
+  };
+
+  const getNextUp = () => {
+    if (setStatus.currentSet < exercise.sets) {
+      return `Série ${setStatus.currentSet + 1} / ${exercise.sets} après ${exercise.restSeconds} s de repos`;
+    }
+    if (nextExercise) {
+      return `${nextExercise.name} · ${nextExercise.sets} × ${formatAmount(nextExercise.measurement, nextExercise.setTarget)}`;
+    }
+    return 'Bilan du rituel';
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.iconButton}>
+        <X size={24} color={COLORS.text} />
+      </TouchableOpacity>
+      <View style={styles.headerProgress}>
+        <Text style={styles.headerText}>
+          {showSummary ? 'Bilan' : `Exercice ${exerciseIndex + 1} / ${exercises.length}`}
+        </Text>
+        <ProgressBar
+          progress={exercises.reduce((acc, ex) => acc + ex.completed / ex.target, 0) / exercises.length}
+          height={6}
+        />
+      </View>
+    </View>
+  );
+
+  if (showSummary) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <Stack.Screen options={{ headerShown: false }} />
+        {renderHeader()}
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.title}>
+            {isRitualDone ? 'Rituel accompli' : 'Rituel inachevé'}
+          </Text>
+          <Text style={styles.subtitle}>
+            {isRitualDone
+              ? 'Chaque exercice a atteint son objectif. Valide ta journée, guerrier.'
+              : 'Certains exercices n\'ont pas atteint leur objectif.'}
+          </Text>
+
+          {exercises.map((ex, index) => {
+            const isDone = ex.completed >= ex.target;
+
+            return (
+              <TouchableOpacity
+                key={ex.id}
+                style={styles.summaryRow}
+                onPress={() => goTo(index)}
+                disabled={isDone}
+              >
+                <View style={[styles.summaryIcon, isDone && styles.summaryIconDone]}>
+                  {isDone && <Check size={16} color={COLORS.text} />}
+                </View>
+                <Text style={styles.summaryName}>{ex.name}</Text>
+                <Text style={styles.summaryValue}>{formatProgress(ex)}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {isRitualDone ? (
+            <Button
+              title="Terminer le jour"
+              onPress={handleCompleteDay}
+              style={styles.summaryButton}
+            />
+          ) : (
+            <Button
+              title="Reprendre"
+              onPress={() => goTo(Math.max(0, exercises.findIndex(ex => ex.completed < ex.target)))}
+              style={styles.summaryButton}
+            />
+          )}
+        </ScrollView>
+      </View>
+    );
+  }
+
+  if (rest) {
+    const upcoming = exercises[rest.nextIndex];
+    const upcomingSet = getSetStatus(upcoming);
+
+    return (
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <Stack.Screen options={{ headerShown: false }} />
+        {renderHeader()}
+        <View style={[styles.content, styles.centered]}>
+          <Text style={styles.label}>REPOS</Text>
+          <Text style={styles.restTime}>{formatDuration(restSecondsLeft)}</Text>
+          <Text style={styles.nextLabel}>À suivre</Text>
+          <Text style={styles.nextText}>
+            {upcoming.name} · série {upcomingSet.currentSet} / {upcoming.sets}
+          </Text>
+          <Button
+            title="Passer le repos"
+            variant="outline"
+            onPress={() => goTo(rest.nextIndex)}
+            style={styles.summaryButton}
+          />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {renderHeader()}
+      <ScrollView contentContainerStyle={styles.content}>
+        <Image source={{ uri: exercise.imageUrl }} style={styles.image} resizeMode="cover" />
+
+        <Text style={styles.title}>{exercise.name}</Text>
+        <Text style={styles.subtitle}>{exercise.description}</Text>
+
+        <View style={styles.setCard}>
+          <Text style={styles.label}>
+            {setStatus.isDone ? 'EXERCICE TERMINÉ' : `SÉRIE ${setStatus.currentSet} / ${exercise.sets}`}
+          </Text>
+          <Text style={styles.setTarget}>
+            {formatAmount(exercise.measurement, setStatus.isDone ? exercise.setTarget : setStatus.remaining)}
+            {exercise.measurement === 'reps' ? ' répétitions' : ''}
+            {exercise.measurement === 'breaths' ? ' respirations' : ''}
+          </Text>
+          <Text style={styles.setProgress}>{formatProgress(exercise)} aujourd'hui</Text>
+
+          {exercise.measurement === 'seconds' && !setStatus.isDone && (
+            <ExerciseTimer
+              key={`${exercise.id}-${setStatus.currentSet}`}
+              remaining={setStatus.remaining}
+              onElapsed={seconds => updateExerciseProgress(exercise.id, seconds)}
+              onFinish={advance}
+            />
+          )}
+        </View>
+
+        <Button
+          title={setStatus.isDone ? 'Continuer' : 'Série terminée'}
+          onPress={setStatus.isDone ? advance : handleSetDone}
+          fullWidth
+          style={styles.doneButton}
+        />
+
+        <View style={styles.nextUp}>
+          <Text style={styles.nextLabel}>À suivre</Text>
+          <Text style={styles.nextText}>{getNextUp()}</Text>
+        </View>
+
+        <View style={styles.navigation}>
+          <TouchableOpacity
+            style={[styles.navButton, exerciseIndex === 0 && styles.disabledNavButton]}
+            onPress={() => goTo(exerciseIndex - 1)}
+            disabled={exerciseIndex === 0}
+          >
+            <ChevronLeft size={20} color={COLORS.text} />
+            <Text style={styles.navText}>Précédent</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.navButton} onPress={handleSkip}>
+            <Text style={styles.navText}>{isLastExercise ? 'Bilan' : 'Passer'}</Text>
+            <ChevronRight size={20} color={COLORS.text} />
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+  },
+  iconButton: {
+    padding: SPACING.sm,
+    marginRight: SPACING.sm,
+  },
+  headerProgress: {
+    flex: 1,
+  },
+  headerText: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.xs,
+  },
+  content: {
+    padding: SPACING.lg,
+  },
+  image: {
+    width: '100%',
+    height: 200,
+    borderRadius: BORDER_RADIUS.lg,
+    marginBottom: SPACING.lg,
+  },
+  title: {
+    ...FONTS.heading,
+    color: COLORS.text,
+    fontSize: 26,
+    marginBottom: SPACING.xs,
+  },
+  subtitle: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.lg,
+  },
+  setCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+    alignItems: 'center',
+    marginBottom: SPACING.lg,
+  },
+  label: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    letterSpacing: 1,
+    marginBottom: SPACING.sm,
+  },
+  setTarget: {
+    ...FONTS.heading,
+    color: COLORS.text,
+    fontSize: 32,
+    marginBottom: SPACING.xs,
+  },
+  setProgress: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  doneButton: {
+    marginBottom: SPACING.lg,
+  },
+  nextUp: {
+    backgroundColor: COLORS.cardSecondary,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginBottom: SPACING.lg,
+  },
+  nextLabel: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.xs,
+  },
+  nextText: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    fontSize: 16,
+  },
+  navigation: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  navButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: SPACING.sm,
+  },
+  disabledNavButton: {
+    opacity: 0.4,
+  },
+  navText: {
+    ...FONTS.button,
+    color: COLORS.text,
+    marginHorizontal: SPACING.xs,
+  },
+  restTime: {
+    ...FONTS.heading,
+    color: COLORS.primary,
+    fontSize: 72,
+    marginBottom: SPACING.xl,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  summaryIcon: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: SPACING.md,
+  },
+  summaryIconDone: {
+    backgroundColor: COLORS.success,
+    borderColor: COLORS.success,
+  },
+  summaryName: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    fontSize: 16,
+    flex: 1,
+  },
+  summaryValue: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+  },
+  summaryButton: {
+    marginTop: SPACING.xl,
+    minWidth: 240,
+  },
+});
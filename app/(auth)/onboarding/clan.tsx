@@ -10,7 +10,8 @@ import { COLORS } from '@/constants/Colors';
 import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
 import Button from '@/components/Button';
 import ClanCard from '@/components/ClanCard';
-import { createClient } from '@supabase/supabase-js';
+import { fetchClans } from '@/lib/clanRepository';
+import { Clan } from '@/types';
 import { useAuth } from '@/context/AuthContext';
 import Animated, { 
   useSharedValue,
@@ -22,22 +23,6 @@ import Animated, {
 const { width } = Dimensions.get('window');
 const CARD_WIDTH = width - SPACING.lg * 2;
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.EXPO_PUBLIC_SUPABASE_URL!,
-  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-interface Clan {
-  id: string;
-  nom_clan: string;
-  tagline: string;
-  description: text;
-  rituel_entree: string;
-  image_url: string;
-  couleur_theme: string;
-}
-
 interface PaginationDotProps {
   index: number;
   scrollX: Animated.SharedValue<number>;
@@ -70,7 +55,7 @@ const PaginationDot: React.FC<PaginationDotProps> = ({ index, scrollX, selectedC
     return {
       transform: [{ scale }],
       opacity,
-      backgroundColor: selectedClanId === clan.id ? clan.couleur_theme : COLORS.textSecondary,
+      backgroundColor: selectedClanId === clan.id ? clan.color : COLORS.textSecondary,
     };
   });
 
@@ -78,7 +63,7 @@ const PaginationDot: React.FC<PaginationDotProps> = ({ index, scrollX, selectedC
 };
 
 export default function ClanSelectionScreen() {
-  const { user } = useAuth();
+  const { user, setCurrentOnboardingData } = useAuth();
   const [clans, setClans] = useState<Clan[]>([]);
   const [selectedClanId, setSelectedClanId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -86,17 +71,13 @@ export default function ClanSelectionScreen() {
   const scrollX = useSharedValue(0);
 
   useEffect(() => {
-    fetchClans();
+    loadClans();
   }, []);
 
-  const fetchClans = async () => {
+  const loadClans = async () => {
     try {
-      const { data, error } = await supabase
-        .from('clans')
-        .select('*');
-
-      if (error) throw error;
-      setClans(data || []);
+      setError(null);
+      setClans(await fetchClans());
     } catch (err) {
       console.error('Error fetching clans:', err);
       setError('Erreur lors du chargement des clans');
@@ -114,7 +95,9 @@ export default function ClanSelectionScreen() {
   };
 
   const handleNext = async () => {
-    if (!selectedClanId || !user) {
+    const selectedClan = clans.find(clan => clan.id === selectedClanId);
+    
+    if (!selectedClan || !user) {
       setError('Une erreur est survenue. Veuillez réessayer.');
       return;
     }
@@ -122,12 +105,7 @@ export default function ClanSelectionScreen() {
     try {
       setIsLoading(true);
       
-      const { error } = await supabase
-        .from('profiles')
-        .update({ clan_id: selectedClanId })
-        .eq('id', user.id);
-
-      if (error) throw error;
+      await setCurrentOnboardingData({ clan: selectedClan });
       
       router.push('/(app)/(tabs)/totem');
     } catch (err) {
@@ -154,7 +132,7 @@ export default function ClanSelectionScreen() {
     return (
       <View style={styles.errorContainer}>
         <Text style={styles.errorText}>{error}</Text>
-        <Button title="Réessayer" onPress={fetchClans} />
+        <Button title="Réessayer" onPress={loadClans} />
       </View>
     );
   }
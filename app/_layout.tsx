@@ -14,6 +14,8 @@ import { AuthProvider } from '@/context/AuthContext';
 import { ProgramProvider } from '@/context/ProgramContext';
 import { View, StyleSheet } from 'react-native';
 import { COLORS } from '@/constants/Colors';
+import { supabaseConfigErrors } from '@/lib/supabase';
+import ConfigErrorScreen from '@/components/ConfigErrorScreen';
 
 // Prevent splash screen from auto-hiding
 SplashScreen.preventAutoHideAsync();
@@ -39,6 +41,10 @@ export default function RootLayout() {
     return null;
   }
 
+  if (supabaseConfigErrors.length > 0) {
+    return <ConfigErrorScreen errors={supabaseConfigErrors} />;
+  }
+
   return (
     <View style={styles.container}>
       <AuthProvider>
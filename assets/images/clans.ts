@@ -1,29 +0,0 @@
-export const CLAN_IMAGES = {
-  onotka: 'https://images.pexels.com/photos/7674497/pexels-photo-7674497.jpeg',
-  ekloa: 'https://images.pexels.com/photos/2468339/pexels-photo-2468339.jpeg',
-  okwaho: 'https://images.pexels.com/photos/2123573/pexels-photo-2123573.jpeg',
-};
-
-export const CLAN_DATA = [
-  {
-    id: 'onotka',
-    title: 'CLAN ONOTKA',
-    description: 'La force brute. La résistance mentale.\n\nPour ceux qui veulent prendre en masse, construire un corps solide et fiable. Tu forges ta structure. Tu deviens le socle.',
-    objectives: ['puissance', 'stabilité', 'endurance physique'],
-    imageUrl: CLAN_IMAGES.onotka,
-  },
-  {
-    id: 'ekloa',
-    title: 'CLAN EKLOA',
-    description: 'La vitesse. L\'explosivité.\n\nPour ceux qui veulent bondir, frapper, performer. Un corps rapide, réactif, pensé pour l\'action du sportif.',
-    objectives: ['explosivité', 'coordination', 'athlète'],
-    imageUrl: CLAN_IMAGES.ekloa,
-  },
-  {
-    id: 'okwaho',
-    title: 'CLAN OKWÁHO',
-    description: 'La fluidité. L\'adaptabilité. L\'équilibre.\n\nPour ceux qui veulent bouger mieux, plus librement, sans contrainte. Tu construis un corps souple, mobile, intelligent.',
-    objectives: ['mobilité', 'posture', 'agilité fonctionnelle'],
-    imageUrl: CLAN_IMAGES.okwaho,
-  },
-];
\ No newline at end of file
@@ -0,0 +1,101 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import {
+  Award,
+  Dumbbell,
+  Flame,
+  Footprints,
+  Lock,
+  Moon,
+  Shield,
+  Trophy,
+  Users,
+  LucideIcon,
+} from 'lucide-react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import { Achievement } from '@/types';
+
+interface BadgeCardProps {
+  achievement: Achievement;
+}
+
+// Icon names stored in badges.icone
+const ICONS: Record<string, LucideIcon> = {
+  dumbbell: Dumbbell,
+  flame: Flame,
+  footprints: Footprints,
+  moon: Moon,
+  shield: Shield,
+  trophy: Trophy,
+  users: Users,
+};
+
+export default function BadgeCard({ achievement }: BadgeCardProps) {
+  const isUnlocked = achievement.unlockedAt !== null;
+  const Icon = isUnlocked ? ICONS[achievement.icon ?? ''] ?? Award : Lock;
+
+  return (
+    <View style={[styles.container, !isUnlocked && styles.lockedContainer]}>
+      <View style={[styles.iconContainer, isUnlocked && styles.unlockedIconContainer]}>
+        <Icon size={28} color={isUnlocked ? COLORS.text : COLORS.textSecondary} />
+      </View>
+      <Text style={styles.name} numberOfLines={2}>
+        {achievement.name}
+      </Text>
+      <Text style={styles.description} numberOfLines={3}>
+        {achievement.description}
+      </Text>
+      <Text style={[styles.status, isUnlocked && styles.unlockedStatus]}>
+        {achievement.unlockedAt
+          ? `Débloqué le ${achievement.unlockedAt.toLocaleDateString('fr-FR')}`
+          : 'Verrouillé'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    alignItems: 'center',
+  },
+  lockedContainer: {
+    opacity: 0.6,
+  },
+  iconContainer: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: COLORS.cardSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  unlockedIconContainer: {
+    backgroundColor: COLORS.primary,
+  },
+  name: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: SPACING.xs,
+  },
+  description: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: SPACING.sm,
+  },
+  status: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+  },
+  unlockedStatus: {
+    color: COLORS.primary,
+  },
+});
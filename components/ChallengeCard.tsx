@@ -0,0 +1,157 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ChevronRight, Trophy, Users } from 'lucide-react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import ProgressBar from '@/components/ProgressBar';
+import { Challenge } from '@/types';
+
+interface ChallengeCardProps {
+  challenge: Challenge;
+  color?: string;
+  onPress?: () => void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatReps = (reps: number) => reps.toLocaleString('fr-FR');
+
+const formatTimeLeft = (endsAt: Date) => {
+  const hours = Math.max(0, Math.ceil((endsAt.getTime() - Date.now()) / HOUR_MS));
+  if (hours < 24) return `Se termine dans ${hours} h`;
+
+  const days = Math.ceil(hours / 24);
+  return `Se termine dans ${days} jours`;
+};
+
+export default function ChallengeCard({
+  challenge,
+  color = COLORS.primary,
+  onPress,
+}: ChallengeCardProps) {
+  const progress = Math.min(challenge.progress / challenge.goal, 1);
+  const isCompleted = challenge.completedAt !== null;
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={onPress}
+      disabled={!onPress}
+      activeOpacity={0.8}
+    >
+      <View style={styles.header}>
+        <Users size={20} color={color} />
+        <Text style={styles.label}>DÉFI DU CLAN</Text>
+        <Text style={styles.timeLeft}>{formatTimeLeft(challenge.endsAt)}</Text>
+      </View>
+
+      <Text style={styles.title}>{challenge.title}</Text>
+      {challenge.description ? (
+        <Text style={styles.description}>{challenge.description}</Text>
+      ) : null}
+
+      <View style={styles.progressHeader}>
+        <Text style={styles.progressValue}>
+          {formatReps(challenge.progress)} / {formatReps(challenge.goal)}
+        </Text>
+        <Text style={styles.contribution}>
+          Votre contribution : {formatReps(challenge.contribution)}
+        </Text>
+      </View>
+      <ProgressBar progress={progress} color={isCompleted ? COLORS.success : color} />
+
+      {challenge.reward && (
+        <View style={styles.reward}>
+          <Trophy size={16} color={isCompleted ? COLORS.success : COLORS.textSecondary} />
+          <Text style={[styles.rewardText, isCompleted && styles.completedText]}>
+            {isCompleted
+              ? challenge.contribution > 0
+                ? `Objectif atteint ! Badge « ${challenge.reward.name} » débloqué`
+                : `Objectif atteint ! Contribuez pour obtenir « ${challenge.reward.name} »`
+              : `Récompense : ${challenge.reward.name}`}
+          </Text>
+        </View>
+      )}
+
+      {onPress && (
+        <View style={styles.footer}>
+          <Text style={styles.footerText}>Voir les contributions</Text>
+          <ChevronRight size={16} color={COLORS.textSecondary} />
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  label: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    letterSpacing: 1,
+    marginLeft: SPACING.sm,
+    flex: 1,
+  },
+  timeLeft: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+  },
+  title: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  description: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: SPACING.sm,
+  },
+  progressValue: {
+    ...FONTS.button,
+    color: COLORS.text,
+  },
+  contribution: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+  },
+  reward: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: SPACING.md,
+  },
+  rewardText: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    marginLeft: SPACING.sm,
+    flex: 1,
+  },
+  completedText: {
+    color: COLORS.success,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: SPACING.md,
+  },
+  footerText: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    marginRight: SPACING.xs,
+  },
+});
@@ -0,0 +1,86 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+
+interface CheckInScaleProps {
+  label: string;
+  // Label of each step, from the lowest value
+  steps: string[];
+  value: number | null;
+  onChange: (value: number) => void;
+}
+
+export default function CheckInScale({ label, steps, value, onChange }: CheckInScaleProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>{label}</Text>
+        {value != null && <Text style={styles.selectedLabel}>{steps[value - 1]}</Text>}
+      </View>
+
+      <View style={styles.options}>
+        {steps.map((step, index) => {
+          const stepValue = index + 1;
+          const isSelected = stepValue === value;
+
+          return (
+            <TouchableOpacity
+              key={stepValue}
+              style={[styles.option, isSelected && styles.selectedOption]}
+              onPress={() => onChange(stepValue)}
+              accessibilityLabel={`${label} : ${step}`}
+            >
+              <Text style={[styles.optionValue, isSelected && styles.selectedValue]}>
+                {stepValue}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginBottom: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: SPACING.xs,
+  },
+  label: {
+    ...FONTS.body,
+    color: COLORS.text,
+  },
+  selectedLabel: {
+    ...FONTS.caption,
+    color: COLORS.primary,
+  },
+  options: {
+    flexDirection: 'row',
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: COLORS.cardSecondary,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingVertical: SPACING.sm,
+    marginHorizontal: 2,
+  },
+  selectedOption: {
+    backgroundColor: COLORS.primary,
+  },
+  optionValue: {
+    ...FONTS.button,
+    color: COLORS.textSecondary,
+    fontSize: 14,
+  },
+  selectedValue: {
+    color: COLORS.text,
+  },
+});
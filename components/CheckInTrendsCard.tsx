@@ -0,0 +1,110 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Minus, TrendingDown, TrendingUp } from 'lucide-react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import { CheckInAverages, CheckInTrends, SORENESS_LABELS } from '@/lib/checkIns';
+
+interface CheckInTrendsCardProps {
+  trends: CheckInTrends;
+}
+
+interface Metric {
+  key: keyof CheckInAverages;
+  label: string;
+  scale: string;
+  // Whether a higher value is good news
+  higherIsBetter: boolean;
+}
+
+const METRICS: Metric[] = [
+  { key: 'sleep', label: 'Sommeil', scale: '/5', higherIsBetter: true },
+  { key: 'energy', label: 'Énergie', scale: '/5', higherIsBetter: true },
+  { key: 'moodGain', label: 'Humeur après le rituel', scale: '', higherIsBetter: true },
+  { key: 'rpe', label: 'Effort perçu', scale: '/10', higherIsBetter: false },
+];
+
+// Changes smaller than this are shown as stable
+const STABLE_THRESHOLD = 0.3;
+
+const formatValue = (metric: Metric, value: number) => {
+  const rounded = value.toLocaleString('fr-FR', { maximumFractionDigits: 1 });
+  return metric.key === 'moodGain' && value > 0 ? `+${rounded}` : `${rounded}${metric.scale}`;
+};
+
+export default function CheckInTrendsCard({ trends }: CheckInTrendsCardProps) {
+  const renderTrend = (metric: Metric, current: number, previous: number | null) => {
+    const change = previous == null ? 0 : current - previous;
+
+    if (Math.abs(change) < STABLE_THRESHOLD) {
+      return <Minus size={16} color={COLORS.textSecondary} />;
+    }
+
+    const color = change > 0 === metric.higherIsBetter ? COLORS.success : COLORS.warning;
+    return change > 0
+      ? <TrendingUp size={16} color={color} />
+      : <TrendingDown size={16} color={color} />;
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.caption}>
+        Moyennes des 7 derniers jours ({trends.count} rituel{trends.count > 1 ? 's' : ''}),
+        comparées à la semaine précédente
+      </Text>
+
+      {METRICS.map(metric => {
+        const current = trends.current[metric.key];
+        if (current == null) return null;
+
+        return (
+          <View key={metric.key} style={styles.row}>
+            <Text style={styles.label}>{metric.label}</Text>
+            <Text style={styles.value}>{formatValue(metric, current)}</Text>
+            {renderTrend(metric, current, trends.previous[metric.key])}
+          </View>
+        );
+      })}
+
+      {trends.topSoreness ? (
+        <Text style={styles.soreness}>
+          Courbatures les plus fréquentes : {SORENESS_LABELS[trends.topSoreness]}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+  },
+  caption: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  label: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    flex: 1,
+  },
+  value: {
+    ...FONTS.body,
+    color: COLORS.text,
+    fontFamily: 'Rajdhani-Bold',
+    marginRight: SPACING.sm,
+  },
+  soreness: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+  },
+});
@@ -15,17 +15,10 @@ import Animated, {
 import { Check, Shield } from 'lucide-react-native';
 import { COLORS } from '@/constants/Colors';
 import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import { Clan } from '@/types';
 
 interface ClanCardProps {
-  clan: {
-    id: string;
-    nom_clan: string;
-    tagline: string;
-    description: string;
-    rituel_entree: string;
-    image_url: string;
-    couleur_theme: string;
-  };
+  clan: Clan;
   isSelected: boolean;
   onSelect: () => void;
   position: number;
@@ -69,11 +62,11 @@ export default function ClanCard({
         onPress={onSelect}
         style={[
           styles.touchable,
-          isSelected && { borderColor: clan.couleur_theme, borderWidth: 3 }
+          isSelected && { borderColor: clan.color, borderWidth: 3 }
         ]}
       >
         <ImageBackground
-          source={{ uri: clan.image_url }}
+          source={{ uri: clan.imageUrl }}
           style={styles.imageBackground}
           imageStyle={styles.imageStyle}
         >
@@ -82,15 +75,15 @@ export default function ClanCard({
             style={styles.gradient}
           >
             {isSelected && (
-              <View style={[styles.selectedBadge, { backgroundColor: clan.couleur_theme }]}>
+              <View style={[styles.selectedBadge, { backgroundColor: clan.color }]}>
                 <Shield size={24} color={COLORS.text} />
                 <Check size={16} color={COLORS.text} style={styles.checkIcon} />
               </View>
             )}
             
             <View style={styles.contentContainer}>
-              <View style={[styles.clanBadge, { backgroundColor: clan.couleur_theme }]}>
-                <Text style={styles.clanName}>{clan.nom_clan}</Text>
+              <View style={[styles.clanBadge, { backgroundColor: clan.color }]}>
+                <Text style={styles.clanName}>{clan.name}</Text>
               </View>
               
               <Text style={styles.tagline}>{clan.tagline}</Text>
@@ -98,12 +91,12 @@ export default function ClanCard({
               
               <View style={styles.ritualContainer}>
                 <Text style={styles.ritualTitle}>⚔️ Rituel d'entrée:</Text>
-                <Text style={styles.ritualText}>{clan.rituel_entree}</Text>
+                <Text style={styles.ritualText}>{clan.entryRitual}</Text>
               </View>
               
               {isSelected && (
-                <View style={[styles.selectedIndicator, { borderColor: clan.couleur_theme }]}>
-                  <Text style={[styles.selectedText, { color: clan.couleur_theme }]}>
+                <View style={[styles.selectedIndicator, { borderColor: clan.color }]}>
+                  <Text style={[styles.selectedText, { color: clan.color }]}>
                     Sélectionné
                   </Text>
                 </View>
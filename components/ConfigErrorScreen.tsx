@@ -0,0 +1,61 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { AlertTriangle } from 'lucide-react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+
+interface ConfigErrorScreenProps {
+  errors: string[];
+}
+
+export default function ConfigErrorScreen({ errors }: ConfigErrorScreenProps) {
+  return (
+    <View style={styles.container}>
+      <AlertTriangle size={48} color={COLORS.error} />
+      <Text style={styles.title}>Configuration invalide</Text>
+      <Text style={styles.description}>
+        L'application ne peut pas se connecter au serveur. Vérifiez les variables
+        d'environnement puis relancez l'application.
+      </Text>
+
+      <View style={styles.errorsContainer}>
+        {errors.map(error => (
+          <Text key={error} style={styles.errorText}>• {error}</Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+    backgroundColor: COLORS.background,
+  },
+  title: {
+    ...FONTS.heading,
+    color: COLORS.text,
+    marginTop: SPACING.lg,
+    marginBottom: SPACING.md,
+    textAlign: 'center',
+  },
+  description: {
+    ...FONTS.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: SPACING.lg,
+  },
+  errorsContainer: {
+    width: '100%',
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+  },
+  errorText: {
+    ...FONTS.body,
+    color: COLORS.error,
+  },
+});
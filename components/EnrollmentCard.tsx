@@ -0,0 +1,169 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import Button from '@/components/Button';
+import ProgressBar from '@/components/ProgressBar';
+import { EnrollmentStatus, Program, UserProgram } from '@/types';
+
+interface EnrollmentCardProps {
+  userProgram: UserProgram;
+  program: Program;
+  onPause: (userProgramId: string) => void;
+  onResume: (userProgramId: string) => void;
+  onAbandon: (userProgramId: string) => void;
+  onRestart: (programId: string) => void;
+}
+
+const STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: 'En cours',
+  paused: 'En pause',
+  abandoned: 'Abandonné',
+  completed: 'Terminé',
+};
+
+const STATUS_COLORS: Record<EnrollmentStatus, string> = {
+  active: COLORS.primary,
+  paused: COLORS.warning,
+  abandoned: COLORS.textSecondary,
+  completed: COLORS.success,
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('fr-FR', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const getStatusDate = (userProgram: UserProgram) => {
+  switch (userProgram.status) {
+    case 'paused':
+      return userProgram.pausedAt && `En pause depuis le ${formatDate(userProgram.pausedAt)}`;
+    case 'abandoned':
+      return userProgram.abandonedAt && `Abandonné le ${formatDate(userProgram.abandonedAt)}`;
+    case 'completed':
+      return userProgram.completedAt && `Terminé le ${formatDate(userProgram.completedAt)}`;
+    default:
+      return null;
+  }
+};
+
+export default function EnrollmentCard({
+  userProgram,
+  program,
+  onPause,
+  onResume,
+  onAbandon,
+  onRestart,
+}: EnrollmentCardProps) {
+  const daysDone = Math.min(userProgram.currentDay - 1, program.duration);
+  const isLive = userProgram.status === 'active' || userProgram.status === 'paused';
+  const statusDate = getStatusDate(userProgram);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title} numberOfLines={1}>
+          {program.title}
+        </Text>
+        <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[userProgram.status] }]}>
+          <Text style={styles.statusText}>{STATUS_LABELS[userProgram.status]}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.dates}>Commencé le {formatDate(userProgram.startDate)}</Text>
+      {statusDate ? <Text style={styles.dates}>{statusDate}</Text> : null}
+
+      <View style={styles.progress}>
+        <Text style={styles.progressText}>
+          {daysDone} / {program.duration} jours
+        </Text>
+        <ProgressBar progress={daysDone / program.duration} />
+      </View>
+
+      <View style={styles.actions}>
+        {userProgram.status === 'active' && (
+          <Button
+            title="Mettre en pause"
+            onPress={() => onPause(userProgram.id)}
+            variant="outline"
+            size="small"
+            style={styles.actionButton}
+          />
+        )}
+        {userProgram.status === 'paused' && (
+          <Button
+            title="Reprendre"
+            onPress={() => onResume(userProgram.id)}
+            size="small"
+            style={styles.actionButton}
+          />
+        )}
+        {isLive ? (
+          <Button
+            title="Abandonner"
+            onPress={() => onAbandon(userProgram.id)}
+            variant="outline"
+            size="small"
+            style={styles.actionButton}
+          />
+        ) : (
+          <Button
+            title="Recommencer au jour 1"
+            onPress={() => onRestart(program.id)}
+            size="small"
+            style={styles.actionButton}
+          />
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  title: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    flex: 1,
+    marginRight: SPACING.sm,
+  },
+  statusBadge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.sm,
+  },
+  statusText: {
+    ...FONTS.caption,
+    color: COLORS.text,
+  },
+  dates: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+  },
+  progress: {
+    marginTop: SPACING.md,
+  },
+  progressText: {
+    ...FONTS.caption,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  actionButton: {
+    flexGrow: 1,
+  },
+});
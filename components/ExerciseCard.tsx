@@ -12,7 +12,9 @@ import { WebView } from 'react-native-webview';
 import { COLORS } from '@/constants/Colors';
 import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
 import ProgressBar from './ProgressBar';
-import { Play, X } from 'lucide-react-native';
+import ExerciseTimer from './ExerciseTimer';
+import ProgressEditor from './ProgressEditor';
+import { Play, Users, X } from 'lucide-react-native';
 import Animated, { 
   useSharedValue, 
   useAnimatedStyle, 
@@ -20,19 +22,37 @@ import Animated, {
   withSequence,
   Easing 
 } from 'react-native-reanimated';
-import { Exercise } from '@/types';
+import { formatAmount, formatProgress } from '@/lib/measurements';
+import { getSetStatus } from '@/lib/sets';
+import { Exercise, ExerciseMeasurement } from '@/types';
 
 interface ExerciseCardProps {
   exercise: Exercise;
-  onUpdateProgress: (exerciseId: string, reps: number) => void;
+  onUpdateProgress: (exerciseId: string, amount: number) => void;
+  onSetProgress?: (exerciseId: string, value: number) => void; // long press on the progress
+  challengeTitle?: string; // set when the reps count toward the clan challenge
 }
 
-export default function ExerciseCard({ exercise, onUpdateProgress }: ExerciseCardProps) {
+// Quick-add amounts for exercises that are counted rather than timed
+const STEPS: Record<Exclude<ExerciseMeasurement, 'seconds'>, number[]> = {
+  reps: [1, 5, 10],
+  breaths: [1, 5, 10],
+  distance: [100, 500, 1000],
+};
+
+export default function ExerciseCard({
+  exercise,
+  onUpdateProgress,
+  onSetProgress,
+  challengeTitle,
+}: ExerciseCardProps) {
   const [showVideo, setShowVideo] = useState(false);
-  const progress = exercise.completedReps / exercise.targetReps;
+  const [showEditor, setShowEditor] = useState(false);
+  const progress = exercise.completed / exercise.target;
+  const setStatus = getSetStatus(exercise);
   const scale = useSharedValue(1);
   
-  const addReps = (amount: number) => {
+  const addAmount = (amount: number) => {
     onUpdateProgress(exercise.id, amount);
     
     // Animation
@@ -69,38 +89,68 @@ export default function ExerciseCard({ exercise, onUpdateProgress }: ExerciseCar
           <Text style={styles.title}>{exercise.name}</Text>
           <Text style={styles.description}>{exercise.description}</Text>
           
-          <View style={styles.progressContainer}>
+          {exercise.sets > 1 && (
+            <Text style={styles.sets}>
+              {setStatus.setsDone} / {exercise.sets} séries de{' '}
+              {formatAmount(exercise.measurement, exercise.setTarget)}
+              {exercise.restSeconds > 0 ? ` · repos ${exercise.restSeconds} s` : ''}
+            </Text>
+          )}
+          
+          {challengeTitle ? (
+            <View style={styles.challengeHint}>
+              <Users size={12} color={COLORS.primary} />
+              <Text style={styles.challengeHintText} numberOfLines={1}>
+                Compte pour le défi : {challengeTitle}
+              </Text>
+            </View>
+          ) : null}
+          
+          <Pressable
+            style={styles.progressContainer}
+            onLongPress={() => setShowEditor(true)}
+            disabled={!onSetProgress}
+            accessibilityHint="Appui long pour corriger le total du jour"
+          >
             <Text style={styles.progressText}>
-              {exercise.completedReps} / {exercise.targetReps}
+              {formatProgress(exercise)}
             </Text>
             <ProgressBar progress={progress} height={8} />
-          </View>
+          </Pressable>
           
-          <View style={styles.buttonsContainer}>
-            <Pressable 
-              style={styles.repButton}
-              onPress={() => addReps(1)}
-            >
-              <Text style={styles.repButtonText}>+1</Text>
-            </Pressable>
-            
-            <Pressable 
-              style={styles.repButton}
-              onPress={() => addReps(5)}
-            >
-              <Text style={styles.repButtonText}>+5</Text>
-            </Pressable>
-            
-            <Pressable 
-              style={styles.repButton}
-              onPress={() => addReps(10)}
-            >
-              <Text style={styles.repButtonText}>+10</Text>
-            </Pressable>
-          </View>
+          {exercise.measurement === 'seconds' ? (
+            <ExerciseTimer
+              key={setStatus.currentSet}
+              remaining={setStatus.remaining}
+              onElapsed={seconds => onUpdateProgress(exercise.id, seconds)}
+            />
+          ) : (
+            <View style={styles.buttonsContainer}>
+              {STEPS[exercise.measurement].map(step => (
+                <Pressable 
+                  key={step}
+                  style={styles.repButton}
+                  onPress={() => addAmount(step)}
+                >
+                  <Text style={styles.repButtonText}>
+                    +{formatAmount(exercise.measurement, step)}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
         </View>
       </View>
       
+      {onSetProgress && (
+        <ProgressEditor
+          exercise={exercise}
+          visible={showEditor}
+          onSubmit={value => onSetProgress(exercise.id, value)}
+          onClose={() => setShowEditor(false)}
+        />
+      )}
+      
       <Modal
         visible={showVideo}
         animationType="slide"
@@ -172,6 +222,22 @@ const styles = StyleSheet.create({
     color: COLORS.textSecondary,
     marginBottom: SPACING.sm,
   },
+  sets: {
+    ...FONTS.caption,
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  challengeHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  challengeHintText: {
+    ...FONTS.caption,
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+    flex: 1,
+  },
   progressContainer: {
     marginBottom: SPACING.sm,
   },
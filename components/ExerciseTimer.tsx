@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { Pause, Play } from 'lucide-react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import { playCue } from '@/lib/cues';
+import { formatDuration } from '@/lib/measurements';
+
+interface ExerciseTimerProps {
+  remaining: number; // seconds left before the target is reached
+  onElapsed: (seconds: number) => void;
+  onFinish?: () => void; // after the time of the countdown is logged
+}
+
+// Countdown for timed exercises. The time spent is logged when the timer is
+// paused, reaches zero or leaves the screen, never while it runs
+export default function ExerciseTimer({ remaining, onElapsed, onFinish }: ExerciseTimerProps) {
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const elapsed = startedAt === null
+    ? 0
+    : Math.min(Math.floor((now - startedAt) / 1000), remaining);
+  const secondsLeft = remaining - elapsed;
+
+  // Read by the unmount cleanup, which only sees the first render otherwise
+  const elapsedRef = useRef(elapsed);
+  const onElapsedRef = useRef(onElapsed);
+  elapsedRef.current = elapsed;
+  onElapsedRef.current = onElapsed;
+
+  useEffect(() => {
+    if (startedAt === null) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  useEffect(() => () => {
+    if (elapsedRef.current > 0) onElapsedRef.current(elapsedRef.current);
+  }, []);
+
+  const stop = () => {
+    if (elapsed > 0) onElapsed(elapsed);
+    // onFinish can unmount the timer before the next render
+    elapsedRef.current = 0;
+    setStartedAt(null);
+  };
+
+  useEffect(() => {
+    if (startedAt === null) return;
+
+    if (secondsLeft <= 0) {
+      playCue('finish', 'Terminé');
+      stop();
+      onFinish?.();
+    } else if (secondsLeft <= 3) {
+      playCue('countdown', `${secondsLeft}`);
+    } else if (remaining >= 20 && secondsLeft === Math.floor(remaining / 2)) {
+      playCue('halfway', 'Mi-parcours');
+    }
+  }, [secondsLeft]);
+
+  const start = () => {
+    const timestamp = Date.now();
+    setNow(timestamp);
+    setStartedAt(timestamp);
+    playCue('start', 'C\'est parti');
+  };
+
+  const isRunning = startedAt !== null;
+  const Icon = isRunning ? Pause : Play;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.time, isRunning && styles.runningTime]}>
+        {formatDuration(secondsLeft)}
+      </Text>
+      <Pressable
+        style={[styles.button, remaining <= 0 && styles.disabledButton]}
+        onPress={isRunning ? stop : start}
+        disabled={remaining <= 0}
+      >
+        <Icon size={16} color={COLORS.text} />
+        <Text style={styles.buttonText}>{isRunning ? 'Pause' : 'Démarrer'}</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  time: {
+    ...FONTS.heading,
+    color: COLORS.textSecondary,
+    fontSize: 22,
+    marginRight: SPACING.md,
+  },
+  runningTime: {
+    color: COLORS.text,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.primaryDark,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.sm,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    ...FONTS.button,
+    color: COLORS.text,
+    fontSize: 14,
+    marginLeft: SPACING.xs,
+  },
+});
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import Button from '@/components/Button';
+import CheckInScale from '@/components/CheckInScale';
+import { MOOD_STEPS, RPE_STEPS, SORENESS_LABELS } from '@/lib/checkIns';
+import { CheckInAnswers, SorenessArea } from '@/types';
+
+interface PostRitualCheckInProps {
+  // Mood given in the readiness check, not asked again
+  moodBefore: number | null;
+  onSubmit: (answers: CheckInAnswers) => void;
+  onDismiss: () => void;
+}
+
+const AREAS = Object.keys(SORENESS_LABELS) as SorenessArea[];
+
+export default function PostRitualCheckIn({ moodBefore, onSubmit, onDismiss }: PostRitualCheckInProps) {
+  const [rpe, setRpe] = useState<number | null>(null);
+  const [askedMoodBefore, setAskedMoodBefore] = useState<number | null>(null);
+  const [moodAfter, setMoodAfter] = useState<number | null>(null);
+  const [soreness, setSoreness] = useState<SorenessArea[]>([]);
+
+  const toggleArea = (area: SorenessArea) => {
+    setSoreness(prev => prev.includes(area) ? prev.filter(a => a !== area) : [...prev, area]);
+  };
+
+  const handleSubmit = () => {
+    onSubmit({
+      rpe,
+      moodAfter,
+      soreness,
+      ...(moodBefore == null && { moodBefore: askedMoodBefore }),
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Comment s'est passé ce rituel ?</Text>
+      <Text style={styles.subtitle}>
+        Tes prochains objectifs s'adapteront à ton ressenti.
+      </Text>
+
+      <CheckInScale label="Effort perçu" steps={RPE_STEPS} value={rpe} onChange={setRpe} />
+      {moodBefore == null && (
+        <CheckInScale
+          label="Humeur avant"
+          steps={MOOD_STEPS}
+          value={askedMoodBefore}
+          onChange={setAskedMoodBefore}
+        />
+      )}
+      <CheckInScale
+        label={moodBefore == null ? 'Humeur après' : 'Humeur'}
+        steps={MOOD_STEPS}
+        value={moodAfter}
+        onChange={setMoodAfter}
+      />
+
+      <Text style={styles.label}>Courbatures</Text>
+      <View style={styles.areas}>
+        {AREAS.map(area => {
+          const isSelected = soreness.includes(area);
+
+          return (
+            <TouchableOpacity
+              key={area}
+              style={[styles.area, isSelected && styles.selectedArea]}
+              onPress={() => toggleArea(area)}
+            >
+              <Text style={[styles.areaLabel, isSelected && styles.selectedAreaLabel]}>
+                {SORENESS_LABELS[area]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Button
+        title="Enregistrer"
+        onPress={handleSubmit}
+        disabled={rpe == null}
+        fullWidth
+        style={styles.submitButton}
+      />
+
+      <TouchableOpacity onPress={onDismiss}>
+        <Text style={styles.dismiss}>Plus tard</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+    alignItems: 'center',
+  },
+  title: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    textAlign: 'center',
+    marginBottom: SPACING.xs,
+  },
+  subtitle: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: SPACING.md,
+  },
+  label: {
+    ...FONTS.body,
+    color: COLORS.text,
+    alignSelf: 'flex-start',
+    marginBottom: SPACING.xs,
+  },
+  areas: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    width: '100%',
+    marginBottom: SPACING.md,
+  },
+  area: {
+    backgroundColor: COLORS.cardSecondary,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    marginRight: SPACING.xs,
+    marginBottom: SPACING.xs,
+  },
+  selectedArea: {
+    backgroundColor: COLORS.primary,
+  },
+  areaLabel: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+  },
+  selectedAreaLabel: {
+    color: COLORS.text,
+  },
+  submitButton: {
+    marginBottom: SPACING.md,
+  },
+  dismiss: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    textDecorationLine: 'underline',
+  },
+});
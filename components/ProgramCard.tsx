@@ -9,28 +9,17 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { COLORS } from '@/constants/Colors';
 import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
-
-interface Program {
-  id: string;
-  title: string;
-  description: string;
-  duration: number;
-  focus: string[] | string;
-  imageUrl: string;
-}
+import { Program } from '@/types';
+import { Lock } from 'lucide-react-native';
 
 interface ProgramCardProps {
   program: Program;
   onPress: (programId: string) => void;
+  // Premium program the member is not entitled to yet
+  isLocked?: boolean;
 }
 
-export default function ProgramCard({ program, onPress }: ProgramCardProps) {
-  const parsedFocus = Array.isArray(program.focus) 
-    ? program.focus 
-    : typeof program.focus === 'string' 
-      ? JSON.parse(program.focus || '[]')
-      : [];
-
+export default function ProgramCard({ program, onPress, isLocked = false }: ProgramCardProps) {
   return (
     <TouchableOpacity
       style={styles.container}
@@ -52,12 +41,13 @@ export default function ProgramCard({ program, onPress }: ProgramCardProps) {
                 {program.title}
               </Text>
               <View style={styles.durationBadge}>
+                {isLocked && <Lock size={14} color={COLORS.text} style={styles.lockIcon} />}
                 <Text style={styles.durationText}>{program.duration} jours</Text>
               </View>
             </View>
 
             <View style={styles.tagsContainer}>
-              {parsedFocus.map((tag, index) => (
+              {program.focus.map((tag, index) => (
                 <View key={index} style={styles.tagBadge}>
                   <Text style={styles.tagText}>{tag}</Text>
                 </View>
@@ -109,11 +99,16 @@ const styles = StyleSheet.create({
     marginRight: SPACING.sm,
   },
   durationBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
     backgroundColor: COLORS.primary,
     paddingHorizontal: SPACING.sm,
     paddingVertical: SPACING.xs,
     borderRadius: BORDER_RADIUS.sm,
   },
+  lockIcon: {
+    marginRight: SPACING.xs,
+  },
   durationText: {
     ...FONTS.button,
     color: COLORS.text,
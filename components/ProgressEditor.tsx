@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, View } from 'react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import Button from '@/components/Button';
+import { Exercise, ExerciseMeasurement } from '@/types';
+
+interface ProgressEditorProps {
+  exercise: Exercise;
+  visible: boolean;
+  onSubmit: (value: number) => void;
+  onClose: () => void;
+}
+
+const UNITS: Record<ExerciseMeasurement, string> = {
+  reps: 'répétitions',
+  seconds: 'secondes',
+  distance: 'mètres',
+  breaths: 'respirations',
+};
+
+// Sets the exact amount done today for an exercise, e.g. after a mis-tap
+export default function ProgressEditor({
+  exercise,
+  visible,
+  onSubmit,
+  onClose,
+}: ProgressEditorProps) {
+  const [value, setValue] = useState(`${exercise.completed}`);
+
+  useEffect(() => {
+    if (visible) setValue(`${exercise.completed}`);
+  }, [visible]);
+
+  const parsed = Number.parseInt(value, 10);
+  const isValid = Number.isInteger(parsed) && parsed >= 0 && parsed <= exercise.target;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+    onSubmit(parsed);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Corriger {exercise.name}</Text>
+          <Text style={styles.label}>
+            Total du jour, en {UNITS[exercise.measurement]} (objectif {exercise.target})
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={value}
+            onChangeText={setValue}
+            keyboardType="number-pad"
+            selectTextOnFocus
+            autoFocus
+          />
+          {!isValid && (
+            <Text style={styles.errorText}>
+              Entrez une valeur entre 0 et {exercise.target}
+            </Text>
+          )}
+          <View style={styles.actions}>
+            <Button title="Annuler" variant="outline" size="small" onPress={onClose} />
+            <Button
+              title="Enregistrer"
+              size="small"
+              onPress={handleSubmit}
+              disabled={!isValid}
+              style={styles.submitButton}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    padding: SPACING.lg,
+  },
+  container: {
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+  },
+  title: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  label: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.sm,
+  },
+  input: {
+    backgroundColor: COLORS.cardSecondary,
+    borderRadius: BORDER_RADIUS.sm,
+    padding: SPACING.md,
+    color: COLORS.text,
+    ...FONTS.heading,
+    fontSize: 24,
+    textAlign: 'center',
+  },
+  errorText: {
+    ...FONTS.caption,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: SPACING.lg,
+  },
+  submitButton: {
+    marginLeft: SPACING.sm,
+  },
+});
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+import Button from '@/components/Button';
+import CheckInScale from '@/components/CheckInScale';
+import { ENERGY_STEPS, MOOD_STEPS, SLEEP_STEPS } from '@/lib/checkIns';
+import { CheckInAnswers } from '@/types';
+
+interface ReadinessCheckProps {
+  onSubmit: (answers: CheckInAnswers) => void;
+  onSkip: () => void;
+}
+
+export default function ReadinessCheck({ onSubmit, onSkip }: ReadinessCheckProps) {
+  const [sleep, setSleep] = useState<number | null>(null);
+  const [energy, setEnergy] = useState<number | null>(null);
+  const [moodBefore, setMoodBefore] = useState<number | null>(null);
+
+  const canSubmit = sleep != null && energy != null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Comment te sens-tu avant de commencer ?</Text>
+      <Text style={styles.subtitle}>
+        Facultatif. Un rituel plus léger te sera proposé les jours sans énergie.
+      </Text>
+
+      <CheckInScale label="Sommeil" steps={SLEEP_STEPS} value={sleep} onChange={setSleep} />
+      <CheckInScale label="Énergie" steps={ENERGY_STEPS} value={energy} onChange={setEnergy} />
+      <CheckInScale label="Humeur" steps={MOOD_STEPS} value={moodBefore} onChange={setMoodBefore} />
+
+      <Button
+        title="Valider"
+        onPress={() => onSubmit({ sleep, energy, ...(moodBefore != null && { moodBefore }) })}
+        disabled={!canSubmit}
+        fullWidth
+        style={styles.submitButton}
+      />
+
+      <TouchableOpacity onPress={onSkip}>
+        <Text style={styles.dismiss}>Passer</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+    alignItems: 'center',
+    marginBottom: SPACING.lg,
+  },
+  title: {
+    ...FONTS.subheading,
+    color: COLORS.text,
+    textAlign: 'center',
+    marginBottom: SPACING.xs,
+  },
+  subtitle: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: SPACING.md,
+  },
+  submitButton: {
+    marginBottom: SPACING.md,
+  },
+  dismiss: {
+    ...FONTS.caption,
+    color: COLORS.textSecondary,
+    textDecorationLine: 'underline',
+  },
+});
@@ -0,0 +1,64 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { COLORS } from '@/constants/Colors';
+import { BORDER_RADIUS, FONTS, SPACING } from '@/constants/Layout';
+
+interface SegmentedControlProps<T extends string> {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  style?: ViewStyle;
+}
+
+export default function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+  style,
+}: SegmentedControlProps<T>) {
+  return (
+    <View style={[styles.container, style]}>
+      {options.map(option => {
+        const isSelected = option.value === value;
+
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.segment, isSelected && styles.selectedSegment]}
+            onPress={() => onChange(option.value)}
+          >
+            <Text style={[styles.label, isSelected && styles.selectedLabel]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.card,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.xs,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.sm,
+  },
+  selectedSegment: {
+    backgroundColor: COLORS.primary,
+  },
+  label: {
+    ...FONTS.button,
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  selectedLabel: {
+    color: COLORS.text,
+  },
+});
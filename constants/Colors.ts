@@ -13,12 +13,6 @@ export const COLORS = {
   warning: '#F6AD55',
   error: '#F56565',
   
-  clan: {
-    onotka: '#F77C6F', // Red/orange tone for strength/power
-    ekloa: '#4CC3FF',  // Blue tone for speed/explosivity
-    okwaho: '#4FD1C5'  // Teal tone for fluidity/adaptability
-  },
-  
   progress: {
     background: '#303030',
     completed: '#8C6FF7'
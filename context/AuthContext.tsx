@@ -1,13 +1,11 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
 import { router } from 'expo-router';
-import { createClient } from '@supabase/supabase-js';
-import { User, Clan } from '@/types';
-
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.EXPO_PUBLIC_SUPABASE_URL!,
-  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { QueryData } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { mapClanRow } from '@/lib/clanRepository';
+import { getDeviceTimeZone } from '@/lib/dates';
+import { mapStreakRow } from '@/lib/streaks';
+import { User } from '@/types';
 
 interface AuthContextProps {
   user: User | null;
@@ -15,7 +13,9 @@ interface AuthContextProps {
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (name: string, email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
-  setCurrentOnboardingData: (data: Partial<User>) => void;
+  setCurrentOnboardingData: (data: Partial<User>) => Promise<void>;
+  applyDayCompletion: (stats: Pick<User, 'totalDaysCompleted' | 'streak'>) => void;
+  setPublicRanking: (publicRanking: boolean) => Promise<void>;
 }
 
 const defaultContext: AuthContextProps = {
@@ -24,17 +24,37 @@ const defaultContext: AuthContextProps = {
   signIn: async () => {},
   signUp: async () => {},
   signOut: async () => {},
-  setCurrentOnboardingData: () => {},
+  setCurrentOnboardingData: async () => {},
+  applyDayCompletion: () => {},
+  setPublicRanking: async () => {},
 };
 
 const AuthContext = createContext<AuthContextProps>(defaultContext);
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const selectProfile = (userId: string) =>
+  supabase
+    .from('profiles')
+    .select('*, clans(*), user_streaks(*)')
+    .eq('id', userId)
+    .limit(1)
+    .maybeSingle();
+
+type ProfileRow = NonNullable<QueryData<ReturnType<typeof selectProfile>>>;
+
+const mapProfile = (profile: ProfileRow): User => ({
+  id: profile.id,
+  name: profile.name,
+  email: '', // Email is stored in auth.users
+  clan: profile.clans ? mapClanRow(profile.clans) : null,
+  totalDaysCompleted: profile.total_days_completed ?? 0,
+  streak: mapStreakRow(profile.user_streaks),
+  timezone: profile.timezone,
+  publicRanking: profile.public_ranking,
+});
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [pendingProfile, setPendingProfile] = useState<{ name: string } | null>(null);
 
   useEffect(() => {
     // Check active session
@@ -47,34 +67,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     });
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (_event, session) => {
       if (session) {
-        // If we have a pending profile and this is a new session, create the profile
-        if (pendingProfile && event === 'SIGNED_IN') {
-          try {
-            const { error: profileError } = await supabase
-              .from('profiles')
-              .insert({
-                id: session.user.id,
-                name: pendingProfile.name,
-                clan: 'onotka',
-                total_days_completed: 0,
-              });
-
-            if (profileError) throw profileError;
-
-            // Clear pending profile
-            setPendingProfile(null);
-            
-            // Wait for profile to be created before fetching
-            await fetchUserProfileWithRetry(session.user.id);
-          } catch (error) {
-            console.error('Error creating profile:', error);
-            setIsLoading(false);
-          }
-        } else {
-          await fetchUserProfileWithRetry(session.user.id);
-        }
+        await fetchUserProfile(session.user.id);
       } else {
         setUser(null);
         setIsLoading(false);
@@ -84,62 +79,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => {
       subscription.unsubscribe();
     };
-  }, [pendingProfile]);
-
-  const fetchUserProfileWithRetry = async (userId: string, retries = 5): Promise<boolean> => {
-    for (let i = 0; i < retries; i++) {
-      try {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', userId)
-          .limit(1)
-          .maybeSingle();
-
-        if (error) throw error;
-
-        if (data) {
-          setUser({
-            id: data.id,
-            name: data.name,
-            email: '', // Email is stored in auth.users
-            clan: data.clan as Clan,
-            totalDaysCompleted: data.total_days_completed,
-          });
-          setIsLoading(false);
-          return true;
-        }
-
-        // If no data found, wait before retrying
-        await delay(500);
-      } catch (error) {
-        console.error('Error fetching user profile (attempt ${i + 1}):', error);
-        await delay(500);
-      }
-    }
-    setIsLoading(false);
-    return false;
-  };
+  }, []);
 
   const fetchUserProfile = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .limit(1)
-        .maybeSingle();
+      const { data, error } = await selectProfile(userId);
 
       if (error) throw error;
 
       if (data) {
-        setUser({
-          id: data.id,
-          name: data.name,
-          email: '', // Email is stored in auth.users
-          clan: data.clan as Clan,
-          totalDaysCompleted: data.total_days_completed,
-        });
+        setUser(mapProfile(data));
+        syncTimezone(data.id, data.timezone);
       }
     } catch (error) {
       console.error('Error fetching user profile:', error);
@@ -148,6 +98,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Completions are dated in the profile time zone, so keep it on the device one
+  const syncTimezone = async (userId: string, profileTimezone: string) => {
+    const timezone = getDeviceTimeZone();
+    if (timezone === profileTimezone) return;
+
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ timezone })
+        .eq('id', userId);
+
+      if (error) throw error;
+
+      setUser(prev => prev ? { ...prev, timezone } : null);
+    } catch (error) {
+      console.error('Error updating user time zone:', error);
+    }
+  };
+
   const signIn = async (email: string, password: string) => {
     try {
       setIsLoading(true);
@@ -171,13 +140,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       setIsLoading(true);
       
-      // Store the name for profile creation after auth
-      setPendingProfile({ name });
-      
-      // Create auth user
-      const { data: { user: authUser }, error: signUpError } = await supabase.auth.signUp({
+      // The profile row is created by the on_auth_user_created trigger from this metadata
+      const { data: { user: authUser, session }, error: signUpError } = await supabase.auth.signUp({
         email,
         password,
+        options: {
+          data: { name },
+        },
       });
 
       if (signUpError) {
@@ -190,10 +159,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       
       if (!authUser) throw new Error('No user returned after signup');
 
-      // Profile will be created by the auth state change listener
-      // Don't navigate here - wait for profile to be created first
+      // Without a session the account still awaits email confirmation
+      if (session) {
+        await fetchUserProfile(authUser.id);
+      } else {
+        setIsLoading(false);
+      }
     } catch (error) {
       console.error('Sign up error:', error);
+      setIsLoading(false);
       throw error;
     }
   };
@@ -216,7 +190,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const { error } = await supabase
         .from('profiles')
-        .update({ clan: data.clan })
+        .update({ clan_id: data.clan.id })
         .eq('id', user.id);
 
       if (error) throw error;
@@ -224,9 +198,33 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setUser(prev => prev ? { ...prev, ...data } : null);
     } catch (error) {
       console.error('Error updating user data:', error);
+      throw error;
+    }
+  };
+
+  const setPublicRanking = async (publicRanking: boolean) => {
+    if (!user?.id) return;
+
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ public_ranking: publicRanking })
+        .eq('id', user.id);
+
+      if (error) throw error;
+
+      setUser(prev => prev ? { ...prev, publicRanking } : null);
+    } catch (error) {
+      console.error('Error updating ranking preference:', error);
+      throw error;
     }
   };
 
+  // These stats are owned by the server; this only mirrors the values it returned
+  const applyDayCompletion = (stats: Pick<User, 'totalDaysCompleted' | 'streak'>) => {
+    setUser(prev => prev ? { ...prev, ...stats } : null);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -236,6 +234,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         signUp,
         signOut,
         setCurrentOnboardingData,
+        applyDayCompletion,
+        setPublicRanking,
       }}
     >
       {children}
@@ -1,62 +1,242 @@
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
-import { Program, DailyRitual, UserProgram } from '@/types';
-import { mockPrograms, mockDailyRituals } from '@/data/mockData';
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  Program,
+  DailyRitual,
+  UserProgram,
+  CheckIn,
+  CheckInAnswers,
+  Exercise,
+  ExerciseLog,
+  ExerciseLogKind,
+} from '@/types';
+import { fetchDailyRituals, fetchPrograms } from '@/lib/programRepository';
+import {
+  completeRitualDay,
+  createUserProgram,
+  fetchUserPrograms,
+  setEnrollmentStatus,
+} from '@/lib/userProgramRepository';
+import {
+  fetchExerciseLogs,
+  getLogAmount,
+  insertExerciseLog,
+  sumExerciseLogs,
+  toLogQuantity,
+} from '@/lib/exerciseLogRepository';
+import {
+  clearFailedOperations,
+  enqueue,
+  FailedOperation,
+  flushQueue,
+  getRetryDelay,
+  loadFailedOperations,
+  loadQueue,
+  QueuedOperation,
+} from '@/lib/progressQueue';
+import {
+  fetchTargetMultipliers,
+  rateRitualDay,
+  scaleTarget,
+  TargetMultipliers,
+} from '@/lib/targetAdjustmentRepository';
+import { fetchCheckIns, saveCheckIn } from '@/lib/checkInRepository';
+import { fetchEntitledProgramIds } from '@/lib/entitlementRepository';
+import { purchaseProduct, restorePurchases as restoreStorePurchases } from '@/lib/purchases';
+import { mergeCheckIn, toEffortRating } from '@/lib/checkIns';
+import { addDays, toLocalDay } from '@/lib/dates';
+import {
+  advanceSchedule,
+  getScheduleStatus,
+  ScheduleStatus,
+  settleMissedDays,
+} from '@/lib/schedule';
+import { useAuth } from '@/context/AuthContext';
 
 interface ProgramContextProps {
   programs: Program[];
   dailyRituals: DailyRitual[];
   currentProgram: Program | null;
+  currentUserProgram: UserProgram | null;
   userPrograms: UserProgram[];
   isLoading: boolean;
+  error: string | null;
   selectProgram: (programId: string) => Promise<void>;
+  pauseProgram: (userProgramId: string) => Promise<void>;
+  resumeProgram: (userProgramId: string) => Promise<void>;
+  abandonProgram: (userProgramId: string) => Promise<void>;
+  restartProgram: (programId: string) => Promise<void>;
+  hasProgramAccess: (programId: string) => boolean;
+  // Throw a PurchaseError or the server error, for the paywall to show
+  purchaseProgram: (programId: string) => Promise<void>;
+  restorePurchases: () => Promise<number>;
+  exerciseLogs: ExerciseLog[];
+  getRitualForDay: (day: number) => DailyRitual | null;
   getCurrentDayRitual: () => DailyRitual | null;
-  updateExerciseProgress: (exerciseId: string, reps: number) => void;
-  completeDay: () => void;
+  updateExerciseProgress: (exerciseId: string, amount: number) => Promise<void>;
+  setExerciseProgress: (exerciseId: string, value: number) => Promise<void>;
+  undoableLog: ExerciseLog | null;
+  undoLastLog: () => Promise<void>;
+  completeDay: () => Promise<void>;
+  getCheckInForDay: (day: number) => CheckIn | null;
+  // Readiness of the current day, answered before the ritual
+  saveReadiness: (answers: CheckInAnswers) => Promise<void>;
+  // Day completed in this session and waiting for its check-in
+  pendingCheckIn: { completionId: string; day: number } | null;
+  submitCheckIn: (answers: CheckInAnswers) => Promise<void>;
+  dismissCheckIn: () => void;
+  getCurrentSchedule: () => ScheduleStatus | null;
+  pendingSyncCount: number;
+  // Progress the server refused, which is not saved
+  failedSyncCount: number;
+  dismissFailedSync: () => Promise<void>;
 }
 
 const defaultContext: ProgramContextProps = {
   programs: [],
   dailyRituals: [],
   currentProgram: null,
+  currentUserProgram: null,
   userPrograms: [],
   isLoading: true,
+  error: null,
   selectProgram: async () => {},
+  pauseProgram: async () => {},
+  resumeProgram: async () => {},
+  abandonProgram: async () => {},
+  restartProgram: async () => {},
+  hasProgramAccess: () => true,
+  purchaseProgram: async () => {},
+  restorePurchases: async () => 0,
+  exerciseLogs: [],
+  getRitualForDay: () => null,
   getCurrentDayRitual: () => null,
-  updateExerciseProgress: () => {},
-  completeDay: () => {},
+  updateExerciseProgress: async () => {},
+  setExerciseProgress: async () => {},
+  undoableLog: null,
+  undoLastLog: async () => {},
+  completeDay: async () => {},
+  getCheckInForDay: () => null,
+  saveReadiness: async () => {},
+  pendingCheckIn: null,
+  submitCheckIn: async () => {},
+  dismissCheckIn: () => {},
+  getCurrentSchedule: () => null,
+  pendingSyncCount: 0,
+  failedSyncCount: 0,
+  dismissFailedSync: async () => {},
 };
 
 const ProgramContext = createContext<ProgramContextProps>(defaultContext);
 
+// Adds logs that are still waiting in the queue on top of the synced ones
+const applyPendingLogs = (
+  logs: ExerciseLog[],
+  queue: QueuedOperation[],
+  userProgramId: string
+): ExerciseLog[] => {
+  const pendingLogs = queue.flatMap(operation =>
+    operation.type === 'log_exercise' &&
+    operation.userProgramId === userProgramId &&
+    !logs.some(log => log.id === operation.id)
+      ? [{
+          id: operation.id,
+          userProgramId: operation.userProgramId,
+          day: operation.day,
+          exerciseId: operation.exerciseId,
+          // Missing from logs queued before undos and distance exercises
+          kind: operation.kind ?? 'entry',
+          undoneLogId: operation.undoneLogId ?? null,
+          reps: operation.reps,
+          seconds: operation.seconds,
+          meters: operation.meters ?? null,
+          loggedAt: new Date(operation.createdAt),
+        }]
+      : []
+  );
+
+  return [...logs, ...pendingLogs];
+};
+
+// Applies answers still waiting in the queue on top of the synced check-ins
+const applyPendingCheckIns = (
+  checkIns: CheckIn[],
+  queue: QueuedOperation[],
+  userProgramId: string
+): CheckIn[] =>
+  queue.reduce(
+    (current, operation) =>
+      operation.type === 'check_in' && operation.userProgramId === userProgramId
+        ? mergeCheckIn(current, userProgramId, operation.day, operation.date, operation.answers)
+        : current,
+    checkIns
+  );
+
+// Advances enrollments past the days completed while offline, dating each
+// completion in the user's time zone like the server will: yesterday at the
+// earliest
+const applyPendingDays = (
+  userPrograms: UserProgram[],
+  queue: QueuedOperation[],
+  programs: Program[],
+  timeZone: string
+): UserProgram[] => {
+  const earliestDay = addDays(toLocalDay(new Date(), timeZone), -1);
+
+  return userPrograms.map(up => {
+    const program = programs.find(p => p.id === up.programId);
+    if (!program) return up;
+
+    return queue.reduce((current, operation) => {
+      if (operation.type !== 'complete_day' || operation.userProgramId !== current.id) {
+        return current;
+      }
+
+      const queuedOn = toLocalDay(new Date(operation.createdAt), timeZone);
+      const completedOn = queuedOn < earliestDay ? earliestDay : queuedOn;
+      const settled = settleMissedDays(program, current, completedOn);
+
+      return operation.day === settled.currentDay && !settled.completed
+        ? advanceSchedule(program, settled, completedOn)
+        : settled;
+    }, up);
+  });
+};
+
 export function ProgramProvider({ children }: { children: ReactNode }) {
+  const { user, applyDayCompletion } = useAuth();
   const [programs, setPrograms] = useState<Program[]>([]);
-  const [currentProgram, setCurrentProgram] = useState<Program | null>(null);
   const [dailyRituals, setDailyRituals] = useState<DailyRitual[]>([]);
   const [userPrograms, setUserPrograms] = useState<UserProgram[]>([]);
+  const [currentUserProgramId, setCurrentUserProgramId] = useState<string | null>(null);
+  const [exerciseLogs, setExerciseLogs] = useState<ExerciseLog[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingOperations, setPendingOperations] = useState<QueuedOperation[]>([]);
+  const [failedOperations, setFailedOperations] = useState<FailedOperation[]>([]);
+  // Logs of the current ritual session, most recent last
+  const [undoStack, setUndoStack] = useState<ExerciseLog[]>([]);
+  // Target multipliers of the member, by program id
+  const [targetMultipliers, setTargetMultipliers] = useState<Record<string, TargetMultipliers>>({});
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  // Null until loaded, so entitled members never see their program locked
+  const [entitledProgramIds, setEntitledProgramIds] = useState<string[] | null>(null);
+  const [pendingCheckIn, setPendingCheckIn] = useState<ProgramContextProps['pendingCheckIn']>(null);
+  const retryTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     const loadData = async () => {
       try {
-        // In a real app, fetch from an API
-        setPrograms(mockPrograms);
-        setDailyRituals(mockDailyRituals);
-        
-        // Set a default current program for demo
-        const defaultProgram = mockPrograms.find(p => p.id === 'crocodile-tide');
-        setCurrentProgram(defaultProgram || null);
-        
-        // Set a mock user program for demonstration
-        setUserPrograms([
-          {
-            programId: 'crocodile-tide',
-            startDate: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 days ago
-            currentDay: 3,
-            completed: false,
-          }
+        const [loadedPrograms, loadedRituals] = await Promise.all([
+          fetchPrograms(),
+          fetchDailyRituals(),
         ]);
+
+        setPrograms(loadedPrograms);
+        setDailyRituals(loadedRituals);
       } catch (error) {
         console.error('Failed to load programs:', error);
+        setError('Une erreur est survenue lors du chargement des programmes');
       } finally {
         setIsLoading(false);
       }
@@ -65,27 +245,111 @@ export function ProgramProvider({ children }: { children: ReactNode }) {
     loadData();
   }, []);
 
+  // Premium rituals are only readable once the member is entitled, so they are
+  // loaded again with the session and each new entitlement
+  const loadEntitlements = async () => {
+    const [programIds, rituals] = await Promise.all([
+      fetchEntitledProgramIds(),
+      fetchDailyRituals(),
+    ]);
+
+    setEntitledProgramIds(programIds);
+    setDailyRituals(rituals);
+  };
+
+  useEffect(() => {
+    if (!user) {
+      setEntitledProgramIds(null);
+      return;
+    }
+
+    loadEntitlements().catch(error => {
+      console.error('Failed to load entitlements:', error);
+    });
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user) {
+      setUserPrograms([]);
+      setCurrentUserProgramId(null);
+      return;
+    }
+
+    const loadUserPrograms = async () => {
+      try {
+        const [fetchedEnrollments, queue] = await Promise.all([
+          fetchUserPrograms(user.id),
+          loadQueue(user.id),
+        ]);
+        const enrollments = applyPendingDays(fetchedEnrollments, queue, programs, user.timezone);
+        setUserPrograms(enrollments);
+        setPendingOperations(queue);
+
+        // Follow the active enrollment, or show the last one that was finished
+        const current =
+          enrollments.find(up => up.status === 'active') ||
+          enrollments.find(up => up.status === 'completed');
+        setCurrentUserProgramId(current?.id || null);
+      } catch (error) {
+        console.error('Failed to load user programs:', error);
+      }
+    };
+
+    loadUserPrograms();
+  }, [user?.id, user?.timezone, programs]);
+
+  // Most recently touched enrollments stay first
+  const replaceUserProgram = (userProgram: UserProgram) => {
+    setUserPrograms(prev => [userProgram, ...prev.filter(up => up.id !== userProgram.id)]);
+  };
+
+  // Only one enrollment is active at a time; starting another pauses it
+  const pauseActiveEnrollment = async (exceptId?: string) => {
+    const active = userPrograms.find(up => up.status === 'active' && up.id !== exceptId);
+    if (!active) return;
+
+    replaceUserProgram(await setEnrollmentStatus(active.id, 'paused'));
+  };
+
+  const hasProgramAccess = (programId: string) => {
+    const program = programs.find(p => p.id === programId);
+    return (
+      program?.category !== 'premium' ||
+      entitledProgramIds === null ||
+      entitledProgramIds.includes(programId)
+    );
+  };
+
+  const startEnrollment = async (programId: string) => {
+    if (!user) throw new Error('Not authenticated');
+
+    const program = programs.find(p => p.id === programId);
+    if (!program) throw new Error('Program not found');
+    if (!hasProgramAccess(programId)) throw new Error('Program requires an entitlement');
+
+    await pauseActiveEnrollment();
+    const userProgram = await createUserProgram(programId);
+
+    replaceUserProgram(userProgram);
+    setCurrentUserProgramId(userProgram.id);
+  };
+
   const selectProgram = async (programId: string) => {
     try {
       setIsLoading(true);
-      const program = programs.find(p => p.id === programId);
-      if (!program) throw new Error('Program not found');
       
-      setCurrentProgram(program);
-      
-      // Check if user already has this program
-      const existingProgram = userPrograms.find(p => p.programId === programId);
+      const live = userPrograms.find(
+        up => up.programId === programId && (up.status === 'active' || up.status === 'paused')
+      );
       
-      if (!existingProgram) {
-        // Add new program
-        const newUserProgram: UserProgram = {
-          programId,
-          startDate: new Date(),
-          currentDay: 1,
-          completed: false,
-        };
-        
-        setUserPrograms([...userPrograms, newUserProgram]);
+      if (live?.status === 'active') {
+        // Touch it so it is resumed on next launch
+        replaceUserProgram(await setEnrollmentStatus(live.id, 'active'));
+        setCurrentUserProgramId(live.id);
+      } else if (live) {
+        await resumeEnrollment(live);
+      } else {
+        await startEnrollment(programId);
       }
     } catch (error) {
       console.error('Failed to select program:', error);
@@ -94,84 +358,473 @@ export function ProgramProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const getCurrentDayRitual = (): DailyRitual | null => {
-    if (!currentProgram) return null;
-    
-    const userProgram = userPrograms.find(up => up.programId === currentProgram.id);
-    if (!userProgram) return null;
+  const resumeEnrollment = async (userProgram: UserProgram) => {
+    await pauseActiveEnrollment(userProgram.id);
+
+    // Days spent paused are not missed: the server makes the current day
+    // available again
+    const resumed = await setEnrollmentStatus(userProgram.id, 'active');
+
+    replaceUserProgram(resumed);
+    setCurrentUserProgramId(resumed.id);
+  };
+
+  const resumeProgram = async (userProgramId: string) => {
+    const userProgram = userPrograms.find(up => up.id === userProgramId);
+    if (!userProgram || userProgram.status !== 'paused') return;
+
+    try {
+      setIsLoading(true);
+      await resumeEnrollment(userProgram);
+    } catch (error) {
+      console.error('Failed to resume program:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const pauseProgram = async (userProgramId: string) => {
+    try {
+      setIsLoading(true);
+      replaceUserProgram(await setEnrollmentStatus(userProgramId, 'paused'));
+      if (currentUserProgramId === userProgramId) setCurrentUserProgramId(null);
+    } catch (error) {
+      console.error('Failed to pause program:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const abandonProgram = async (userProgramId: string) => {
+    try {
+      setIsLoading(true);
+      replaceUserProgram(await setEnrollmentStatus(userProgramId, 'abandoned'));
+      if (currentUserProgramId === userProgramId) setCurrentUserProgramId(null);
+    } catch (error) {
+      console.error('Failed to abandon program:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Starts again from day 1 in a new enrollment; the previous ones stay as history
+  const restartProgram = async (programId: string) => {
+    try {
+      setIsLoading(true);
+      
+      const live = userPrograms.find(
+        up => up.programId === programId && (up.status === 'active' || up.status === 'paused')
+      );
+      if (live) {
+        replaceUserProgram(await setEnrollmentStatus(live.id, 'abandoned'));
+      }
+      
+      await startEnrollment(programId);
+    } catch (error) {
+      console.error('Failed to restart program:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const purchaseProgram = async (programId: string) => {
+    const program = programs.find(p => p.id === programId);
+    if (!program?.productId) throw new Error('Program cannot be bought');
+
+    await purchaseProduct(program.productId);
+    await loadEntitlements();
+  };
+
+  // Returns the number of programs unlocked again
+  const restorePurchases = async () => {
+    const programIds = await restoreStorePurchases();
+    await loadEntitlements();
+    return new Set(programIds).size;
+  };
+
+  // Missed days are settled on read so the state follows the calendar
+  const today = user ? toLocalDay(new Date(), user.timezone) : null;
+  const scheduledUserPrograms = userPrograms.map(up => {
+    const program = programs.find(p => p.id === up.programId);
+    return program && today ? settleMissedDays(program, up, today) : up;
+  });
+
+  const currentUserProgram =
+    scheduledUserPrograms.find(up => up.id === currentUserProgramId) || null;
+  const currentProgram = currentUserProgram
+    ? programs.find(p => p.id === currentUserProgram.programId) || null
+    : null;
+
+  useEffect(() => {
+    if (!user || !currentUserProgram) {
+      setExerciseLogs([]);
+      setCheckIns([]);
+      return;
+    }
+
+    const loadExerciseLogs = async () => {
+      try {
+        const [fetchedLogs, fetchedCheckIns, queue] = await Promise.all([
+          fetchExerciseLogs(currentUserProgram.id),
+          fetchCheckIns(currentUserProgram.id),
+          loadQueue(user.id),
+        ]);
+        setExerciseLogs(applyPendingLogs(fetchedLogs, queue, currentUserProgram.id));
+        setCheckIns(applyPendingCheckIns(fetchedCheckIns, queue, currentUserProgram.id));
+      } catch (error) {
+        console.error('Failed to load exercise logs:', error);
+      }
+    };
+
+    loadExerciseLogs();
+  }, [user?.id, currentUserProgram?.id]);
+
+  useEffect(() => {
+    if (!currentProgram || !user) return;
+
+    const loadTargetMultipliers = async () => {
+      try {
+        const multipliers = await fetchTargetMultipliers(currentProgram.id);
+        setTargetMultipliers(prev => ({ ...prev, [currentProgram.id]: multipliers }));
+      } catch (error) {
+        console.error('Failed to load target adjustments:', error);
+      }
+    };
+
+    loadTargetMultipliers();
+  }, [currentProgram?.id, user?.id]);
+
+  const getCheckInForDay = (day: number): CheckIn | null =>
+    checkIns.find(c => c.userProgramId === currentUserProgram?.id && c.day === day) || null;
+
+  // Builds the ritual of a given day with targets scaled to the member, and
+  // to the lighter variant when it was chosen that day, and progress computed
+  // from the logs
+  const getRitualForDay = (day: number): DailyRitual | null => {
+    if (!currentProgram || !currentUserProgram) return null;
     
     const ritual = dailyRituals.find(
-      dr => dr.programId === currentProgram.id && dr.day === userProgram.currentDay
+      dr => dr.programId === currentProgram.id && dr.day === day
     );
+    if (!ritual) return null;
     
-    return ritual || null;
-  };
-
-  const updateExerciseProgress = (exerciseId: string, reps: number) => {
-    const ritual = getCurrentDayRitual();
-    if (!ritual) return;
+    const variantScale = getCheckInForDay(day)?.lightVariant
+      ? currentProgram.lightVariantScale ?? 1
+      : 1;
     
-    const updatedRituals = dailyRituals.map(dr => {
-      if (dr.id === ritual.id) {
+    return {
+      ...ritual,
+      exercises: ritual.exercises.map(ex => {
+        const setTarget = scaleTarget(
+          ex.setTarget,
+          (targetMultipliers[currentProgram.id]?.[ex.id] ?? 1) * variantScale
+        );
+        const target = ex.sets * setTarget;
+
         return {
-          ...dr,
-          exercises: dr.exercises.map(ex => 
-            ex.id === exerciseId 
-              ? { ...ex, completedReps: Math.min(ex.completedReps + reps, ex.targetReps) }
-              : ex
-          ),
+          ...ex,
+          setTarget,
+          target,
+          completed: Math.max(0, Math.min(sumExerciseLogs(exerciseLogs, day, ex.id), target)),
         };
+      }),
+      isCompleted: day < currentUserProgram.currentDay,
+    };
+  };
+
+  const getCurrentDayRitual = (): DailyRitual | null => {
+    if (!currentUserProgram) return null;
+    return getRitualForDay(currentUserProgram.currentDay);
+  };
+
+  const getCurrentSchedule = (): ScheduleStatus | null => {
+    if (!currentProgram || !currentUserProgram || !today) return null;
+    return getScheduleStatus(currentProgram, currentUserProgram, today);
+  };
+
+  const replayOperation = async (operation: QueuedOperation) => {
+    switch (operation.type) {
+      case 'log_exercise':
+        await insertExerciseLog({
+          id: operation.id,
+          userProgramId: operation.userProgramId,
+          day: operation.day,
+          exerciseId: operation.exerciseId,
+          kind: operation.kind ?? 'entry',
+          undoneLogId: operation.undoneLogId ?? null,
+          reps: operation.reps,
+          seconds: operation.seconds,
+          meters: operation.meters ?? null,
+          loggedAt: new Date(operation.createdAt),
+        });
+        break;
+      case 'complete_day': {
+        // The server decides whether the day counts; mirror what it returns
+        const result = await completeRitualDay(
+          operation.id,
+          operation.userProgramId,
+          operation.day,
+          operation.createdAt
+        );
+        // Later completions still in the queue keep the local state ahead
+        setUserPrograms(prev => prev.map(up =>
+          up.id === operation.userProgramId && result.currentDay >= up.currentDay
+            ? {
+                ...up,
+                status: result.completed ? 'completed' : up.status,
+                currentDay: result.currentDay,
+                completed: result.completed,
+                unlocksOn: result.unlocksOn,
+              }
+            : up
+        ));
+        applyDayCompletion({
+          totalDaysCompleted: result.totalDaysCompleted,
+          streak: result.streak,
+        });
+        break;
+      }
+      case 'rate_day': {
+        const { programId, multipliers } = await rateRitualDay(
+          operation.completionId,
+          operation.effort
+        );
+        if (programId) {
+          setTargetMultipliers(prev => ({ ...prev, [programId]: multipliers }));
+        }
+        break;
       }
-      return dr;
+      case 'check_in':
+        await saveCheckIn(operation.userProgramId, operation.day, operation.date, operation.answers);
+        break;
+    }
+  };
+
+  const syncProgress = async () => {
+    if (!user) return;
+    
+    if (retryTimeout.current) {
+      clearTimeout(retryTimeout.current);
+      retryTimeout.current = null;
+    }
+    
+    const remaining = await flushQueue(user.id, replayOperation);
+    setPendingOperations(remaining);
+    setFailedOperations(await loadFailedOperations(user.id));
+    
+    if (remaining.length > 0) {
+      retryTimeout.current = setTimeout(syncProgress, getRetryDelay(remaining[0].attempts));
+    }
+  };
+  
+  const dismissFailedSync = async () => {
+    if (!user) return;
+    
+    await clearFailedOperations(user.id);
+    setFailedOperations([]);
+  };
+  
+  // Replay queued progress at launch and whenever connectivity comes back
+  useEffect(() => {
+    if (!user) return;
+    
+    setFailedOperations([]);
+    syncProgress();
+    
+    const unsubscribe = NetInfo.addEventListener(state => {
+      if (state.isConnected) syncProgress();
     });
     
-    setDailyRituals(updatedRituals);
+    return () => {
+      unsubscribe();
+      if (retryTimeout.current) clearTimeout(retryTimeout.current);
+    };
+  }, [user?.id]);
+
+  // A new session starts with each ritual day
+  useEffect(() => {
+    setUndoStack([]);
+  }, [currentUserProgram?.id, currentUserProgram?.currentDay]);
+
+  const logExercise = async (
+    exercise: Exercise,
+    amount: number,
+    kind: ExerciseLogKind,
+    undoneLogId: string | null = null
+  ): Promise<ExerciseLog | null> => {
+    if (!user || !currentUserProgram) return null;
+
+    try {
+      const operation = await enqueue(user.id, {
+        type: 'log_exercise',
+        userProgramId: currentUserProgram.id,
+        day: currentUserProgram.currentDay,
+        exerciseId: exercise.id,
+        kind,
+        undoneLogId,
+        ...toLogQuantity(exercise.measurement, amount),
+      });
+      const [log] = applyPendingLogs([], [operation], currentUserProgram.id);
+
+      setPendingOperations(prev => [...prev, operation]);
+      setExerciseLogs(prev => [...prev, log]);
+      syncProgress();
+      return log;
+    } catch (error) {
+      console.error('Failed to log exercise progress:', error);
+      return null;
+    }
   };
 
-  const completeDay = () => {
-    if (!currentProgram) return;
+  const findExercise = (exerciseId: string): Exercise | null =>
+    getCurrentDayRitual()?.exercises.find(ex => ex.id === exerciseId) || null;
+
+  const updateExerciseProgress = async (exerciseId: string, amount: number) => {
+    const exercise = findExercise(exerciseId);
+    if (!exercise) return;
     
-    const updatedUserPrograms = userPrograms.map(up => {
-      if (up.programId === currentProgram.id) {
-        const nextDay = up.currentDay + 1;
-        const isCompleted = nextDay > currentProgram.duration;
-        
-        return {
-          ...up,
-          currentDay: nextDay,
-          completed: isCompleted,
-        };
-      }
-      return up;
-    });
+    // Never log past the target of the day
+    const logged = Math.min(amount, exercise.target - exercise.completed);
+    if (logged <= 0) return;
     
-    setUserPrograms(updatedUserPrograms);
+    const log = await logExercise(exercise, logged, 'entry');
+    if (log) setUndoStack(prev => [...prev, log]);
+  };
+
+  // Sets the amount of the day to an exact value with a correction log
+  const setExerciseProgress = async (exerciseId: string, value: number) => {
+    const exercise = findExercise(exerciseId);
+    if (!exercise) return;
+
+    const delta = Math.max(0, Math.min(value, exercise.target)) - exercise.completed;
+    if (delta === 0) return;
+
+    const log = await logExercise(exercise, delta, 'correction');
+    if (log) setUndoStack(prev => [...prev, log]);
+  };
+
+  // Cancels the most recent log of the session with its opposite amount
+  const undoLastLog = async () => {
+    const log = undoStack[undoStack.length - 1];
+    if (!log) return;
+
+    const exercise = findExercise(log.exerciseId);
+    if (!exercise) return;
+
+    setUndoStack(prev => prev.slice(0, -1));
+    const undo = await logExercise(exercise, -getLogAmount(log), 'undo', log.id);
+    if (!undo) setUndoStack(prev => [...prev, log]);
+  };
+
+  const completeDay = async () => {
+    if (!user || !currentProgram || !currentUserProgram) return;
     
-    // Mark the current ritual as completed
-    const ritual = getCurrentDayRitual();
-    if (ritual) {
-      setDailyRituals(
-        dailyRituals.map(dr => 
-          dr.id === ritual.id 
-            ? { ...dr, isCompleted: true }
-            : dr
-        )
-      );
+    // A day unlocks at most once per calendar day
+    if (getCurrentSchedule()?.state !== 'available') return;
+    
+    try {
+      const operation = await enqueue(user.id, {
+        type: 'complete_day',
+        userProgramId: currentUserProgram.id,
+        day: currentUserProgram.currentDay,
+      });
+      
+      setPendingOperations(prev => [...prev, operation]);
+      setUserPrograms(prev => applyPendingDays(prev, [operation], programs, user.timezone));
+      setPendingCheckIn({ completionId: operation.id, day: currentUserProgram.currentDay });
+      syncProgress();
+    } catch (error) {
+      console.error('Failed to complete day:', error);
+    }
+  };
+
+  const recordCheckIn = async (day: number, answers: CheckInAnswers) => {
+    if (!user || !currentUserProgram) return;
+
+    const operation = await enqueue(user.id, {
+      type: 'check_in',
+      userProgramId: currentUserProgram.id,
+      day,
+      date: toLocalDay(new Date(), user.timezone),
+      answers,
+    });
+
+    setPendingOperations(prev => [...prev, operation]);
+    setCheckIns(prev => applyPendingCheckIns(prev, [operation], currentUserProgram.id));
+  };
+
+  const saveReadiness = async (answers: CheckInAnswers) => {
+    if (!currentUserProgram) return;
+
+    try {
+      await recordCheckIn(currentUserProgram.currentDay, answers);
+      syncProgress();
+    } catch (error) {
+      console.error('Failed to save readiness:', error);
+    }
+  };
+
+  // The perceived exertion also rates the day, queued after the completion so
+  // the server rates a day it already counted
+  const submitCheckIn = async (answers: CheckInAnswers) => {
+    if (!user || !pendingCheckIn) return;
+
+    try {
+      await recordCheckIn(pendingCheckIn.day, answers);
+
+      if (answers.rpe != null) {
+        const operation = await enqueue(user.id, {
+          type: 'rate_day',
+          completionId: pendingCheckIn.completionId,
+          effort: toEffortRating(answers.rpe),
+        });
+        setPendingOperations(prev => [...prev, operation]);
+      }
+
+      setPendingCheckIn(null);
+      syncProgress();
+    } catch (error) {
+      console.error('Failed to save check-in:', error);
     }
   };
 
+  const dismissCheckIn = () => setPendingCheckIn(null);
+
   return (
     <ProgramContext.Provider
       value={{
         programs,
         dailyRituals,
         currentProgram,
-        userPrograms,
+        currentUserProgram,
+        userPrograms: scheduledUserPrograms,
         isLoading,
+        error,
         selectProgram,
+        pauseProgram,
+        resumeProgram,
+        abandonProgram,
+        restartProgram,
+        hasProgramAccess,
+        purchaseProgram,
+        restorePurchases,
+        exerciseLogs,
+        getRitualForDay,
         getCurrentDayRitual,
         updateExerciseProgress,
+        setExerciseProgress,
+        undoableLog: undoStack[undoStack.length - 1] || null,
+        undoLastLog,
         completeDay,
+        getCheckInForDay,
+        saveReadiness,
+        pendingCheckIn,
+        submitCheckIn,
+        dismissCheckIn,
+        getCurrentSchedule,
+        pendingSyncCount: pendingOperations.length,
+        failedSyncCount: failedOperations.length,
+        dismissFailedSync,
       }}
     >
       {children}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useProgram } from '@/context/ProgramContext';
+import { fetchAchievements } from '@/lib/achievementRepository';
+import { Achievement } from '@/types';
+
+// Badges are awarded server-side, so they are reloaded once progress reaches it
+export function useAchievements() {
+  const { user } = useAuth();
+  const { pendingSyncCount } = useProgram();
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadAchievements = async () => {
+      try {
+        setAchievements(await fetchAchievements(user.id, user.clan?.id ?? null));
+        setError(null);
+      } catch (error) {
+        console.error('Failed to load achievements:', error);
+        setError('Une erreur est survenue lors du chargement des accomplissements');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadAchievements();
+  }, [user?.id, user?.clan?.id, user?.totalDaysCompleted, pendingSyncCount]);
+
+  return {
+    achievements,
+    unlockedCount: achievements.filter(a => a.unlockedAt).length,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useProgram } from '@/context/ProgramContext';
+import { fetchRecentCheckIns } from '@/lib/checkInRepository';
+import { CheckInTrends, getCheckInTrends } from '@/lib/checkIns';
+import { addDays, toLocalDay } from '@/lib/dates';
+
+// Check-ins of every program over the last two weeks, reloaded once the
+// queued answers reached the server
+export function useCheckInTrends() {
+  const { user } = useAuth();
+  const { pendingSyncCount } = useProgram();
+  const [trends, setTrends] = useState<CheckInTrends | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || pendingSyncCount > 0) return;
+
+    const loadTrends = async () => {
+      try {
+        const today = toLocalDay(new Date(), user.timezone);
+        const checkIns = await fetchRecentCheckIns(addDays(today, -13));
+        setTrends(getCheckInTrends(checkIns, today));
+        setError(null);
+      } catch (error) {
+        console.error('Failed to load check-in trends:', error);
+        setError('Une erreur est survenue lors du chargement du ressenti');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTrends();
+  }, [user?.id, user?.timezone, pendingSyncCount]);
+
+  return { trends, isLoading, error };
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { useAuth } from '@/context/AuthContext';
+import { useProgram } from '@/context/ProgramContext';
+import { fetchActiveChallenge } from '@/lib/challengeRepository';
+import { Challenge } from '@/types';
+
+// Other members keep logging, so progress is refreshed while the screen is shown
+const REFRESH_INTERVAL = 30_000;
+
+export function useClanChallenge() {
+  const { user } = useAuth();
+  const { pendingSyncCount } = useProgram();
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const clanId = user?.clan?.id;
+
+  const loadChallenge = useCallback(async () => {
+    if (!clanId) {
+      setChallenge(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setChallenge(await fetchActiveChallenge());
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load clan challenge:', error);
+      setError('Une erreur est survenue lors du chargement du défi');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [clanId]);
+
+  // Own reps count once they reached the server
+  useEffect(() => {
+    if (pendingSyncCount === 0) loadChallenge();
+  }, [loadChallenge, pendingSyncCount]);
+
+  useFocusEffect(
+    useCallback(() => {
+      const interval = setInterval(loadChallenge, REFRESH_INTERVAL);
+      return () => clearInterval(interval);
+    }, [loadChallenge])
+  );
+
+  return { challenge, isLoading, error, reload: loadChallenge };
+}
@@ -0,0 +1,39 @@
+import { formatProgramError, validateProgramDocument } from '@/lib/programFormat';
+
+const makeDocument = () => ({
+  version: 1,
+  program: {
+    slug: 'test-program',
+    title: 'Programme test',
+    duration: 2,
+    category: 'discovery',
+    restDays: [2],
+  },
+  days: [
+    { day: 1, exercises: [{ exercise: 'squats', target: 10, sets: 3 }] },
+  ],
+});
+
+describe('validateProgramDocument', () => {
+  it('accepts a valid document', () => {
+    const { document, errors } = validateProgramDocument(makeDocument());
+
+    expect(errors).toEqual([]);
+    expect(document?.program.slug).toBe('test-program');
+  });
+
+  it('refuses another format version', () => {
+    const { errors } = validateProgramDocument({ ...makeDocument(), version: 2 });
+
+    expect(errors.map(formatProgramError)).toEqual(['version: must be 1, got 2']);
+  });
+
+  it('points errors to the faulty field', () => {
+    const document = makeDocument();
+    document.days[0].exercises[0].sets = 0;
+
+    const { errors } = validateProgramDocument(document);
+
+    expect(errors.map(error => error.path)).toEqual(['days[0].exercises[0].sets']);
+  });
+});
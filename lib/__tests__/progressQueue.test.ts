@@ -0,0 +1,117 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  clearFailedOperations,
+  enqueue,
+  flushQueue,
+  isPermanentFailure,
+  loadFailedOperations,
+  loadQueue,
+  QueuedOperation,
+} from '@/lib/progressQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-crypto', () => {
+  let count = 0;
+  return { randomUUID: () => `operation-${++count}` };
+});
+
+const completeDay = (day: number) => ({
+  type: 'complete_day' as const,
+  userProgramId: 'enrollment',
+  day,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('isPermanentFailure', () => {
+  it.each(['22023', '23514', '42501', 'P0002', 'PGRST116', 'PGRST202'])(
+    'gives up on %s',
+    code => {
+      expect(isPermanentFailure({ code })).toBe(true);
+    }
+  );
+
+  it.each([{ code: '08006' }, { code: 'PGRST301' }, { message: 'Network request failed' }, null])(
+    'retries %p',
+    error => {
+      expect(isPermanentFailure(error)).toBe(false);
+    }
+  );
+});
+
+describe('queue', () => {
+  it('keeps one queue per account', async () => {
+    await enqueue('alice', completeDay(1));
+
+    expect(await loadQueue('alice')).toHaveLength(1);
+    expect(await loadQueue('bob')).toEqual([]);
+  });
+
+  it('hands the queue of earlier versions to the first account', async () => {
+    const legacy = [{ ...completeDay(1), id: 'legacy', createdAt: '', attempts: 0 }];
+    await AsyncStorage.setItem('mohero:progress-queue', JSON.stringify(legacy));
+
+    expect(await loadQueue('alice')).toEqual(legacy);
+    expect(await loadQueue('bob')).toEqual([]);
+  });
+});
+
+describe('flushQueue', () => {
+  it('replays operations in order and empties the queue', async () => {
+    await enqueue('alice', completeDay(1));
+    await enqueue('alice', completeDay(2));
+    const replayed: number[] = [];
+
+    const remaining = await flushQueue('alice', async operation => {
+      replayed.push((operation as Extract<QueuedOperation, { type: 'complete_day' }>).day);
+    });
+
+    expect(replayed).toEqual([1, 2]);
+    expect(remaining).toEqual([]);
+    expect(await loadQueue('alice')).toEqual([]);
+  });
+
+  it('stops at a retryable failure and counts the attempt', async () => {
+    await enqueue('alice', completeDay(1));
+    await enqueue('alice', completeDay(2));
+    const replay = jest.fn().mockRejectedValue(new Error('Network request failed'));
+
+    const remaining = await flushQueue('alice', replay);
+
+    expect(replay).toHaveBeenCalledTimes(1);
+    expect(remaining.map(op => op.attempts)).toEqual([1, 0]);
+  });
+
+  it('sets aside operations the server rejects and goes on', async () => {
+    const rejected = await enqueue('alice', completeDay(1));
+    await enqueue('alice', completeDay(2));
+    const replay = jest.fn()
+      .mockRejectedValueOnce({ code: '22023', message: 'Day 1 is not unlocked yet' })
+      .mockResolvedValueOnce(undefined);
+
+    const remaining = await flushQueue('alice', replay);
+
+    expect(replay).toHaveBeenCalledTimes(2);
+    expect(remaining).toEqual([]);
+    expect(await loadFailedOperations('alice')).toEqual([
+      { operation: rejected, error: 'Day 1 is not unlocked yet', failedAt: expect.any(String) },
+    ]);
+  });
+
+  it('keeps rejected operations until they are cleared', async () => {
+    await enqueue('alice', completeDay(1));
+    await flushQueue('alice', jest.fn().mockRejectedValue({ code: '42501' }));
+
+    expect(await loadFailedOperations('alice')).toHaveLength(1);
+    expect(await loadFailedOperations('bob')).toEqual([]);
+
+    await clearFailedOperations('alice');
+
+    expect(await loadFailedOperations('alice')).toEqual([]);
+  });
+});
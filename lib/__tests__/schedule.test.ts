@@ -0,0 +1,155 @@
+import { advanceSchedule, getScheduleStatus, settleMissedDays } from '@/lib/schedule';
+import { MissedDayPolicy, Program, UserProgram } from '@/types';
+
+const makeProgram = (missedDayPolicy: MissedDayPolicy, restDays: number[] = []): Program => ({
+  id: 'program',
+  slug: 'program',
+  title: 'Program',
+  description: '',
+  duration: 10,
+  category: 'discovery',
+  difficulty: null,
+  clanId: null,
+  focus: [],
+  imageUrl: '',
+  details: {
+    benefits: [],
+    phases: [
+      { title: 'Phase 1', description: '', startDay: 1, endDay: 4 },
+      { title: 'Phase 2', description: '', startDay: 5, endDay: 10 },
+    ],
+  },
+  schedule: { restDays, missedDayPolicy },
+  productId: null,
+  lightVariantScale: null,
+});
+
+const makeEnrollment = (overrides: Partial<UserProgram> = {}): UserProgram => ({
+  id: 'enrollment',
+  programId: 'program',
+  status: 'active',
+  startDate: new Date('2025-05-01'),
+  currentDay: 6,
+  completed: false,
+  unlocksOn: '2025-05-10',
+  pausedAt: null,
+  abandonedAt: null,
+  completedAt: null,
+  updatedAt: new Date('2025-05-09'),
+  ...overrides,
+});
+
+describe('settleMissedDays', () => {
+  it('keeps the enrollment while its day is still available', () => {
+    const enrollment = makeEnrollment();
+
+    expect(settleMissedDays(makeProgram('skip'), enrollment, '2025-05-10')).toBe(enrollment);
+  });
+
+  it('never moves paused enrollments', () => {
+    const enrollment = makeEnrollment({ status: 'paused' });
+
+    expect(settleMissedDays(makeProgram('skip'), enrollment, '2025-05-20')).toBe(enrollment);
+  });
+
+  it('holds the day with the hold policy', () => {
+    const enrollment = makeEnrollment();
+
+    expect(settleMissedDays(makeProgram('hold'), enrollment, '2025-05-13')).toBe(enrollment);
+  });
+
+  it('skips the missed days with the skip policy', () => {
+    const settled = settleMissedDays(makeProgram('skip'), makeEnrollment(), '2025-05-12');
+
+    expect(settled.currentDay).toBe(8);
+    expect(settled.unlocksOn).toBe('2025-05-12');
+  });
+
+  it('pushes a skipped day landing on a rest day to the next ritual', () => {
+    const settled = settleMissedDays(makeProgram('skip', [8]), makeEnrollment(), '2025-05-12');
+
+    expect(settled.currentDay).toBe(9);
+    expect(settled.unlocksOn).toBe('2025-05-13');
+  });
+
+  it('goes back to the start of the phase with the restart policy', () => {
+    const settled = settleMissedDays(makeProgram('restart_phase'), makeEnrollment(), '2025-05-12');
+
+    expect(settled.currentDay).toBe(5);
+    expect(settled.unlocksOn).toBe('2025-05-12');
+  });
+
+  it('completes the program when the missed days run past its end', () => {
+    const settled = settleMissedDays(makeProgram('skip'), makeEnrollment(), '2025-05-20');
+
+    expect(settled.currentDay).toBe(11);
+    expect(settled.completed).toBe(true);
+    expect(settled.status).toBe('completed');
+  });
+});
+
+describe('advanceSchedule', () => {
+  it('unlocks the next day on the following calendar day', () => {
+    const advanced = advanceSchedule(makeProgram('hold'), makeEnrollment(), '2025-05-10');
+
+    expect(advanced.currentDay).toBe(7);
+    expect(advanced.unlocksOn).toBe('2025-05-11');
+  });
+
+  it('gives each rest day a calendar day', () => {
+    const advanced = advanceSchedule(makeProgram('hold', [7, 8]), makeEnrollment(), '2025-05-10');
+
+    expect(advanced.currentDay).toBe(9);
+    expect(advanced.unlocksOn).toBe('2025-05-13');
+  });
+
+  it('completes the program after its last day', () => {
+    const advanced = advanceSchedule(
+      makeProgram('hold'),
+      makeEnrollment({ currentDay: 10 }),
+      '2025-05-10'
+    );
+
+    expect(advanced.currentDay).toBe(11);
+    expect(advanced.completed).toBe(true);
+    expect(advanced.status).toBe('completed');
+  });
+});
+
+describe('getScheduleStatus', () => {
+  it('is available once the unlock day is reached', () => {
+    expect(getScheduleStatus(makeProgram('hold'), makeEnrollment(), '2025-05-10')).toEqual({
+      state: 'available',
+      unlocksInDays: 0,
+      isRestDay: false,
+    });
+  });
+
+  it('counts the days left before the next ritual', () => {
+    expect(getScheduleStatus(makeProgram('hold'), makeEnrollment(), '2025-05-08')).toEqual({
+      state: 'locked',
+      unlocksInDays: 2,
+      isRestDay: false,
+    });
+  });
+
+  it('tells when today is a rest day', () => {
+    const status = getScheduleStatus(
+      makeProgram('hold', [5]),
+      makeEnrollment({ unlocksOn: '2025-05-11' }),
+      '2025-05-10'
+    );
+
+    expect(status).toEqual({ state: 'locked', unlocksInDays: 1, isRestDay: true });
+  });
+
+  it('is finished past the last day', () => {
+    const status = getScheduleStatus(
+      makeProgram('hold'),
+      makeEnrollment({ currentDay: 11, completed: true }),
+      '2025-05-10'
+    );
+
+    expect(status.state).toBe('finished');
+  });
+});
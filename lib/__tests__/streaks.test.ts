@@ -0,0 +1,61 @@
+import { EMPTY_STREAK, getStreakStatus, mapStreakRow } from '@/lib/streaks';
+
+// May 10 in Paris, still May 9 in Los Angeles
+const NOW = new Date('2025-05-10T05:00:00Z');
+
+describe('getStreakStatus', () => {
+  it('has no streak before the first completion', () => {
+    expect(getStreakStatus({ ...EMPTY_STREAK, longest: 4 }, 'Europe/Paris', NOW)).toEqual({
+      current: 0,
+      longest: 4,
+      missedDays: 0,
+      completedToday: false,
+    });
+  });
+
+  it('keeps the streak when the last day was completed today', () => {
+    const status = getStreakStatus(
+      { current: 3, longest: 5, lastCompletedOn: '2025-05-10' },
+      'Europe/Paris',
+      NOW
+    );
+
+    expect(status).toEqual({ current: 3, longest: 5, missedDays: 0, completedToday: true });
+  });
+
+  it('keeps the streak until the end of the day after the last completion', () => {
+    const status = getStreakStatus(
+      { current: 3, longest: 5, lastCompletedOn: '2025-05-09' },
+      'Europe/Paris',
+      NOW
+    );
+
+    expect(status).toEqual({ current: 3, longest: 5, missedDays: 0, completedToday: false });
+  });
+
+  it('breaks the streak once a day was missed', () => {
+    const status = getStreakStatus(
+      { current: 3, longest: 5, lastCompletedOn: '2025-05-07' },
+      'Europe/Paris',
+      NOW
+    );
+
+    expect(status).toEqual({ current: 0, longest: 5, missedDays: 2, completedToday: false });
+  });
+
+  it('counts days in the time zone of the member', () => {
+    const status = getStreakStatus(
+      { current: 3, longest: 5, lastCompletedOn: '2025-05-09' },
+      'America/Los_Angeles',
+      NOW
+    );
+
+    expect(status.completedToday).toBe(true);
+  });
+});
+
+describe('mapStreakRow', () => {
+  it('maps a missing row to an empty streak', () => {
+    expect(mapStreakRow(null)).toBe(EMPTY_STREAK);
+  });
+});
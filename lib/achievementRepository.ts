@@ -0,0 +1,41 @@
+import { supabase } from '@/lib/supabase';
+import { Achievement } from '@/types';
+import { Tables } from '@/types/database';
+
+export type BadgeRow = Tables<'badges'>;
+
+export type UserBadgeRow = Tables<'user_badges'>;
+
+export const mapBadgeRow = (row: BadgeRow, userBadge?: UserBadgeRow): Achievement => ({
+  id: row.id,
+  code: row.code,
+  name: row.nom,
+  description: row.description || '',
+  icon: row.icone,
+  clanId: row.clan_id,
+  unlockedAt: userBadge ? new Date(userBadge.unlocked_at) : null,
+});
+
+// Every badge the user has unlocked or can still earn; clan feats are only
+// earned by members of that clan and challenge rewards are only listed once won
+export async function fetchAchievements(
+  userId: string,
+  clanId: string | null
+): Promise<Achievement[]> {
+  const [badges, userBadges] = await Promise.all([
+    supabase.from('badges').select('*').order('ordre'),
+    supabase.from('user_badges').select('*').eq('user_id', userId),
+  ]);
+
+  if (badges.error) throw badges.error;
+  if (userBadges.error) throw userBadges.error;
+
+  return (badges.data || [])
+    .filter(badge =>
+      badge.regle !== 'defi' || userBadges.data?.some(ub => ub.badge_id === badge.id)
+    )
+    .map(badge => mapBadgeRow(badge, userBadges.data?.find(ub => ub.badge_id === badge.id)))
+    .filter(achievement =>
+      achievement.unlockedAt || !achievement.clanId || achievement.clanId === clanId
+    );
+}
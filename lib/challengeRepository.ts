@@ -0,0 +1,53 @@
+import { supabase } from '@/lib/supabase';
+import { Challenge, ChallengeContribution } from '@/types';
+import { Database } from '@/types/database';
+
+export type ChallengeRow = Database['public']['Functions']['get_active_challenge']['Returns'][number];
+
+export const mapChallengeRow = (row: ChallengeRow): Challenge => ({
+  id: row.id,
+  clanId: row.clan_id,
+  title: row.titre,
+  description: row.description || '',
+  exerciseId: row.exercice_id,
+  exerciseName: row.exercice_nom,
+  goal: row.objectif,
+  startsAt: new Date(row.debut),
+  endsAt: new Date(row.fin),
+  completedAt: row.complete_le ? new Date(row.complete_le) : null,
+  progress: row.progress,
+  contribution: row.contribution,
+  reward: row.badge_nom
+    ? {
+        name: row.badge_nom,
+        description: row.badge_description || '',
+        icon: row.badge_icone,
+      }
+    : null,
+});
+
+// Running challenge of the user's clan, null when the clan has none this week
+export async function fetchActiveChallenge(): Promise<Challenge | null> {
+  const { data, error } = await supabase.rpc('get_active_challenge');
+
+  if (error) throw error;
+
+  return data && data.length > 0 ? mapChallengeRow(data[0]) : null;
+}
+
+export async function fetchChallengeContributions(
+  challengeId: string
+): Promise<ChallengeContribution[]> {
+  const { data, error } = await supabase.rpc('get_challenge_contributions', {
+    p_defi_id: challengeId,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    userId: row.user_id,
+    name: row.name,
+    reps: row.reps,
+    isCurrentUser: row.is_current_user,
+  }));
+}
@@ -0,0 +1,75 @@
+import { supabase } from '@/lib/supabase';
+import { CheckIn, CheckInAnswers, SorenessArea } from '@/types';
+import { Tables, TablesInsert } from '@/types/database';
+
+export type RitualCheckinRow = Tables<'ritual_checkins'>;
+
+const SORENESS_AREAS: SorenessArea[] = ['neck', 'shoulders', 'back', 'arms', 'core', 'hips', 'legs'];
+
+export const mapCheckInRow = (row: RitualCheckinRow): CheckIn => ({
+  userProgramId: row.user_program_id,
+  day: row.jour,
+  date: row.checkin_on,
+  sleep: row.sleep,
+  energy: row.energy,
+  moodBefore: row.mood_before,
+  moodAfter: row.mood_after,
+  rpe: row.rpe,
+  soreness: row.soreness.filter((area): area is SorenessArea =>
+    SORENESS_AREAS.includes(area as SorenessArea)
+  ),
+  lightVariant: row.light_variant,
+});
+
+export async function fetchCheckIns(userProgramId: string): Promise<CheckIn[]> {
+  const { data, error } = await supabase
+    .from('ritual_checkins')
+    .select('*')
+    .eq('user_program_id', userProgramId)
+    .order('jour');
+
+  if (error) throw error;
+  return (data || []).map(mapCheckInRow);
+}
+
+// Check-ins of every program answered from `since` (YYYY-MM-DD)
+export async function fetchRecentCheckIns(since: string): Promise<CheckIn[]> {
+  const { data, error } = await supabase
+    .from('ritual_checkins')
+    .select('*')
+    .gte('checkin_on', since)
+    .order('checkin_on');
+
+  if (error) throw error;
+  return (data || []).map(mapCheckInRow);
+}
+
+// One row per day of an enrollment: only the answered fields are written, so
+// the check-in after the ritual completes the readiness given before it.
+// Replaying the same answers is a no-op
+export async function saveCheckIn(
+  userProgramId: string,
+  day: number,
+  date: string,
+  answers: CheckInAnswers
+): Promise<void> {
+  const row: TablesInsert<'ritual_checkins'> = {
+    user_program_id: userProgramId,
+    jour: day,
+    checkin_on: date,
+  };
+
+  if (answers.sleep !== undefined) row.sleep = answers.sleep;
+  if (answers.energy !== undefined) row.energy = answers.energy;
+  if (answers.moodBefore !== undefined) row.mood_before = answers.moodBefore;
+  if (answers.moodAfter !== undefined) row.mood_after = answers.moodAfter;
+  if (answers.rpe !== undefined) row.rpe = answers.rpe;
+  if (answers.soreness !== undefined) row.soreness = answers.soreness;
+  if (answers.lightVariant !== undefined) row.light_variant = answers.lightVariant;
+
+  const { error } = await supabase
+    .from('ritual_checkins')
+    .upsert(row, { onConflict: 'user_program_id,jour' });
+
+  if (error) throw error;
+}
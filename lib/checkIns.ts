@@ -0,0 +1,124 @@
+import { addDays } from '@/lib/dates';
+import { CheckIn, CheckInAnswers, EffortRating, SorenessArea } from '@/types';
+
+// Readiness is low when sleep and energy add up to 4 out of 10 or less, or
+// when either one is at its lowest
+export function isReadinessLow({ sleep, energy }: Pick<CheckIn, 'sleep' | 'energy'>): boolean {
+  if (sleep == null || energy == null) return false;
+  return sleep + energy <= 4 || sleep === 1 || energy === 1;
+}
+
+// RPE 1-2 is very easy, 9-10 exhausting
+export const toEffortRating = (rpe: number): EffortRating =>
+  Math.min(5, Math.max(1, Math.ceil(rpe / 2))) as EffortRating;
+
+// Applies answers to the check-in of a day, creating it when missing
+export function mergeCheckIn(
+  checkIns: CheckIn[],
+  userProgramId: string,
+  day: number,
+  date: string,
+  answers: CheckInAnswers
+): CheckIn[] {
+  const existing = checkIns.find(c => c.userProgramId === userProgramId && c.day === day);
+  const merged: CheckIn = {
+    userProgramId,
+    day,
+    sleep: null,
+    energy: null,
+    moodBefore: null,
+    moodAfter: null,
+    rpe: null,
+    soreness: [],
+    lightVariant: false,
+    ...existing,
+    ...answers,
+    date,
+  };
+
+  return existing
+    ? checkIns.map(c => (c === existing ? merged : c))
+    : [...checkIns, merged];
+}
+
+export interface CheckInAverages {
+  sleep: number | null;
+  energy: number | null;
+  moodGain: number | null; // mood after minus mood before
+  rpe: number | null;
+}
+
+export interface CheckInTrends {
+  count: number;
+  current: CheckInAverages; // last 7 days
+  previous: CheckInAverages; // the 7 days before
+  topSoreness: SorenessArea | null;
+}
+
+const average = (values: (number | null)[]): number | null => {
+  const answered = values.filter((value): value is number => value != null);
+  if (answered.length === 0) return null;
+  return answered.reduce((sum, value) => sum + value, 0) / answered.length;
+};
+
+const getAverages = (checkIns: CheckIn[]): CheckInAverages => ({
+  sleep: average(checkIns.map(c => c.sleep)),
+  energy: average(checkIns.map(c => c.energy)),
+  moodGain: average(
+    checkIns.map(c =>
+      c.moodBefore != null && c.moodAfter != null ? c.moodAfter - c.moodBefore : null
+    )
+  ),
+  rpe: average(checkIns.map(c => c.rpe)),
+});
+
+// Compares the last 7 days with the 7 days before; `checkIns` must cover at
+// least the last 14 days
+export function getCheckInTrends(checkIns: CheckIn[], today: string): CheckInTrends {
+  const weekStart = addDays(today, -6);
+  const previousStart = addDays(today, -13);
+  const current = checkIns.filter(c => c.date >= weekStart && c.date <= today);
+  const previous = checkIns.filter(c => c.date >= previousStart && c.date < weekStart);
+
+  const sorenessCounts = new Map<SorenessArea, number>();
+  current.forEach(c =>
+    c.soreness.forEach(area => sorenessCounts.set(area, (sorenessCounts.get(area) ?? 0) + 1))
+  );
+  const topSoreness = [...sorenessCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  return {
+    count: current.length,
+    current: getAverages(current),
+    previous: getAverages(previous),
+    topSoreness,
+  };
+}
+
+export const SORENESS_LABELS: Record<SorenessArea, string> = {
+  neck: 'Cou',
+  shoulders: 'Épaules',
+  back: 'Dos',
+  arms: 'Bras',
+  core: 'Abdos',
+  hips: 'Hanches',
+  legs: 'Jambes',
+};
+
+export const SLEEP_STEPS = ['Très mauvais', 'Mauvais', 'Correct', 'Bon', 'Excellent'];
+
+export const ENERGY_STEPS = ['Vide', 'Basse', 'Moyenne', 'Bonne', 'Au top'];
+
+export const MOOD_STEPS = ['Très bas', 'Bas', 'Neutre', 'Bien', 'Excellent'];
+
+export const RPE_STEPS = [
+  'Très léger',
+  'Léger',
+  'Modéré',
+  'Soutenu',
+  'Un peu dur',
+  'Dur',
+  'Très dur',
+  'Intense',
+  'Extrême',
+  'Maximal',
+];
@@ -0,0 +1,31 @@
+import { supabase } from '@/lib/supabase';
+import { COLORS } from '@/constants/Colors';
+import { Clan } from '@/types';
+import { Tables } from '@/types/database';
+
+export type ClanRow = Tables<'clans'>;
+
+export const mapClanRow = (row: ClanRow): Clan => ({
+  id: row.id,
+  code: row.code,
+  name: row.nom_clan,
+  tagline: row.tagline || '',
+  description: row.description || '',
+  entryRitual: row.rituel_entree || '',
+  imageUrl: row.image_url || '',
+  color: row.couleur_theme || COLORS.primary,
+});
+
+export async function fetchClans(): Promise<Clan[]> {
+  const { data, error } = await supabase
+    .from('clans')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []).map(mapClanRow);
+}
+
+// "OKWÁHO" -> "Okwáho"
+export const formatClanName = (clan: Clan) =>
+  clan.name.charAt(0) + clan.name.slice(1).toLowerCase();
@@ -0,0 +1,23 @@
+import { Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import * as Speech from 'expo-speech';
+
+export type TimerCue = 'start' | 'halfway' | 'countdown' | 'finish';
+
+const HAPTICS: Record<TimerCue, () => Promise<void>> = {
+  start: () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium),
+  halfway: () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light),
+  countdown: () => Haptics.selectionAsync(),
+  finish: () => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success),
+};
+
+// Vibrates and reads `announcement` aloud, so the phone can stay on the floor
+// during a timed exercise. Cues are best effort and never interrupt the timer
+export function playCue(cue: TimerCue, announcement: string) {
+  if (Platform.OS !== 'web') {
+    HAPTICS[cue]().catch(error => console.error('Failed to play haptic cue:', error));
+  }
+
+  Speech.stop();
+  Speech.speak(announcement, { language: 'fr-FR' });
+}
@@ -0,0 +1,32 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar days are handled as YYYY-MM-DD strings, like Postgres dates
+
+export const getDeviceTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Calendar day of `date` in `timeZone`
+export function toLocalDay(date: Date, timeZone: string): string {
+  try {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      parts.find(p => p.type === type)?.value;
+
+    return `${part('year')}-${part('month')}-${part('day')}`;
+  } catch (error) {
+    console.error(`Unknown time zone ${timeZone}:`, error);
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+// Whole calendar days from `from` to `to`
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+export const addDays = (day: string, count: number) =>
+  new Date(Date.parse(day) + count * DAY_MS).toISOString().slice(0, 10);
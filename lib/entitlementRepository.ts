@@ -0,0 +1,38 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { PurchaseError, PurchaseReceipt } from '@/lib/store';
+
+// Premium programs the member can follow; revoked and expired entitlements
+// are left out
+export async function fetchEntitledProgramIds(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('user_entitlements')
+    .select('programme_id, expires_at')
+    .is('revoked_at', null);
+
+  if (error) throw error;
+
+  const now = Date.now();
+  return (data || [])
+    .filter(row => !row.expires_at || Date.parse(row.expires_at) > now)
+    .map(row => row.programme_id);
+}
+
+// Has the server check `receipt` with its store and record the entitlement;
+// returns the unlocked program. Redeeming the same receipt again is harmless
+export async function redeemReceipt(receipt: PurchaseReceipt): Promise<string> {
+  const { data, error } = await supabase.functions.invoke<{ programme_id: string }>(
+    'redeem-receipt',
+    { body: receipt }
+  );
+
+  if (error instanceof FunctionsHttpError) {
+    const { code, message } = await error.context.json().catch(() => ({}));
+    if (code === 'invalid_receipt' || code === 'unavailable') {
+      throw new PurchaseError(code, message);
+    }
+  }
+
+  if (error) throw error;
+  return data!.programme_id;
+}
@@ -0,0 +1,87 @@
+import { supabase } from '@/lib/supabase';
+import { ExerciseLog, ExerciseLogKind, ExerciseMeasurement } from '@/types';
+import { Tables } from '@/types/database';
+
+export type ExerciseLogRow = Tables<'exercise_logs'>;
+
+const KINDS: Record<string, ExerciseLogKind> = {
+  'saisie': 'entry',
+  'annulation': 'undo',
+  'correction': 'correction',
+};
+
+const NATURES: Record<ExerciseLogKind, string> = {
+  entry: 'saisie',
+  undo: 'annulation',
+  correction: 'correction',
+};
+
+export const mapExerciseLogRow = (row: ExerciseLogRow): ExerciseLog => ({
+  id: row.id,
+  userProgramId: row.user_program_id,
+  day: row.jour,
+  exerciseId: row.exercice_id,
+  kind: KINDS[row.nature] ?? 'entry',
+  undoneLogId: row.annule_log_id,
+  reps: row.reps,
+  seconds: row.secondes,
+  meters: row.metres,
+  loggedAt: new Date(row.logged_at),
+});
+
+export async function fetchExerciseLogs(userProgramId: string): Promise<ExerciseLog[]> {
+  const { data, error } = await supabase
+    .from('exercise_logs')
+    .select('*')
+    .eq('user_program_id', userProgramId)
+    .order('logged_at');
+
+  if (error) throw error;
+  return (data || []).map(mapExerciseLogRow);
+}
+
+// The log id is generated on the device and used as idempotency key, so
+// replaying the same log after a lost response is a no-op
+export async function insertExerciseLog(log: ExerciseLog): Promise<void> {
+  const { error } = await supabase
+    .from('exercise_logs')
+    .upsert(
+      {
+        id: log.id,
+        user_program_id: log.userProgramId,
+        jour: log.day,
+        exercice_id: log.exerciseId,
+        nature: NATURES[log.kind],
+        annule_log_id: log.undoneLogId,
+        reps: log.reps,
+        secondes: log.seconds,
+        metres: log.meters,
+        logged_at: log.loggedAt.toISOString(),
+      },
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+// Splits an amount into the log column of the exercise unit; breaths are
+// counted like repetitions
+export const toLogQuantity = (
+  measurement: ExerciseMeasurement,
+  amount: number
+): Pick<ExerciseLog, 'reps' | 'seconds' | 'meters'> => ({
+  reps: measurement === 'reps' || measurement === 'breaths' ? amount : null,
+  seconds: measurement === 'seconds' ? amount : null,
+  meters: measurement === 'distance' ? amount : null,
+});
+
+// Signed amount of a log, in the unit of its exercise
+export const getLogAmount = (log: ExerciseLog): number =>
+  log.reps ?? log.seconds ?? log.meters ?? 0;
+
+// Total amount logged for one exercise on one program day, undos and
+// corrections included
+export const sumExerciseLogs = (logs: ExerciseLog[], day: number, exerciseId: string): number =>
+  logs
+    .filter(log => log.day === day && log.exerciseId === exerciseId)
+    .reduce((total, log) => total + getLogAmount(log), 0);
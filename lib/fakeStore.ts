@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { PurchaseError, PurchaseReceipt, Store, StoreProduct } from '@/lib/store';
+
+const STORAGE_KEY = 'mohero:test-store-purchases';
+
+export type FakeStoreOutcome = 'success' | 'cancelled' | 'declined';
+
+export interface FakeStoreOptions {
+  // Price of each product id; any other product sells at `defaultPrice`
+  prices?: Record<string, string>;
+  defaultPrice?: string;
+  outcome?: FakeStoreOutcome;
+  delayMs?: number;
+}
+
+const OUTCOMES: FakeStoreOutcome[] = ['success', 'cancelled', 'declined'];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const loadPurchases = async (): Promise<PurchaseReceipt[]> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+// Local store for development: every purchase succeeds, or fails as set by
+// `outcome` (EXPO_PUBLIC_FAKE_STORE_OUTCOME by default), and is kept on the
+// device so it can be restored. Its receipts are only redeemed by projects
+// whose `redeem-receipt` function enables the test store
+export function createFakeStore({
+  prices = {},
+  defaultPrice = '9,99 €',
+  outcome = OUTCOMES.find(o => o === process.env.EXPO_PUBLIC_FAKE_STORE_OUTCOME) ?? 'success',
+  delayMs = 600,
+}: FakeStoreOptions = {}): Store {
+  const toProduct = (productId: string): StoreProduct => ({
+    id: productId,
+    title: productId,
+    price: prices[productId] ?? defaultPrice,
+  });
+
+  return {
+    code: 'test',
+
+    getProducts: async productIds => productIds.map(toProduct),
+
+    purchase: async productId => {
+      await wait(delayMs);
+
+      if (outcome === 'cancelled') {
+        throw new PurchaseError('cancelled', 'Purchase cancelled');
+      }
+      if (outcome === 'declined') {
+        throw new PurchaseError('declined', 'Payment declined by the test store');
+      }
+
+      const receipt: PurchaseReceipt = {
+        store: 'test',
+        productId,
+        transactionId: Crypto.randomUUID(),
+        purchasedAt: new Date().toISOString(),
+      };
+
+      const purchases = await loadPurchases();
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify([...purchases, receipt]));
+      return receipt;
+    },
+
+    restore: async () => {
+      await wait(delayMs);
+      return loadPurchases();
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { supabase } from '@/lib/supabase';
+import { COLORS } from '@/constants/Colors';
+import {
+  ClanStanding,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  MemberStanding,
+} from '@/types';
+
+// Rankings are computed server-side so members who opted out never reach the app
+
+export async function fetchClanLeaderboard(
+  period: LeaderboardPeriod,
+  metric: LeaderboardMetric
+): Promise<ClanStanding[]> {
+  const { data, error } = await supabase.rpc('get_clan_leaderboard', {
+    p_period: period,
+    p_metric: metric,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    rank: row.rank,
+    clanId: row.clan_id,
+    name: row.name,
+    color: row.color || COLORS.primary,
+    members: row.members,
+    daysCompleted: row.days_completed,
+    repsLogged: row.reps_logged,
+    activeStreaks: row.active_streaks,
+  }));
+}
+
+export async function fetchMemberLeaderboard(
+  period: LeaderboardPeriod,
+  metric: LeaderboardMetric,
+  clanId?: string
+): Promise<MemberStanding[]> {
+  const { data, error } = await supabase.rpc('get_member_leaderboard', {
+    p_period: period,
+    p_metric: metric,
+    p_clan_id: clanId,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    rank: row.rank,
+    userId: row.user_id,
+    name: row.name,
+    clanId: row.clan_id,
+    daysCompleted: row.days_completed,
+    repsLogged: row.reps_logged,
+    currentStreak: row.current_streak,
+    isCurrentUser: row.is_current_user,
+  }));
+}
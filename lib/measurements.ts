@@ -0,0 +1,27 @@
+import { Exercise, ExerciseMeasurement } from '@/types';
+
+// m:ss, e.g. 1:05
+export const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export const formatDistance = (meters: number) =>
+  meters >= 1000
+    ? `${(meters / 1000).toLocaleString('fr-FR', { maximumFractionDigits: 2 })} km`
+    : `${meters} m`;
+
+export function formatAmount(measurement: ExerciseMeasurement, amount: number): string {
+  switch (measurement) {
+    case 'seconds':
+      return formatDuration(amount);
+    case 'distance':
+      return formatDistance(amount);
+    case 'reps':
+    case 'breaths':
+      return `${amount}`;
+  }
+}
+
+// Logged amount out of the target, e.g. "1:30 / 2:00" or "12 / 30 respirations"
+export const formatProgress = ({ measurement, completed, target }: Exercise) =>
+  `${formatAmount(measurement, completed)} / ${formatAmount(measurement, target)}` +
+  (measurement === 'breaths' ? ' respirations' : '');
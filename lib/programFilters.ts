@@ -0,0 +1,64 @@
+import { Program, ProgramDifficulty } from '@/types';
+
+export type DurationRange = 'short' | 'medium' | 'long';
+
+export interface ProgramFilters {
+  query: string;
+  tags: string[]; // any of them
+  duration: DurationRange | null;
+  difficulty: ProgramDifficulty | null;
+}
+
+export const EMPTY_FILTERS: ProgramFilters = {
+  query: '',
+  tags: [],
+  duration: null,
+  difficulty: null,
+};
+
+// Inclusive bounds in days
+const DURATION_BOUNDS: Record<DurationRange, [number, number]> = {
+  short: [1, 7],
+  medium: [8, 30],
+  long: [31, Infinity],
+};
+
+// Case and accent insensitive, so "energie" finds "Énergie"
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const hasActiveFilters = (filters: ProgramFilters) =>
+  filters.query.trim() !== '' ||
+  filters.tags.length > 0 ||
+  filters.duration !== null ||
+  filters.difficulty !== null;
+
+export function filterPrograms(programs: Program[], filters: ProgramFilters): Program[] {
+  const words = normalize(filters.query).split(/\s+/).filter(Boolean);
+
+  return programs.filter(program => {
+    if (filters.tags.length > 0 && !program.focus.some(tag => filters.tags.includes(tag))) {
+      return false;
+    }
+
+    if (filters.duration) {
+      const [min, max] = DURATION_BOUNDS[filters.duration];
+      if (program.duration < min || program.duration > max) return false;
+    }
+
+    if (filters.difficulty && program.difficulty !== filters.difficulty) return false;
+
+    const text = normalize(`${program.title} ${program.description}`);
+    return words.every(word => text.includes(word));
+  });
+}
+
+// Tags of all programs, most used first
+export function getProgramTags(programs: Program[]): string[] {
+  const counts = new Map<string, number>();
+  programs.forEach(p => p.focus.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'fr'))
+    .map(([tag]) => tag);
+}
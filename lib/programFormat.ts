@@ -0,0 +1,570 @@
+import {
+  ExerciseMeasurement,
+  MissedDayPolicy,
+  ProgramCategory,
+  ProgramDifficulty,
+} from '@/types';
+import { resolveProgramDays } from '@/lib/ritualGenerator';
+
+// Content format coaches author programs in (JSON or YAML), imported with
+// `npm run import:programs`. Bump the version on breaking changes and keep
+// reading the previous ones
+export const PROGRAM_FORMAT_VERSION = 1;
+
+export interface ProgramDocumentDayExercise {
+  exercise: string; // slug
+  sets?: number; // 1 when omitted
+  target: number; // per set, in the unit of the exercise
+  restSeconds?: number; // 60 when omitted
+}
+
+// How volume grows over a phase, one step every `every` days from its first day
+export interface ProgramDocumentProgression {
+  every?: number; // 1 when omitted
+  target?: number; // fraction of the base target added at each step, e.g. 0.05
+  sets?: number; // sets added at each step
+  maxSets?: number;
+}
+
+// Generates the rituals of a phase (see lib/ritualGenerator.ts). Days listed
+// in `days` take precedence over generated ones
+export interface ProgramDocumentTemplate {
+  exercisesPerDay?: number; // drawn from the pool each day, whole pool when omitted
+  pool: ProgramDocumentDayExercise[];
+  always?: ProgramDocumentDayExercise[]; // close every day as written, after the drawn ones
+  progression?: ProgramDocumentProgression;
+  quotes?: string[]; // document quotes when omitted
+}
+
+export interface ProgramDocumentPhase {
+  title: string;
+  description?: string;
+  startDay: number;
+  endDay: number;
+  template?: ProgramDocumentTemplate;
+}
+
+// Exercises are shared between programs and matched by slug: declaring one
+// creates or updates it, days can also use exercises imported before
+export interface ProgramDocumentExercise {
+  slug: string;
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  videoUrl?: string;
+  measurement?: ExerciseMeasurement; // reps when omitted
+}
+
+export interface ProgramDocumentDay {
+  day: number;
+  quote?: string;
+  exercises: ProgramDocumentDayExercise[];
+}
+
+export interface ProgramDocument {
+  version: typeof PROGRAM_FORMAT_VERSION;
+  program: {
+    slug: string;
+    title: string;
+    description?: string;
+    imageUrl?: string;
+    duration: number;
+    category: ProgramCategory;
+    difficulty?: ProgramDifficulty | null;
+    clan?: string | null; // clan code, e.g. "ekloa"
+    tags?: string[];
+    benefits?: string[];
+    restDays?: number[];
+    missedDayPolicy?: MissedDayPolicy; // hold when omitted
+    adjustment?: { min: number; max: number }; // bounds of per member targets
+    lightVariantScale?: number | null; // 0.7 when omitted, null disables it
+    productId?: string | null; // required for premium programs
+    published?: boolean;
+  };
+  phases?: ProgramDocumentPhase[];
+  exercises?: ProgramDocumentExercise[];
+  quotes?: string[]; // pool of the generated days
+  days?: ProgramDocumentDay[]; // days that are neither rest days nor generated
+}
+
+export interface ProgramFormatError {
+  path: string; // e.g. "days[3].exercises[0].sets"
+  message: string;
+}
+
+export type ProgramValidationResult =
+  | { document: ProgramDocument; errors: [] }
+  | { document: null; errors: ProgramFormatError[] };
+
+export const formatProgramError = (error: ProgramFormatError) =>
+  error.path ? `${error.path}: ${error.message}` : error.message;
+
+const CATEGORIES: ProgramCategory[] = ['discovery', 'premium'];
+const DIFFICULTIES: ProgramDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+const MISSED_DAY_POLICIES: MissedDayPolicy[] = ['hold', 'skip', 'restart_phase'];
+const MEASUREMENTS: ExerciseMeasurement[] = ['reps', 'seconds', 'distance', 'breaths'];
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const CLAN_CODE_PATTERN = /^[a-z]+$/;
+const URL_PATTERN = /^https?:\/\/\S+$/;
+
+type Fields = Record<string, unknown>;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+};
+
+const oneOf = (values: readonly string[]) => values.map(value => `"${value}"`).join(', ');
+
+// Collects every problem of a document instead of stopping at the first one,
+// so authors can fix a file in one pass
+function createChecker() {
+  const errors: ProgramFormatError[] = [];
+
+  const fail = (path: string, message: string) => {
+    errors.push({ path, message });
+  };
+
+  const object = (value: unknown, path: string, known: string[]): Fields | null => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      fail(path, `must be an object, got ${describe(value)}`);
+      return null;
+    }
+
+    Object.keys(value).forEach(key => {
+      if (!known.includes(key)) {
+        fail(path ? `${path}.${key}` : key, `unknown field, expected one of ${oneOf(known)}`);
+      }
+    });
+
+    return value as Fields;
+  };
+
+  const array = (value: unknown, path: string, options: { nonEmpty?: boolean } = {}): unknown[] | null => {
+    if (!Array.isArray(value)) {
+      fail(path, `must be an array, got ${describe(value)}`);
+      return null;
+    }
+
+    if (options.nonEmpty && value.length === 0) {
+      fail(path, 'must not be empty');
+      return null;
+    }
+
+    return value;
+  };
+
+  const string = (
+    value: unknown,
+    path: string,
+    options: { pattern?: RegExp; hint?: string } = {}
+  ): string | null => {
+    if (typeof value !== 'string' || value.trim() === '') {
+      fail(path, `must be a non-empty string, got ${describe(value)}`);
+      return null;
+    }
+
+    if (options.pattern && !options.pattern.test(value)) {
+      fail(path, `must be ${options.hint}, got ${describe(value)}`);
+      return null;
+    }
+
+    return value;
+  };
+
+  const integer = (
+    value: unknown,
+    path: string,
+    bounds: { min: number; max?: number }
+  ): number | null => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      fail(path, `must be an integer, got ${describe(value)}`);
+      return null;
+    }
+
+    if (value < bounds.min || (bounds.max !== undefined && value > bounds.max)) {
+      const range = bounds.max === undefined ? `at least ${bounds.min}` : `between ${bounds.min} and ${bounds.max}`;
+      fail(path, `must be ${range}, got ${value}`);
+      return null;
+    }
+
+    return value;
+  };
+
+  const number = (value: unknown, path: string, check: (value: number) => boolean, hint: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || !check(value)) {
+      fail(path, `must be ${hint}, got ${describe(value)}`);
+      return null;
+    }
+
+    return value;
+  };
+
+  const choice = <T extends string>(value: unknown, path: string, values: readonly T[]): T | null => {
+    if (!values.includes(value as T)) {
+      fail(path, `must be one of ${oneOf(values)}, got ${describe(value)}`);
+      return null;
+    }
+
+    return value as T;
+  };
+
+  const strings = (value: unknown, path: string) => {
+    array(value, path)?.forEach((item, index) => string(item, `${path}[${index}]`));
+  };
+
+  return { errors, fail, object, array, string, integer, number, choice, strings };
+}
+
+type Checker = ReturnType<typeof createChecker>;
+
+function checkProgram(check: Checker, value: unknown): ProgramDocument['program'] | null {
+  const program = check.object(value, 'program', [
+    'slug', 'title', 'description', 'imageUrl', 'duration', 'category', 'difficulty', 'clan',
+    'tags', 'benefits', 'restDays', 'missedDayPolicy', 'adjustment', 'lightVariantScale',
+    'productId', 'published',
+  ]);
+  if (!program) return null;
+
+  check.string(program.slug, 'program.slug', { pattern: SLUG_PATTERN, hint: 'a lowercase slug like "jaguar-breath"' });
+  check.string(program.title, 'program.title');
+  if (program.description !== undefined) check.string(program.description, 'program.description');
+  if (program.imageUrl !== undefined) {
+    check.string(program.imageUrl, 'program.imageUrl', { pattern: URL_PATTERN, hint: 'an http(s) URL' });
+  }
+
+  const duration = check.integer(program.duration, 'program.duration', { min: 1, max: 365 });
+  const category = check.choice(program.category, 'program.category', CATEGORIES);
+
+  if (program.difficulty != null) check.choice(program.difficulty, 'program.difficulty', DIFFICULTIES);
+  if (program.clan != null) {
+    check.string(program.clan, 'program.clan', { pattern: CLAN_CODE_PATTERN, hint: 'a lowercase clan code like "ekloa"' });
+  }
+  if (program.tags !== undefined) check.strings(program.tags, 'program.tags');
+  if (program.benefits !== undefined) check.strings(program.benefits, 'program.benefits');
+
+  if (program.restDays !== undefined) {
+    const seen = new Set<number>();
+
+    check.array(program.restDays, 'program.restDays')?.forEach((day, index) => {
+      const path = `program.restDays[${index}]`;
+      const restDay = check.integer(day, path, { min: 1, max: duration ?? undefined });
+
+      if (restDay !== null && seen.has(restDay)) check.fail(path, `day ${restDay} is listed twice`);
+      if (restDay !== null) seen.add(restDay);
+    });
+  }
+
+  if (program.missedDayPolicy !== undefined) {
+    check.choice(program.missedDayPolicy, 'program.missedDayPolicy', MISSED_DAY_POLICIES);
+  }
+
+  if (program.adjustment !== undefined) {
+    const adjustment = check.object(program.adjustment, 'program.adjustment', ['min', 'max']);
+
+    if (adjustment) {
+      check.number(adjustment.min, 'program.adjustment.min', value => value > 0 && value <= 1, 'a number above 0 and at most 1');
+      check.number(adjustment.max, 'program.adjustment.max', value => value >= 1, 'a number of at least 1');
+    }
+  }
+
+  if (program.lightVariantScale != null) {
+    check.number(program.lightVariantScale, 'program.lightVariantScale', value => value > 0 && value < 1, 'a number between 0 and 1');
+  }
+
+  if (program.productId != null) {
+    check.string(program.productId, 'program.productId');
+  } else if (category === 'premium') {
+    check.fail('program.productId', 'is required for premium programs');
+  }
+
+  if (program.published !== undefined && typeof program.published !== 'boolean') {
+    check.fail('program.published', `must be true or false, got ${describe(program.published)}`);
+  }
+
+  return program as unknown as ProgramDocument['program'];
+}
+
+// Exercises of a day or of a template; returns their slugs
+function checkDayExercises(check: Checker, value: unknown, path: string): Set<string> {
+  const slugs = new Set<string>();
+
+  check.array(value, path, { nonEmpty: true })?.forEach((entry, position) => {
+    const entryPath = `${path}[${position}]`;
+    const exercise = check.object(entry, entryPath, ['exercise', 'sets', 'target', 'restSeconds']);
+    if (!exercise) return;
+
+    const slug = check.string(exercise.exercise, `${entryPath}.exercise`, { pattern: SLUG_PATTERN, hint: 'an exercise slug' });
+
+    if (slug !== null && slugs.has(slug)) {
+      check.fail(`${entryPath}.exercise`, `"${slug}" appears twice in the same day, raise its sets instead`);
+    }
+    if (slug !== null) slugs.add(slug);
+
+    if (exercise.sets !== undefined) check.integer(exercise.sets, `${entryPath}.sets`, { min: 1 });
+    check.integer(exercise.target, `${entryPath}.target`, { min: 1 });
+    if (exercise.restSeconds !== undefined) {
+      check.integer(exercise.restSeconds, `${entryPath}.restSeconds`, { min: 0 });
+    }
+  });
+
+  return slugs;
+}
+
+function checkTemplate(check: Checker, value: unknown, path: string) {
+  const template = check.object(value, path, ['exercisesPerDay', 'pool', 'always', 'progression', 'quotes']);
+  if (!template) return;
+
+  const pool = checkDayExercises(check, template.pool, `${path}.pool`);
+
+  if (template.exercisesPerDay !== undefined) {
+    check.integer(template.exercisesPerDay, `${path}.exercisesPerDay`, {
+      min: 1,
+      max: Array.isArray(template.pool) ? template.pool.length : undefined,
+    });
+  }
+
+  if (template.always !== undefined) {
+    checkDayExercises(check, template.always, `${path}.always`).forEach(slug => {
+      if (pool.has(slug)) {
+        check.fail(`${path}.always`, `"${slug}" is also in the pool and would appear twice in a day`);
+      }
+    });
+  }
+
+  if (template.progression !== undefined) {
+    const progressionPath = `${path}.progression`;
+    const progression = check.object(template.progression, progressionPath, ['every', 'target', 'sets', 'maxSets']);
+
+    if (progression) {
+      if (progression.every !== undefined) check.integer(progression.every, `${progressionPath}.every`, { min: 1 });
+      if (progression.target !== undefined) {
+        check.number(progression.target, `${progressionPath}.target`, value => value > -1, 'a fraction above -1, e.g. 0.05');
+      }
+      if (progression.sets !== undefined) check.integer(progression.sets, `${progressionPath}.sets`, { min: 0 });
+      if (progression.maxSets !== undefined) check.integer(progression.maxSets, `${progressionPath}.maxSets`, { min: 1 });
+    }
+  }
+
+  if (template.quotes !== undefined) {
+    if (check.array(template.quotes, `${path}.quotes`, { nonEmpty: true })) {
+      check.strings(template.quotes, `${path}.quotes`);
+    }
+  }
+}
+
+// Returns the days covered by a template
+function checkPhases(check: Checker, value: unknown, duration: number | null): Set<number> {
+  const generatedDays = new Set<number>();
+  let previousEnd = 0;
+
+  check.array(value, 'phases')?.forEach((item, index) => {
+    const path = `phases[${index}]`;
+    const phase = check.object(item, path, ['title', 'description', 'startDay', 'endDay', 'template']);
+    if (!phase) return;
+
+    check.string(phase.title, `${path}.title`);
+    if (phase.description !== undefined) check.string(phase.description, `${path}.description`);
+    if (phase.template !== undefined) checkTemplate(check, phase.template, `${path}.template`);
+
+    const bounds = { min: 1, max: duration ?? undefined };
+    const startDay = check.integer(phase.startDay, `${path}.startDay`, bounds);
+    const endDay = check.integer(phase.endDay, `${path}.endDay`, bounds);
+    if (startDay === null || endDay === null) return;
+
+    if (endDay < startDay) {
+      check.fail(`${path}.endDay`, `must not be before startDay (${startDay}), got ${endDay}`);
+    } else if (startDay <= previousEnd) {
+      check.fail(`${path}.startDay`, `must come after the previous phase, which ends on day ${previousEnd}`);
+    } else if (phase.template !== undefined) {
+      for (let day = startDay; day <= endDay; day++) generatedDays.add(day);
+    }
+
+    previousEnd = Math.max(previousEnd, endDay);
+  });
+
+  return generatedDays;
+}
+
+function checkExercises(check: Checker, value: unknown) {
+  const slugs = new Map<string, number>();
+
+  check.array(value, 'exercises')?.forEach((item, index) => {
+    const path = `exercises[${index}]`;
+    const exercise = check.object(item, path, ['slug', 'name', 'description', 'imageUrl', 'videoUrl', 'measurement']);
+    if (!exercise) return;
+
+    const slug = check.string(exercise.slug, `${path}.slug`, { pattern: SLUG_PATTERN, hint: 'a lowercase slug like "jump-squats"' });
+
+    if (slug !== null && slugs.has(slug)) {
+      check.fail(`${path}.slug`, `"${slug}" is already declared by exercises[${slugs.get(slug)}]`);
+    } else if (slug !== null) {
+      slugs.set(slug, index);
+    }
+
+    check.string(exercise.name, `${path}.name`);
+    if (exercise.description !== undefined) check.string(exercise.description, `${path}.description`);
+
+    (['imageUrl', 'videoUrl'] as const).forEach(field => {
+      if (exercise[field] !== undefined) {
+        check.string(exercise[field], `${path}.${field}`, { pattern: URL_PATTERN, hint: 'an http(s) URL' });
+      }
+    });
+
+    if (exercise.measurement !== undefined) {
+      check.choice(exercise.measurement, `${path}.measurement`, MEASUREMENTS);
+    }
+  });
+}
+
+function checkDays(
+  check: Checker,
+  value: unknown,
+  duration: number | null,
+  restDays: number[],
+  generatedDays: Set<number>
+) {
+  const days = new Map<number, number>();
+
+  if (value !== undefined) {
+    check.array(value, 'days')?.forEach((item, index) => {
+      const path = `days[${index}]`;
+      const day = check.object(item, path, ['day', 'quote', 'exercises']);
+      if (!day) return;
+
+      const dayNumber = check.integer(day.day, `${path}.day`, { min: 1, max: duration ?? undefined });
+
+      if (dayNumber !== null && days.has(dayNumber)) {
+        check.fail(`${path}.day`, `day ${dayNumber} is already defined by days[${days.get(dayNumber)}]`);
+      } else if (dayNumber !== null && restDays.includes(dayNumber)) {
+        check.fail(`${path}.day`, `day ${dayNumber} is a rest day and cannot have a ritual`);
+      } else if (dayNumber !== null) {
+        days.set(dayNumber, index);
+      }
+
+      if (day.quote !== undefined) check.string(day.quote, `${path}.quote`);
+      checkDayExercises(check, day.exercises, `${path}.exercises`);
+    });
+  }
+
+  if (duration === null) return;
+
+  for (let day = 1; day <= duration; day++) {
+    if (!days.has(day) && !restDays.includes(day) && !generatedDays.has(day)) {
+      check.fail('days', `day ${day} has no ritual, is not a rest day and no phase template covers it`);
+    }
+  }
+}
+
+// Validates a parsed JSON or YAML document. Errors point at the offending
+// field with its path in the document
+export function validateProgramDocument(value: unknown): ProgramValidationResult {
+  const check = createChecker();
+  const root = check.object(value, '', ['version', 'program', 'phases', 'exercises', 'quotes', 'days']);
+
+  if (!root) return { document: null, errors: check.errors };
+
+  if (root.version !== PROGRAM_FORMAT_VERSION) {
+    check.fail('version', `must be ${PROGRAM_FORMAT_VERSION}, got ${describe(root.version)}`);
+    return { document: null, errors: check.errors };
+  }
+
+  const program = checkProgram(check, root.program);
+  const duration = Number.isInteger(program?.duration) ? program!.duration : null;
+  const restDays = Array.isArray(program?.restDays)
+    ? program!.restDays.filter(day => Number.isInteger(day))
+    : [];
+
+  const generatedDays = root.phases !== undefined
+    ? checkPhases(check, root.phases, duration)
+    : new Set<number>();
+
+  if (root.exercises !== undefined) checkExercises(check, root.exercises);
+  if (root.quotes !== undefined) check.strings(root.quotes, 'quotes');
+  checkDays(check, root.days, duration, restDays, generatedDays);
+
+  return check.errors.length > 0
+    ? { document: null, errors: check.errors }
+    : { document: root as unknown as ProgramDocument, errors: [] };
+}
+
+// Values as stored in Supabase (French column names)
+const DB_CATEGORIES: Record<ProgramCategory, string> = {
+  discovery: 'Découverte',
+  premium: 'Premium',
+};
+
+const DB_DIFFICULTIES: Record<ProgramDifficulty, string> = {
+  beginner: 'Débutant',
+  intermediate: 'Intermédiaire',
+  advanced: 'Avancé',
+};
+
+const DB_MISSED_DAY_POLICIES: Record<MissedDayPolicy, string> = {
+  hold: 'attente',
+  skip: 'saut',
+  restart_phase: 'reprise_phase',
+};
+
+const DB_MEASUREMENTS: Record<ExerciseMeasurement, string> = {
+  reps: 'repetitions',
+  seconds: 'secondes',
+  distance: 'distance',
+  breaths: 'respirations',
+};
+
+// Argument of the `import_programme` RPC, with every default applied
+export function toImportPayload(document: ProgramDocument) {
+  const { program } = document;
+
+  return {
+    version: document.version,
+    programme: {
+      slug: program.slug,
+      nom: program.title,
+      description: program.description ?? null,
+      image_url: program.imageUrl ?? null,
+      duree_jours: program.duration,
+      type: DB_CATEGORIES[program.category],
+      tags: program.tags ?? [],
+      clan: program.clan ?? null,
+      niveau_difficulte: program.difficulty ? DB_DIFFICULTIES[program.difficulty] : null,
+      resultats: program.benefits ?? [],
+      parcours_resume: (document.phases ?? []).map(phase => ({
+        titre: phase.title,
+        description: phase.description ?? '',
+        jour_debut: phase.startDay,
+        jour_fin: phase.endDay,
+      })),
+      jours_repos: [...(program.restDays ?? [])].sort((a, b) => a - b),
+      politique_jours_manques: DB_MISSED_DAY_POLICIES[program.missedDayPolicy ?? 'hold'],
+      ajustement_min: program.adjustment?.min ?? 0.5,
+      ajustement_max: program.adjustment?.max ?? 1.5,
+      coefficient_allege: program.lightVariantScale === undefined ? 0.7 : program.lightVariantScale,
+      produit_id: program.productId ?? null,
+      publie: program.published ?? true,
+    },
+    exercices: (document.exercises ?? []).map(exercise => ({
+      slug: exercise.slug,
+      nom: exercise.name,
+      description: exercise.description ?? null,
+      image_url: exercise.imageUrl ?? null,
+      video_url: exercise.videoUrl ?? null,
+      mesure: DB_MEASUREMENTS[exercise.measurement ?? 'reps'],
+    })),
+    rituels: resolveProgramDays(document).map(day => ({
+      jour: day.day,
+      citation: day.quote ?? null,
+      exercices: day.exercises.map(entry => ({
+        exercice: entry.exercise,
+        series: entry.sets ?? 1,
+        objectif: entry.target,
+        repos_secondes: entry.restSeconds ?? 60,
+      })),
+    })),
+  };
+}
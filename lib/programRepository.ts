@@ -0,0 +1,181 @@
+import { QueryData } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { Tables } from '@/types/database';
+import {
+  DailyRitual,
+  Exercise,
+  ExerciseMeasurement,
+  MissedDayPolicy,
+  Program,
+  ProgramCategory,
+  ProgramDifficulty,
+} from '@/types';
+
+// Raw rows as stored in Supabase (French column names)
+export type ProgrammeRow = Tables<'programmes'>;
+
+export type ExerciceRow = Tables<'exercices'>;
+
+const selectRituels = () =>
+  supabase
+    .from('rituels')
+    .select('*, rituel_exercices(ordre, objectif, series, repos_secondes, exercices(*))')
+    .order('jour');
+
+export type RituelRow = QueryData<ReturnType<typeof selectRituels>>[number];
+
+const CATEGORIES: Record<string, ProgramCategory> = {
+  'Découverte': 'discovery',
+  'Premium': 'premium',
+};
+
+const DIFFICULTIES: Record<string, ProgramDifficulty> = {
+  'Débutant': 'beginner',
+  'Intermédiaire': 'intermediate',
+  'Avancé': 'advanced',
+};
+
+const MISSED_DAY_POLICIES: Record<string, MissedDayPolicy> = {
+  'attente': 'hold',
+  'saut': 'skip',
+  'reprise_phase': 'restart_phase',
+};
+
+const MEASUREMENTS: Record<string, ExerciseMeasurement> = {
+  'repetitions': 'reps',
+  'secondes': 'seconds',
+  'distance': 'distance',
+  'respirations': 'breaths',
+};
+
+const toStringArray = (value: unknown, field: string): string[] => {
+  // Older rows stored JSON arrays as strings
+  const parsed = typeof value === 'string' ? JSON.parse(value) : value ?? [];
+
+  if (!Array.isArray(parsed) || parsed.some(item => typeof item !== 'string')) {
+    throw new Error(`${field} must be an array of strings`);
+  }
+
+  return parsed;
+};
+
+const toPhases = (value: unknown): Program['details']['phases'] => {
+  if (value == null) return [];
+  if (!Array.isArray(value)) throw new Error('parcours_resume must be an array');
+
+  return value.map((phase, index) => {
+    if (typeof phase?.titre !== 'string') {
+      throw new Error(`parcours_resume[${index}].titre must be a string`);
+    }
+
+    return {
+      title: phase.titre,
+      description: typeof phase.description === 'string' ? phase.description : '',
+      startDay: Number.isInteger(phase.jour_debut) ? phase.jour_debut : null,
+      endDay: Number.isInteger(phase.jour_fin) ? phase.jour_fin : null,
+    };
+  });
+};
+
+export const mapProgramRow = (row: ProgrammeRow): Program => {
+  const category = CATEGORIES[row.type];
+  if (!category) throw new Error(`Unknown programme type "${row.type}"`);
+
+  if (!Number.isInteger(row.duree_jours) || row.duree_jours <= 0) {
+    throw new Error('duree_jours must be a positive integer');
+  }
+
+  const missedDayPolicy = MISSED_DAY_POLICIES[row.politique_jours_manques];
+  if (!missedDayPolicy) {
+    throw new Error(`Unknown politique_jours_manques "${row.politique_jours_manques}"`);
+  }
+
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.nom,
+    description: row.description || '',
+    duration: row.duree_jours,
+    category,
+    difficulty: row.niveau_difficulte ? DIFFICULTIES[row.niveau_difficulte] ?? null : null,
+    clanId: row.clan_id,
+    focus: toStringArray(row.tags, 'tags'),
+    imageUrl: row.image_url || '',
+    details: {
+      benefits: toStringArray(row.resultats, 'resultats'),
+      phases: toPhases(row.parcours_resume),
+    },
+    schedule: {
+      restDays: row.jours_repos,
+      missedDayPolicy,
+    },
+    productId: row.produit_id,
+    lightVariantScale: row.coefficient_allege == null ? null : Number(row.coefficient_allege),
+  };
+};
+
+export const mapExerciseRow = (
+  row: ExerciceRow,
+  structure: Pick<Exercise, 'sets' | 'setTarget' | 'restSeconds'>
+): Exercise => {
+  const measurement = MEASUREMENTS[row.mesure];
+  if (!measurement) throw new Error(`Unknown mesure "${row.mesure}"`);
+
+  return {
+    id: row.id,
+    name: row.nom,
+    description: row.description || '',
+    imageUrl: row.image_url || '',
+    videoUrl: row.video_url || '',
+    measurement,
+    ...structure,
+    target: structure.sets * structure.setTarget,
+    completed: 0,
+  };
+};
+
+export const mapDailyRitualRow = (row: RituelRow): DailyRitual => ({
+  id: row.id,
+  programId: row.programme_id,
+  day: row.jour,
+  quote: row.citation || '',
+  exercises: [...row.rituel_exercices]
+    .sort((a, b) => a.ordre - b.ordre)
+    .map(entry =>
+      mapExerciseRow(entry.exercices, {
+        sets: entry.series,
+        setTarget: entry.objectif,
+        restSeconds: entry.repos_secondes,
+      })
+    ),
+  isCompleted: false,
+});
+
+// Maps every row, skipping (and logging) the ones that fail validation so a
+// single malformed program does not hide the whole catalogue
+const mapRows = <Row extends { id: string }, T>(rows: Row[], mapper: (row: Row) => T): T[] =>
+  rows.flatMap(row => {
+    try {
+      return [mapper(row)];
+    } catch (error) {
+      console.error(`Invalid row ${row.id}:`, error);
+      return [];
+    }
+  });
+
+export async function fetchPrograms(): Promise<Program[]> {
+  const { data, error } = await supabase
+    .from('programmes')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return mapRows(data || [], mapProgramRow);
+}
+
+export async function fetchDailyRituals(): Promise<DailyRitual[]> {
+  const { data, error } = await selectRituels();
+
+  if (error) throw error;
+  return mapRows(data || [], mapDailyRitualRow);
+}
@@ -0,0 +1,199 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { CheckInAnswers, EffortRating, ExerciseLogKind } from '@/types';
+
+// One queue per account, so another member signing in on the device never
+// replays progress that is not theirs
+const getStorageKey = (userId: string) => `mohero:progress-queue:${userId}`;
+
+// Single queue of earlier versions, handed to the first account that loads
+const LEGACY_STORAGE_KEY = 'mohero:progress-queue';
+
+// Operations the server refused, kept until the member has seen them
+const getFailedStorageKey = (userId: string) => `mohero:progress-failed:${userId}`;
+
+interface BaseOperation {
+  // Doubles as the idempotency key when the operation is replayed
+  id: string;
+  createdAt: string;
+  attempts: number;
+}
+
+export interface LogExerciseOperation extends BaseOperation {
+  type: 'log_exercise';
+  userProgramId: string;
+  day: number;
+  exerciseId: string;
+  kind: ExerciseLogKind;
+  undoneLogId: string | null;
+  reps: number | null;
+  seconds: number | null;
+  meters: number | null;
+}
+
+export interface CompleteDayOperation extends BaseOperation {
+  type: 'complete_day';
+  userProgramId: string;
+  day: number;
+}
+
+export interface RateDayOperation extends BaseOperation {
+  type: 'rate_day';
+  // Id of the complete_day operation, which is also the completion id
+  completionId: string;
+  effort: EffortRating;
+}
+
+export interface CheckInOperation extends BaseOperation {
+  type: 'check_in';
+  userProgramId: string;
+  day: number;
+  date: string;
+  answers: CheckInAnswers;
+}
+
+export type QueuedOperation =
+  | LogExerciseOperation
+  | CompleteDayOperation
+  | RateDayOperation
+  | CheckInOperation;
+
+export interface FailedOperation {
+  operation: QueuedOperation;
+  error: string;
+  failedAt: string;
+}
+
+type NewOperation =
+  | Omit<LogExerciseOperation, keyof BaseOperation>
+  | Omit<CompleteDayOperation, keyof BaseOperation>
+  | Omit<RateDayOperation, keyof BaseOperation>
+  | Omit<CheckInOperation, keyof BaseOperation>;
+
+// Serializes every read-modify-write of the stored queues
+let pending: Promise<unknown> = Promise.resolve();
+
+const withQueue = <T>(
+  userId: string,
+  task: (queue: QueuedOperation[]) => Promise<T>
+): Promise<T> => {
+  const run = pending.then(async () => task(await readQueue(userId)));
+  pending = run.catch(() => {});
+  return run;
+};
+
+const saveQueue = (userId: string, queue: QueuedOperation[]) =>
+  AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(queue));
+
+async function readQueue(userId: string): Promise<QueuedOperation[]> {
+  try {
+    const stored = await AsyncStorage.getItem(getStorageKey(userId));
+    if (stored) return JSON.parse(stored);
+
+    // Operations of another account are refused by the server and dropped
+    const legacy = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!legacy) return [];
+
+    const queue: QueuedOperation[] = JSON.parse(legacy);
+    await saveQueue(userId, queue);
+    await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+    return queue;
+  } catch (error) {
+    console.error('Failed to read progress queue:', error);
+    return [];
+  }
+}
+
+export const loadQueue = (userId: string): Promise<QueuedOperation[]> =>
+  withQueue(userId, async queue => queue);
+
+async function readFailed(userId: string): Promise<FailedOperation[]> {
+  try {
+    const stored = await AsyncStorage.getItem(getFailedStorageKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to read refused progress:', error);
+    return [];
+  }
+}
+
+export const loadFailedOperations = (userId: string): Promise<FailedOperation[]> =>
+  withQueue(userId, () => readFailed(userId));
+
+export const clearFailedOperations = (userId: string): Promise<void> =>
+  withQueue(userId, () => AsyncStorage.removeItem(getFailedStorageKey(userId)));
+
+export function enqueue(userId: string, operation: NewOperation): Promise<QueuedOperation> {
+  const queued = {
+    ...operation,
+    id: Crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  } as QueuedOperation;
+
+  return withQueue(userId, async queue => {
+    await saveQueue(userId, [...queue, queued]);
+    return queued;
+  });
+}
+
+// Errors replaying the operation again cannot fix: rejected data (22),
+// constraint (23) and permission (42) violations, errors raised by our
+// functions (P0) and requests PostgREST refuses. Network failures have no
+// code and are retried
+export const isPermanentFailure = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && /^(22|23|42|P0|PGRST[12])/.test(code);
+};
+
+const describeError = (error: unknown) => {
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' ? message : String(error);
+};
+
+// Replays operations in order and stops at the first retryable failure so
+// that a day is never completed on the server before the reps that led to
+// it. Operations failing permanently move to the failed list, read with
+// loadFailedOperations, so they do not block the ones behind them
+export function flushQueue(
+  userId: string,
+  replay: (operation: QueuedOperation) => Promise<void>
+): Promise<QueuedOperation[]> {
+  return withQueue(userId, async queue => {
+    let remaining = queue;
+
+    for (const operation of queue) {
+      try {
+        await replay(operation);
+        remaining = remaining.filter(op => op.id !== operation.id);
+        await saveQueue(userId, remaining);
+      } catch (error) {
+        if (isPermanentFailure(error)) {
+          const failed: FailedOperation = {
+            operation,
+            error: describeError(error),
+            failedAt: new Date().toISOString(),
+          };
+          await AsyncStorage.setItem(
+            getFailedStorageKey(userId),
+            JSON.stringify([...(await readFailed(userId)), failed])
+          );
+          remaining = remaining.filter(op => op.id !== operation.id);
+          await saveQueue(userId, remaining);
+          continue;
+        }
+
+        remaining = remaining.map(op =>
+          op.id === operation.id ? { ...op, attempts: op.attempts + 1 } : op
+        );
+        await saveQueue(userId, remaining);
+        break;
+      }
+    }
+
+    return remaining;
+  });
+}
+
+// Delay before the next replay attempt, capped at one minute
+export const getRetryDelay = (attempts: number) => Math.min(60000, 1000 * 2 ** attempts);
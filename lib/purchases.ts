@@ -0,0 +1,47 @@
+import { redeemReceipt } from '@/lib/entitlementRepository';
+import { createFakeStore } from '@/lib/fakeStore';
+import { PurchaseError, Store } from '@/lib/store';
+
+let store: Store | null | undefined;
+
+// The test store backs development builds and builds made with
+// EXPO_PUBLIC_STORE=test. No real store is wired yet and the server refuses
+// App Store and Google Play receipts, so other builds have no store and the
+// paywall says that purchases are unavailable
+export function getStore(): Store | null {
+  if (store === undefined) {
+    const useTestStore = __DEV__ || process.env.EXPO_PUBLIC_STORE === 'test';
+    store = useTestStore ? createFakeStore() : null;
+  }
+
+  return store;
+}
+
+const requireStore = (): Store => {
+  const current = getStore();
+  if (!current) throw new PurchaseError('unavailable', 'No store on this build');
+  return current;
+};
+
+// Buys a product and redeems its receipt; returns the unlocked program id
+export async function purchaseProduct(productId: string): Promise<string> {
+  const receipt = await requireStore().purchase(productId);
+  return redeemReceipt(receipt);
+}
+
+// Redeems the receipts of past purchases; returns the unlocked program ids.
+// Receipts that fail are logged and skipped so the others still count
+export async function restorePurchases(): Promise<string[]> {
+  const receipts = await requireStore().restore();
+  const programIds: string[] = [];
+
+  for (const receipt of receipts) {
+    try {
+      programIds.push(await redeemReceipt(receipt));
+    } catch (error) {
+      console.error('Failed to restore purchase:', error);
+    }
+  }
+
+  return programIds;
+}
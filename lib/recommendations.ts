@@ -0,0 +1,58 @@
+import { Program, ProgramDifficulty, UserProgram } from '@/types';
+
+const DIFFICULTY_ORDER: ProgramDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// Level to aim for: one step above the hardest program completed, beginner
+// without history
+export function getTargetDifficulty(
+  programs: Program[],
+  userPrograms: UserProgram[]
+): ProgramDifficulty {
+  const completedLevels = userPrograms
+    .filter(up => up.status === 'completed')
+    .map(up => programs.find(p => p.id === up.programId)?.difficulty)
+    .filter((difficulty): difficulty is ProgramDifficulty => difficulty != null)
+    .map(difficulty => DIFFICULTY_ORDER.indexOf(difficulty));
+
+  if (completedLevels.length === 0) return 'beginner';
+
+  const next = Math.min(Math.max(...completedLevels) + 1, DIFFICULTY_ORDER.length - 1);
+  return DIFFICULTY_ORDER[next];
+}
+
+const getDifficultyScore = (
+  difficulty: ProgramDifficulty | null,
+  target: ProgramDifficulty
+): number => {
+  if (!difficulty) return 1;
+
+  const gap = Math.abs(DIFFICULTY_ORDER.indexOf(difficulty) - DIFFICULTY_ORDER.indexOf(target));
+  return gap === 0 ? 2 : gap === 1 ? 1 : 0;
+};
+
+// Programs of the member's clan first, then those closest to their level.
+// Programs of other clans, already completed or currently followed are left
+// out
+export function getRecommendedPrograms(
+  programs: Program[],
+  userPrograms: UserProgram[],
+  clanId: string | null,
+  limit = 5
+): Program[] {
+  const target = getTargetDifficulty(programs, userPrograms);
+  const excluded = new Set(
+    userPrograms.filter(up => up.status !== 'abandoned').map(up => up.programId)
+  );
+
+  return programs
+    .filter(p => !excluded.has(p.id) && (p.clanId === null || p.clanId === clanId))
+    .map(program => ({
+      program,
+      score:
+        (clanId && program.clanId === clanId ? 3 : 0) +
+        getDifficultyScore(program.difficulty, target),
+    }))
+    .sort((a, b) => b.score - a.score || a.program.duration - b.program.duration)
+    .slice(0, limit)
+    .map(({ program }) => program);
+}
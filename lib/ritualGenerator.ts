@@ -0,0 +1,127 @@
+import {
+  ProgramDocument,
+  ProgramDocumentDay,
+  ProgramDocumentDayExercise,
+  ProgramDocumentPhase,
+  ProgramDocumentProgression,
+  ProgramDocumentTemplate,
+} from '@/lib/programFormat';
+
+export interface ResolvedDay extends ProgramDocumentDay {
+  phase: string | null; // title of the phase containing the day
+  generated: boolean; // false for days written in `days`
+}
+
+// 32-bit FNV-1a
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+
+  return value >>> 0;
+};
+
+// Mulberry32: seeded from the program slug and the day, so a document always
+// generates the same rituals wherever it is imported or previewed
+const createRandom = (seed: string) => {
+  let state = hash(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+};
+
+const applyProgression = (
+  entry: ProgramDocumentDayExercise,
+  step: number,
+  progression: ProgramDocumentProgression | undefined
+): ProgramDocumentDayExercise => {
+  const baseSets = entry.sets ?? 1;
+  const sets = baseSets + (progression?.sets ?? 0) * step;
+
+  return {
+    ...entry,
+    sets: Math.max(baseSets, Math.min(sets, progression?.maxSets ?? sets)),
+    target: Math.max(1, Math.round(entry.target * (1 + (progression?.target ?? 0) * step))),
+  };
+};
+
+function generateDay(
+  document: ProgramDocument,
+  phase: ProgramDocumentPhase,
+  template: ProgramDocumentTemplate,
+  day: number,
+  position: number // among the ritual days of the phase
+): ProgramDocumentDay {
+  const { slug } = document.program;
+  const step = Math.floor((day - phase.startDay) / (template.progression?.every ?? 1));
+
+  const drawn = shuffle(template.pool, createRandom(`${slug}:${day}`))
+    .slice(0, template.exercisesPerDay ?? template.pool.length);
+
+  // Drawn exercises keep the pool order so days read like the template
+  const exercises = [
+    ...template.pool
+      .filter(entry => drawn.includes(entry))
+      .map(entry => applyProgression(entry, step, template.progression)),
+    ...(template.always ?? []),
+  ];
+
+  // Quotes only repeat once the whole pool was used in the phase
+  const quotes = shuffle(template.quotes ?? document.quotes ?? [], createRandom(`${slug}:${phase.startDay}:quotes`));
+
+  return {
+    day,
+    quote: quotes.length > 0 ? quotes[position % quotes.length] : undefined,
+    exercises,
+  };
+}
+
+// Every ritual of a validated document: days written in `days`, the others
+// generated from the template of their phase. Rest days have no ritual
+export function resolveProgramDays(document: ProgramDocument): ResolvedDay[] {
+  const restDays = document.program.restDays ?? [];
+  const authoredDays = new Map((document.days ?? []).map(day => [day.day, day]));
+  const phases = document.phases ?? [];
+  const positions = new Map<ProgramDocumentPhase, number>();
+  const days: ResolvedDay[] = [];
+
+  for (let day = 1; day <= document.program.duration; day++) {
+    if (restDays.includes(day)) continue;
+
+    const phase = phases.find(p => day >= p.startDay && day <= p.endDay);
+    const position = phase ? positions.get(phase) ?? 0 : 0;
+    if (phase) positions.set(phase, position + 1);
+
+    const authoredDay = authoredDays.get(day);
+
+    if (authoredDay) {
+      days.push({ ...authoredDay, phase: phase?.title ?? null, generated: false });
+    } else if (phase?.template) {
+      days.push({
+        ...generateDay(document, phase, phase.template, day, position),
+        phase: phase.title,
+        generated: true,
+      });
+    }
+  }
+
+  return days;
+}
@@ -0,0 +1,107 @@
+import { addDays, daysBetween } from '@/lib/dates';
+import { Program, UserProgram } from '@/types';
+
+// Mirrors complete_ritual_day so the app shows the same progression offline
+
+export const isRestDay = (program: Program, day: number) =>
+  program.schedule.restDays.includes(day);
+
+// Rest days take a calendar day each, pushing the next ritual back
+const skipRestDays = (program: Program, day: number, unlocksOn: string) => {
+  let nextDay = day;
+  let nextUnlocksOn = unlocksOn;
+
+  while (isRestDay(program, nextDay)) {
+    nextDay += 1;
+    nextUnlocksOn = addDays(nextUnlocksOn, 1);
+  }
+
+  return { day: nextDay, unlocksOn: nextUnlocksOn };
+};
+
+const getPhaseStartDay = (program: Program, day: number) =>
+  program.details.phases.reduce(
+    (start, phase) =>
+      phase.startDay !== null && phase.startDay <= day ? Math.max(start, phase.startDay) : start,
+    1
+  );
+
+// Applies the missed-day policy of the program as of `today`
+export function settleMissedDays(
+  program: Program,
+  userProgram: UserProgram,
+  today: string
+): UserProgram {
+  const { unlocksOn } = userProgram;
+
+  // Paused enrollments do not miss days
+  if (
+    userProgram.status !== 'active' ||
+    !unlocksOn ||
+    today <= unlocksOn ||
+    program.schedule.missedDayPolicy === 'hold'
+  ) {
+    return userProgram;
+  }
+
+  const day = program.schedule.missedDayPolicy === 'skip'
+    ? userProgram.currentDay + daysBetween(unlocksOn, today)
+    : getPhaseStartDay(program, userProgram.currentDay);
+  const next = skipRestDays(program, day, today);
+  const currentDay = Math.min(next.day, program.duration + 1);
+  const completed = currentDay > program.duration;
+
+  return {
+    ...userProgram,
+    status: completed ? 'completed' : userProgram.status,
+    currentDay,
+    completed,
+    unlocksOn: next.unlocksOn,
+  };
+}
+
+// Moves past `currentDay` completed on `completedOn`; the next ritual unlocks
+// the following calendar day at the earliest
+export function advanceSchedule(
+  program: Program,
+  userProgram: UserProgram,
+  completedOn: string
+): UserProgram {
+  const next = skipRestDays(program, userProgram.currentDay + 1, addDays(completedOn, 1));
+  const completed = next.day > program.duration;
+
+  return {
+    ...userProgram,
+    status: completed ? 'completed' : userProgram.status,
+    currentDay: Math.min(next.day, program.duration + 1),
+    completed,
+    unlocksOn: next.unlocksOn,
+  };
+}
+
+export interface ScheduleStatus {
+  state: 'available' | 'locked' | 'finished';
+  unlocksInDays: number;
+  isRestDay: boolean; // Today is one of the rest days before the next ritual
+}
+
+export function getScheduleStatus(
+  program: Program,
+  userProgram: UserProgram,
+  today: string
+): ScheduleStatus {
+  if (userProgram.completed || userProgram.currentDay > program.duration) {
+    return { state: 'finished', unlocksInDays: 0, isRestDay: false };
+  }
+
+  const unlocksInDays = userProgram.unlocksOn
+    ? Math.max(0, daysBetween(today, userProgram.unlocksOn))
+    : 0;
+
+  return {
+    state: unlocksInDays > 0 ? 'locked' : 'available',
+    unlocksInDays,
+    // The program day falling on today, while waiting for currentDay
+    isRestDay: unlocksInDays > 0 && isRestDay(program, userProgram.currentDay - unlocksInDays),
+  };
+}
@@ -0,0 +1,22 @@
+import { Exercise } from '@/types';
+
+export interface SetStatus {
+  currentSet: number; // 1-based, stays on the last set once the exercise is done
+  setsDone: number;
+  remaining: number; // left to log in the current set
+  isDone: boolean;
+}
+
+// Logs only record amounts, so sets are derived from the total logged today
+export function getSetStatus({ sets, setTarget, target, completed }: Exercise): SetStatus {
+  const isDone = completed >= target;
+  const setsDone = Math.min(Math.floor(completed / setTarget), sets);
+  const currentSet = Math.min(setsDone + 1, sets);
+
+  return {
+    currentSet,
+    setsDone,
+    remaining: isDone ? 0 : setTarget - (completed - setsDone * setTarget),
+    isDone,
+  };
+}
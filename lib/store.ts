@@ -0,0 +1,34 @@
+// Stores as known by `public.boutiques`
+export type StoreCode = 'app_store' | 'play_store' | 'test';
+
+export interface StoreProduct {
+  id: string;
+  title: string;
+  price: string; // formatted by the store, e.g. "29,99 €"
+}
+
+export interface PurchaseReceipt {
+  store: StoreCode;
+  productId: string;
+  transactionId: string;
+  purchasedAt: string; // ISO timestamp
+}
+
+export type PurchaseErrorCode = 'unavailable' | 'cancelled' | 'declined' | 'invalid_receipt';
+
+export class PurchaseError extends Error {
+  constructor(public readonly code: PurchaseErrorCode, message: string) {
+    super(message);
+    this.name = 'PurchaseError';
+  }
+}
+
+// What the app needs from a store; receipts are verified and redeemed
+// server-side
+export interface Store {
+  code: StoreCode;
+  getProducts: (productIds: string[]) => Promise<StoreProduct[]>;
+  purchase: (productId: string) => Promise<PurchaseReceipt>;
+  // Receipts of past purchases, to unlock them again on a new device
+  restore: () => Promise<PurchaseReceipt[]>;
+}
@@ -0,0 +1,47 @@
+import { daysBetween, toLocalDay } from '@/lib/dates';
+import { Streak } from '@/types';
+import { Tables } from '@/types/database';
+
+export const EMPTY_STREAK: Streak = {
+  current: 0,
+  longest: 0,
+  lastCompletedOn: null,
+};
+
+export const mapStreakRow = (row: Tables<'user_streaks'> | null): Streak =>
+  row
+    ? {
+        current: row.current_streak,
+        longest: row.longest_streak,
+        lastCompletedOn: row.last_completed_on,
+      }
+    : EMPTY_STREAK;
+
+export interface StreakStatus {
+  current: number;
+  longest: number;
+  missedDays: number; // Days without a completion since the last one, today excluded
+  completedToday: boolean;
+}
+
+// The snapshot is only refreshed on completion, so a streak broken by missed
+// days is detected here against today's date in the user's time zone
+export function getStreakStatus(
+  streak: Streak,
+  timeZone: string,
+  now: Date = new Date()
+): StreakStatus {
+  if (!streak.lastCompletedOn) {
+    return { current: 0, longest: streak.longest, missedDays: 0, completedToday: false };
+  }
+
+  const elapsed = daysBetween(streak.lastCompletedOn, toLocalDay(now, timeZone));
+  const missedDays = Math.max(0, elapsed - 1);
+
+  return {
+    current: missedDays > 0 ? 0 : streak.current,
+    longest: streak.longest,
+    missedDays,
+    completedToday: elapsed <= 0,
+  };
+}
@@ -0,0 +1,40 @@
+import 'react-native-url-polyfill/auto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/types/database';
+
+const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+
+const getConfigErrors = (): string[] => {
+  const errors: string[] = [];
+
+  if (!supabaseUrl) {
+    errors.push('EXPO_PUBLIC_SUPABASE_URL est manquante');
+  } else if (!/^https?:\/\/\S+$/.test(supabaseUrl)) {
+    errors.push('EXPO_PUBLIC_SUPABASE_URL doit être une URL http(s) valide');
+  }
+
+  if (!supabaseAnonKey) {
+    errors.push('EXPO_PUBLIC_SUPABASE_ANON_KEY est manquante');
+  }
+
+  return errors;
+};
+
+// Checked once at startup; the root layout renders these instead of the app
+export const supabaseConfigErrors = getConfigErrors();
+
+// Placeholders keep the client constructible so the error screen can render
+export const supabase = createClient<Database>(
+  supabaseUrl || 'http://localhost',
+  supabaseAnonKey || 'missing-anon-key',
+  {
+    auth: {
+      storage: AsyncStorage,
+      autoRefreshToken: true,
+      persistSession: true,
+      detectSessionInUrl: false,
+    },
+  }
+);
@@ -0,0 +1,42 @@
+import { supabase } from '@/lib/supabase';
+import { EffortRating } from '@/types';
+
+// Multiplier of each exercise target keyed by exercise id; exercises the
+// member never rated keep the program targets
+export type TargetMultipliers = Record<string, number>;
+
+const toMultipliers = (rows: { exercice_id: string; multiplier: number }[]): TargetMultipliers =>
+  Object.fromEntries(rows.map(row => [row.exercice_id, Number(row.multiplier)]));
+
+export async function fetchTargetMultipliers(programId: string): Promise<TargetMultipliers> {
+  const { data, error } = await supabase
+    .from('user_target_adjustments')
+    .select('exercice_id, multiplier')
+    .eq('programme_id', programId);
+
+  if (error) throw error;
+  return toMultipliers(data || []);
+}
+
+// Rates a completed day and returns the multipliers of its program once the
+// server scaled them
+export async function rateRitualDay(
+  completionId: string,
+  effort: EffortRating
+): Promise<{ programId: string | null; multipliers: TargetMultipliers }> {
+  const { data, error } = await supabase.rpc('rate_ritual_day', {
+    p_completion_id: completionId,
+    p_effort: effort,
+  });
+
+  if (error) throw error;
+
+  return {
+    programId: data?.[0]?.programme_id ?? null,
+    multipliers: toMultipliers(data || []),
+  };
+}
+
+// Target of one set for a member, never below one
+export const scaleTarget = (setTarget: number, multiplier = 1) =>
+  Math.max(1, Math.round(setTarget * multiplier));
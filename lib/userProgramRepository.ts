@@ -0,0 +1,106 @@
+import { supabase } from '@/lib/supabase';
+import { EnrollmentStatus, Streak, UserProgram } from '@/types';
+import { Tables } from '@/types/database';
+
+export type UserProgramRow = Tables<'user_programs'>;
+
+const STATUSES: EnrollmentStatus[] = ['active', 'paused', 'abandoned', 'completed'];
+
+const toStatus = (value: string): EnrollmentStatus => {
+  const status = STATUSES.find(s => s === value);
+  if (!status) throw new Error(`Unknown enrollment status "${value}"`);
+  return status;
+};
+
+const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+export const mapUserProgramRow = (row: UserProgramRow): UserProgram => ({
+  id: row.id,
+  programId: row.programme_id,
+  status: toStatus(row.status),
+  startDate: new Date(row.start_date),
+  currentDay: row.current_day,
+  completed: row.completed,
+  unlocksOn: row.unlocks_on,
+  pausedAt: toDate(row.paused_at),
+  abandonedAt: toDate(row.abandoned_at),
+  completedAt: toDate(row.completed_at),
+  updatedAt: new Date(row.updated_at ?? row.start_date),
+});
+
+// Most recently touched enrollments first
+export async function fetchUserPrograms(userId: string): Promise<UserProgram[]> {
+  const { data, error } = await supabase
+    .from('user_programs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapUserProgramRow);
+}
+
+// Enrollments are created server-side, which refuses premium programs the
+// member is not entitled to
+export async function createUserProgram(programId: string): Promise<UserProgram> {
+  const { data, error } = await supabase
+    .rpc('enroll_in_program', { p_programme_id: programId })
+    .single();
+
+  if (error) throw error;
+  return mapUserProgramRow(data);
+}
+
+// Progress columns are server-owned, so state changes go through an RPC.
+// Setting an active enrollment to 'active' again only touches it
+export async function setEnrollmentStatus(
+  userProgramId: string,
+  status: Exclude<EnrollmentStatus, 'completed'>
+): Promise<UserProgram> {
+  const { data, error } = await supabase
+    .rpc('set_enrollment_status', { p_user_program_id: userProgramId, p_status: status })
+    .single();
+
+  if (error) throw error;
+  return mapUserProgramRow(data);
+}
+
+export interface RitualDayCompletion {
+  currentDay: number;
+  completed: boolean;
+  unlocksOn: string | null;
+  totalDaysCompleted: number;
+  streak: Streak;
+}
+
+// Completes `day` server-side, dated at `completedAt`; replaying the same
+// `completionId` is harmless
+export async function completeRitualDay(
+  completionId: string,
+  userProgramId: string,
+  day: number,
+  completedAt: string
+): Promise<RitualDayCompletion> {
+  const { data, error } = await supabase
+    .rpc('complete_ritual_day', {
+      p_completion_id: completionId,
+      p_user_program_id: userProgramId,
+      p_day: day,
+      p_completed_at: completedAt,
+    })
+    .single();
+
+  if (error) throw error;
+
+  return {
+    currentDay: data.current_day,
+    completed: data.completed,
+    unlocksOn: data.unlocks_on,
+    totalDaysCompleted: data.total_days_completed,
+    streak: {
+      current: data.current_streak,
+      longest: data.longest_streak,
+      lastCompletedOn: data.last_completed_on,
+    },
+  };
+}
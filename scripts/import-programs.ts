@@ -0,0 +1,69 @@
+import { createClient } from '@supabase/supabase-js';
+import { toImportPayload } from '@/lib/programFormat';
+import { Database } from '@/types/database';
+import { listFiles, loadDocuments } from '@/scripts/programFiles';
+
+// Validates program files and imports them into Supabase.
+//
+//   npm run import:programs -- [--dry-run] <file or directory>...
+//
+// Directories are read for .json, .yaml and .yml files. Nothing is imported
+// unless every file is valid; --dry-run stops after validation. Importing
+// needs SUPABASE_URL (or EXPO_PUBLIC_SUPABASE_URL) and
+// SUPABASE_SERVICE_ROLE_KEY in the environment.
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const targets = args.filter(arg => arg !== '--dry-run');
+
+  if (targets.length === 0) {
+    console.error('Usage: npm run import:programs -- [--dry-run] <file or directory>...');
+    return 1;
+  }
+
+  const files = (await Promise.all(targets.map(listFiles))).flat();
+  const { documents, failures } = await loadDocuments(files);
+
+  if (failures > 0) {
+    console.error(`\n${failures} invalid file(s), nothing was imported`);
+    return 1;
+  }
+
+  if (dryRun) return 0;
+
+  const url = process.env.SUPABASE_URL ?? process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceRoleKey) {
+    console.error('SUPABASE_URL (or EXPO_PUBLIC_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY are required to import');
+    return 1;
+  }
+
+  const supabase = createClient<Database>(url, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  // Each program is imported in its own transaction
+  for (const { file, document } of documents) {
+    const { data, error } = await supabase.rpc('import_programme', {
+      p_document: toImportPayload(document),
+    });
+
+    if (error) {
+      console.error(`Failed to import ${file}: ${error.message}`);
+      return 1;
+    }
+
+    console.log(`Imported ${document.program.slug}: ${data[0]?.rituels ?? 0} rituals`);
+  }
+
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,98 @@
+import { formatAmount } from '@/lib/measurements';
+import { ProgramDocument, toImportPayload } from '@/lib/programFormat';
+import { resolveProgramDays } from '@/lib/ritualGenerator';
+import { BUILT_IN_MEASUREMENTS, loadDocuments } from '@/scripts/programFiles';
+
+// Prints every ritual of a program file, generated ones included, as it
+// would be imported. Nothing is written.
+//
+//   npm run preview:program -- <file> [--day <n>] [--json]
+//
+// --day only prints one day, --json prints the payload sent to Supabase.
+
+function printDays(document: ProgramDocument, onlyDay: number | null) {
+  const { program } = document;
+  const days = resolveProgramDays(document);
+  const restDays = program.restDays ?? [];
+  const exercises = new Map((document.exercises ?? []).map(exercise => [exercise.slug, exercise]));
+  const generated = days.filter(day => day.generated).length;
+  const unknown = [...new Set(days.flatMap(day => day.exercises.map(entry => entry.exercise)))]
+    .filter(slug => !exercises.has(slug) && !(slug in BUILT_IN_MEASUREMENTS));
+
+  console.log(
+    `\n${program.title} (${program.slug}): ${program.duration} days, ` +
+      `${days.length} rituals of which ${generated} generated, ${restDays.length} rest days`
+  );
+
+  if (unknown.length > 0) {
+    console.warn(`Not declared in the file, shown without their unit: ${unknown.join(', ')}`);
+  }
+
+  let phase: string | null | undefined;
+
+  for (let day = 1; day <= program.duration; day++) {
+    if (onlyDay !== null && day !== onlyDay) continue;
+
+    const ritual = days.find(d => d.day === day);
+    const dayPhase = document.phases?.find(p => day >= p.startDay && day <= p.endDay)?.title ?? null;
+
+    if (dayPhase !== phase) {
+      phase = dayPhase;
+      console.log(`\n${phase ?? 'Outside phases'}`);
+    }
+
+    if (!ritual) {
+      console.log(`  Day ${day}: rest`);
+      continue;
+    }
+
+    console.log(`  Day ${day}${ritual.generated ? ' (generated)' : ''}`);
+    if (ritual.quote) console.log(`    "${ritual.quote}"`);
+
+    ritual.exercises.forEach(entry => {
+      const exercise = exercises.get(entry.exercise);
+      const measurement = exercise ? exercise.measurement ?? 'reps' : BUILT_IN_MEASUREMENTS[entry.exercise];
+      const target = measurement ? formatAmount(measurement, entry.target) : entry.target;
+
+      console.log(
+        `    ${(exercise?.name ?? entry.exercise).padEnd(24)} ` +
+          `${entry.sets ?? 1} × ${target}, rest ${entry.restSeconds ?? 60} s`
+      );
+    });
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const dayIndex = args.indexOf('--day');
+  const onlyDay = dayIndex === -1 ? null : Number(args[dayIndex + 1]);
+  const files = args.filter(
+    (arg, index) => !arg.startsWith('--') && (dayIndex === -1 || index !== dayIndex + 1)
+  );
+
+  if (files.length !== 1 || (onlyDay !== null && !Number.isInteger(onlyDay))) {
+    console.error('Usage: npm run preview:program -- <file> [--day <n>] [--json]');
+    return 1;
+  }
+
+  const { documents } = await loadDocuments(files, { quiet: json });
+  if (documents.length === 0) return 1;
+
+  const { document } = documents[0];
+
+  if (json) {
+    console.log(JSON.stringify(toImportPayload(document), null, 2));
+  } else {
+    printDays(document, onlyDay);
+  }
+
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,84 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import {
+  formatProgramError,
+  ProgramDocument,
+  validateProgramDocument,
+} from '@/lib/programFormat';
+import { resolveProgramDays } from '@/lib/ritualGenerator';
+import { ExerciseMeasurement } from '@/types';
+
+// Program files of the content format, shared by the import and preview scripts
+
+const EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Exercises of the database that files can use without declaring them, as
+// seeded by the migrations
+export const BUILT_IN_MEASUREMENTS: Record<string, ExerciseMeasurement> = {
+  squats: 'reps',
+  pushups: 'reps',
+  plank: 'seconds',
+  breath: 'breaths',
+  burpees: 'reps',
+  lunges: 'reps',
+};
+
+// Files of a target path. A missing path is kept so that it is reported
+// along with the invalid files
+export async function listFiles(target: string): Promise<string[]> {
+  const stats = await stat(target).catch(() => null);
+  if (!stats?.isDirectory()) return [target];
+
+  const entries = await readdir(target);
+
+  return entries
+    .filter(entry => EXTENSIONS.includes(path.extname(entry)))
+    .sort()
+    .map(entry => path.join(target, entry));
+}
+
+const describeReadError = (error: unknown): string => {
+  if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') return 'No such file or directory';
+  return error instanceof Error ? error.message : String(error);
+};
+
+async function parseFile(file: string): Promise<unknown> {
+  const content = await readFile(file, 'utf8');
+
+  return path.extname(file) === '.json' ? JSON.parse(content) : parseYaml(content);
+}
+
+// Parses and validates files, printing their errors. Quiet skips valid files
+export async function loadDocuments(files: string[], options: { quiet?: boolean } = {}) {
+  const documents: { file: string; document: ProgramDocument }[] = [];
+  let failures = 0;
+
+  for (const file of files) {
+    let value: unknown;
+
+    try {
+      value = await parseFile(file);
+    } catch (error) {
+      console.error(`✗ ${file}\n  ${describeReadError(error)}`);
+      failures++;
+      continue;
+    }
+
+    const { document, errors } = validateProgramDocument(value);
+
+    if (!document) {
+      console.error(`✗ ${file}`);
+      errors.forEach(error => console.error(`  ${formatProgramError(error)}`));
+      failures++;
+      continue;
+    }
+
+    if (!options.quiet) {
+      console.log(`✓ ${file} (${document.program.slug}, ${resolveProgramDays(document).length} rituals)`);
+    }
+    documents.push({ file, document });
+  }
+
+  return { documents, failures };
+}
@@ -0,0 +1,136 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Stores as known by `public.boutiques`
+type StoreCode = 'app_store' | 'play_store' | 'test';
+
+interface Receipt {
+  store: StoreCode;
+  productId: string;
+  transactionId: string;
+  purchasedAt: string; // ISO timestamp
+}
+
+// What the store confirmed about a purchase
+interface VerifiedPurchase {
+  productId: string;
+  transactionId: string;
+  purchasedAt: string;
+}
+
+// Codes the app maps to its `PurchaseError`
+type ReceiptErrorCode = 'invalid_receipt' | 'unavailable';
+
+class ReceiptError extends Error {
+  constructor(public readonly code: ReceiptErrorCode, message: string) {
+    super(message);
+    this.name = 'ReceiptError';
+  }
+}
+
+const STORE_CODES: StoreCode[] = ['app_store', 'play_store', 'test'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+const parseReceipt = (body: unknown): Receipt => {
+  const candidate = body as Partial<Receipt> | null;
+
+  if (
+    !candidate ||
+    !STORE_CODES.includes(candidate.store as StoreCode) ||
+    !isNonEmptyString(candidate.productId) ||
+    !isNonEmptyString(candidate.transactionId) ||
+    !isNonEmptyString(candidate.purchasedAt) ||
+    Number.isNaN(Date.parse(candidate.purchasedAt))
+  ) {
+    throw new ReceiptError('invalid_receipt', 'Malformed receipt');
+  }
+
+  return candidate as Receipt;
+};
+
+// The test store takes no payment, so there is nothing to check its receipts
+// against: they are only accepted by projects setting TEST_STORE_ENABLED
+const verifyTestReceipt = async (receipt: Receipt): Promise<VerifiedPurchase> => {
+  if (Deno.env.get('TEST_STORE_ENABLED') !== 'true') {
+    throw new ReceiptError('unavailable', 'The test store is disabled');
+  }
+
+  return {
+    productId: receipt.productId,
+    transactionId: receipt.transactionId,
+    purchasedAt: receipt.purchasedAt,
+  };
+};
+
+// App Store and Google Play receipts are to be checked with the App Store
+// Server API and the Google Play Developer API; until then they are refused
+const refuseReceipt = async (receipt: Receipt): Promise<VerifiedPurchase> => {
+  throw new ReceiptError('unavailable', `Receipts of ${receipt.store} cannot be verified yet`);
+};
+
+const verifiers: Record<StoreCode, (receipt: Receipt) => Promise<VerifiedPurchase>> = {
+  app_store: refuseReceipt,
+  play_store: refuseReceipt,
+  test: verifyTestReceipt,
+};
+
+// Checks the receipt sent by the app with its store, then records the
+// entitlement of the caller. Responds with the unlocked program
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const caller = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: request.headers.get('Authorization') ?? '' } },
+  });
+
+  const { data: { user } } = await caller.auth.getUser();
+  if (!user) {
+    return json({ code: 'unauthorized', message: 'Not authenticated' }, 401);
+  }
+
+  try {
+    const receipt = parseReceipt(await request.json().catch(() => null));
+    const purchase = await verifiers[receipt.store](receipt);
+
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { data, error } = await admin
+      .rpc('redeem_verified_receipt', {
+        p_user_id: user.id,
+        p_store: receipt.store,
+        p_product_id: purchase.productId,
+        p_transaction_id: purchase.transactionId,
+        p_purchased_at: purchase.purchasedAt,
+      })
+      .single();
+
+    // Closed stores, unknown products and receipts of another member
+    if (error?.code === '22023' || error?.code === 'P0002') {
+      throw new ReceiptError('invalid_receipt', error.message);
+    }
+    if (error) throw error;
+
+    return json(data);
+  } catch (error) {
+    if (error instanceof ReceiptError) {
+      return json({ code: error.code, message: error.message }, 400);
+    }
+
+    console.error('Failed to redeem receipt:', error);
+    return json({ code: 'internal', message: 'Receipt could not be redeemed' }, 500);
+  }
+});
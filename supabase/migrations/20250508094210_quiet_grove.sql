@@ -0,0 +1,233 @@
+/*
+  # Create program content tables
+
+  1. New Tables
+    - `programmes`
+      - `id` (uuid, primary key)
+      - `slug` (text, unique, stable identifier used by seeds)
+      - `nom` (text, required)
+      - `description` (text)
+      - `image_url` (text)
+      - `duree_jours` (integer, required)
+      - `type` (text, 'Découverte' or 'Premium')
+      - `tags` (jsonb, list of focus tags)
+      - `clan_id` (uuid)
+      - `niveau_difficulte` (text)
+      - `resultats` (jsonb, list of expected benefits)
+      - `parcours_resume` (jsonb, list of phases with `titre` and `description`)
+      - `created_at` (timestamp with timezone)
+    - `exercices`
+      - `id` (uuid, primary key)
+      - `slug` (text, unique)
+      - `nom` (text, required)
+      - `description` (text)
+      - `image_url` (text)
+      - `video_url` (text)
+      - `created_at` (timestamp with timezone)
+    - `rituels`
+      - `id` (uuid, primary key)
+      - `programme_id` (uuid, references programmes)
+      - `jour` (integer, day number within the program)
+      - `citation` (text)
+      - `created_at` (timestamp with timezone)
+    - `rituel_exercices`
+      - `rituel_id` (uuid, references rituels)
+      - `exercice_id` (uuid, references exercices)
+      - `ordre` (integer, position in the ritual)
+      - `objectif_reps` (integer, target for the day)
+
+  2. Security
+    - Enable RLS on all content tables
+    - Add policies for public read access
+
+  3. Seed data
+    - The three programs, six exercises and seven Marée du Crocodile rituals
+      previously hardcoded in the app
+*/
+
+CREATE TABLE IF NOT EXISTS public.programmes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text UNIQUE,
+  nom text NOT NULL,
+  description text,
+  image_url text,
+  duree_jours integer NOT NULL,
+  type text NOT NULL,
+  tags jsonb DEFAULT '[]'::jsonb,
+  clan_id uuid,
+  niveau_difficulte text,
+  resultats jsonb DEFAULT '[]'::jsonb,
+  parcours_resume jsonb DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.exercices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text UNIQUE NOT NULL,
+  nom text NOT NULL,
+  description text,
+  image_url text,
+  video_url text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.rituels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  programme_id uuid NOT NULL REFERENCES public.programmes(id) ON DELETE CASCADE,
+  jour integer NOT NULL CHECK (jour > 0),
+  citation text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (programme_id, jour)
+);
+
+CREATE TABLE IF NOT EXISTS public.rituel_exercices (
+  rituel_id uuid NOT NULL REFERENCES public.rituels(id) ON DELETE CASCADE,
+  exercice_id uuid NOT NULL REFERENCES public.exercices(id) ON DELETE RESTRICT,
+  ordre integer NOT NULL,
+  objectif_reps integer NOT NULL CHECK (objectif_reps > 0),
+  PRIMARY KEY (rituel_id, exercice_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.programmes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exercices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rituels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rituel_exercices ENABLE ROW LEVEL SECURITY;
+
+-- Allow public read access to program content
+CREATE POLICY "Allow public read access to programmes"
+  ON public.programmes
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Allow public read access to exercices"
+  ON public.exercices
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Allow public read access to rituels"
+  ON public.rituels
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Allow public read access to rituel_exercices"
+  ON public.rituel_exercices
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Insert programs
+INSERT INTO public.programmes (slug, nom, description, image_url, duree_jours, type, tags, resultats, parcours_resume)
+VALUES
+  (
+    'crocodile-tide',
+    'Marée du Crocodile',
+    'Un programme d''introduction pour développer force et mobilité à travers des mouvements fonctionnels.',
+    'https://images.pexels.com/photos/4162581/pexels-photo-4162581.jpeg',
+    7,
+    'Découverte',
+    '["Mobilité", "Force", "Respiration"]',
+    '[
+      "Amélioration de la mobilité des hanches et des épaules",
+      "Renforcement du core et du haut du corps",
+      "Meilleure respiration et récupération",
+      "Introduction aux mouvements fonctionnels"
+    ]',
+    '[
+      {"titre": "Éveil (Jours 1-2)", "description": "Préparer le corps avec des mouvements simples et des techniques de respiration."},
+      {"titre": "Force (Jours 3-5)", "description": "Développer la force fonctionnelle avec des mouvements composés."},
+      {"titre": "Intégration (Jours 6-7)", "description": "Combiner mobilité et force dans des séquences de mouvements fluides."}
+    ]'
+  ),
+  (
+    'jaguar-breath',
+    'Souffle du Jaguar',
+    'Un programme centré sur l''explosivité et la coordination pour les athlètes en devenir.',
+    'https://images.pexels.com/photos/6295721/pexels-photo-6295721.jpeg',
+    6,
+    'Découverte',
+    '["Explosivité", "Coordination", "Vitesse"]',
+    '[
+      "Amélioration de la puissance explosive",
+      "Meilleure coordination inter-musculaire",
+      "Augmentation de la vitesse de réaction",
+      "Développement de l''agilité"
+    ]',
+    '[
+      {"titre": "Activation (Jours 1-2)", "description": "Réveiller les chaînes musculaires avec des exercices de coordination."},
+      {"titre": "Puissance (Jours 3-4)", "description": "Développer l''explosivité avec des mouvements dynamiques."},
+      {"titre": "Vitesse (Jours 5-6)", "description": "Affiner la rapidité d''exécution et la précision des mouvements."}
+    ]'
+  ),
+  (
+    'mohero-origin',
+    'Mohero Origin',
+    'Le programme complet pour transformer votre corps et votre esprit à travers 42 jours d''entraînement tribal.',
+    'https://images.pexels.com/photos/2294361/pexels-photo-2294361.jpeg',
+    42,
+    'Premium',
+    '["Force", "Mobilité", "Endurance", "Équilibre"]',
+    '[
+      "Transformation complète du physique",
+      "Développement d''une force fonctionnelle durable",
+      "Amélioration drastique de la mobilité et de la posture",
+      "Endurance physique et mentale accrue",
+      "Connaissance approfondie des mouvements ancestraux"
+    ]',
+    '[
+      {"titre": "Fondation (Jours 1-10)", "description": "Construire les bases du mouvement fonctionnel et de la respiration."},
+      {"titre": "Élévation (Jours 11-25)", "description": "Intensifier le travail de force et développer l''endurance musculaire."},
+      {"titre": "Transformation (Jours 26-35)", "description": "Combiner les acquis en séquences complexes pour une intégration complète."},
+      {"titre": "Transcendance (Jours 36-42)", "description": "Dépasser ses limites et affiner son corps comme un outil parfait."}
+    ]'
+  )
+ON CONFLICT (slug) DO NOTHING;
+
+-- Insert exercises
+INSERT INTO public.exercices (slug, nom, description, image_url, video_url)
+VALUES
+  ('squats', 'Squats Profonds', 'Accroupissement complet avec alignement naturel', 'https://images.pexels.com/photos/4498482/pexels-photo-4498482.jpeg', 'https://example.com/videos/squats.mp4'),
+  ('pushups', 'Pompes', 'Pompes avec engagement du core et alignement parfait', 'https://images.pexels.com/photos/176782/pexels-photo-176782.jpeg', 'https://example.com/videos/pushups.mp4'),
+  ('plank', 'Planche Active', 'Maintien en position de planche avec engagement maximal', 'https://images.pexels.com/photos/866023/pexels-photo-866023.jpeg', 'https://example.com/videos/plank.mp4'),
+  ('breath', 'Respiration Tribale', 'Technique de respiration profonde avec rétention', 'https://images.pexels.com/photos/3771115/pexels-photo-3771115.jpeg', 'https://example.com/videos/breathing.mp4'),
+  ('burpees', 'Burpees', 'Mouvement explosif combinant squat, pompe et saut', 'https://images.pexels.com/photos/28080/pexels-photo.jpg', 'https://example.com/videos/burpees.mp4'),
+  ('lunges', 'Fentes Dynamiques', 'Fentes avec rotation du tronc et mobilité des hanches', 'https://images.pexels.com/photos/6456143/pexels-photo-6456143.jpeg', 'https://example.com/videos/lunges.mp4')
+ON CONFLICT (slug) DO NOTHING;
+
+-- Insert Marée du Crocodile rituals
+INSERT INTO public.rituels (programme_id, jour, citation)
+SELECT p.id, r.jour, r.citation
+FROM public.programmes p
+CROSS JOIN (
+  VALUES
+    (1, 'Le voyage commence par un simple pas. Aujourd''hui, nous réveillons la bête qui sommeille.'),
+    (2, 'La force vient de la répétition. Chaque mouvement te rapproche de ton but.'),
+    (3, 'Comme l''eau qui sculpte la pierre, ta persévérance façonne ton corps.'),
+    (4, 'L''équilibre entre effort et repos forge les guerriers les plus redoutables.'),
+    (5, 'Ta sueur d''aujourd''hui est ton armure de demain.'),
+    (6, 'Dans chaque mouvement réside la sagesse de tes ancêtres.'),
+    (7, 'Le dernier jour n''est que le début d''un nouveau cycle. Avance, guerrier.')
+) AS r(jour, citation)
+WHERE p.slug = 'crocodile-tide'
+ON CONFLICT (programme_id, jour) DO NOTHING;
+
+-- Link exercises to each ritual day
+INSERT INTO public.rituel_exercices (rituel_id, exercice_id, ordre, objectif_reps)
+SELECT r.id, e.id, x.ordre, x.objectif_reps
+FROM (
+  VALUES
+    (1, 'squats', 1, 100), (1, 'pushups', 2, 30), (1, 'breath', 3, 30),
+    (2, 'squats', 1, 100), (2, 'plank', 2, 120), (2, 'breath', 3, 30),
+    (3, 'squats', 1, 100), (3, 'pushups', 2, 30), (3, 'burpees', 3, 50), (3, 'breath', 4, 30),
+    (4, 'lunges', 1, 60), (4, 'plank', 2, 120), (4, 'breath', 3, 30),
+    (5, 'burpees', 1, 50), (5, 'pushups', 2, 30), (5, 'squats', 3, 100), (5, 'breath', 4, 30),
+    (6, 'squats', 1, 100), (6, 'pushups', 2, 30), (6, 'lunges', 3, 60), (6, 'breath', 4, 30),
+    (7, 'burpees', 1, 50), (7, 'lunges', 2, 60), (7, 'plank', 3, 120), (7, 'breath', 4, 30)
+) AS x(jour, exercice_slug, ordre, objectif_reps)
+JOIN public.programmes p ON p.slug = 'crocodile-tide'
+JOIN public.rituels r ON r.programme_id = p.id AND r.jour = x.jour
+JOIN public.exercices e ON e.slug = x.exercice_slug
+ON CONFLICT (rituel_id, exercice_id) DO NOTHING;
@@ -0,0 +1,131 @@
+/*
+  # Harden the programmes schema
+
+  1. Changes
+    - `tags`, `resultats` and `parcours_resume` are converted to jsonb when an
+      older database still stores them as (stringified) text or text arrays
+    - `slug` becomes required
+    - Add `publie` (boolean, default true) to hide drafts from the app
+    - Add `updated_at` (timestamp with timezone) maintained by trigger
+
+  2. Constraints
+    - `type` must be 'Découverte' or 'Premium'
+    - `duree_jours` must be positive
+    - `niveau_difficulte` must be 'Débutant', 'Intermédiaire' or 'Avancé'
+    - `tags` and `resultats` must be JSON arrays of strings
+    - `parcours_resume` must be a JSON array
+    - `clan_id` references `clans`
+
+  3. Security
+    - Replace the open read policy with one that only exposes published programs
+
+  4. Seed data
+    - Difficulty levels and clan affinities for the three initial programs
+*/
+
+-- Convert legacy text columns to jsonb
+DO $$
+DECLARE
+  col text;
+  col_type text;
+BEGIN
+  FOREACH col IN ARRAY ARRAY['tags', 'resultats', 'parcours_resume'] LOOP
+    SELECT data_type INTO col_type
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'programmes'
+      AND column_name = col;
+
+    IF col_type = 'ARRAY' THEN
+      EXECUTE format('ALTER TABLE public.programmes ALTER COLUMN %I DROP DEFAULT', col);
+      EXECUTE format(
+        'ALTER TABLE public.programmes ALTER COLUMN %1$I TYPE jsonb USING to_jsonb(%1$I)',
+        col
+      );
+    ELSIF col_type IS NOT NULL AND col_type <> 'jsonb' THEN
+      EXECUTE format('ALTER TABLE public.programmes ALTER COLUMN %I DROP DEFAULT', col);
+      EXECUTE format(
+        'ALTER TABLE public.programmes ALTER COLUMN %1$I TYPE jsonb
+           USING CASE WHEN %1$I IS NULL OR btrim(%1$I::text) = '''' THEN ''[]''::jsonb ELSE %1$I::text::jsonb END',
+        col
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+ALTER TABLE public.programmes
+  ADD COLUMN IF NOT EXISTS slug text UNIQUE,
+  ADD COLUMN IF NOT EXISTS publie boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+UPDATE public.programmes
+SET
+  slug = COALESCE(slug, lower(regexp_replace(nom, '[^a-zA-Z0-9]+', '-', 'g'))),
+  tags = COALESCE(tags, '[]'::jsonb),
+  resultats = COALESCE(resultats, '[]'::jsonb),
+  parcours_resume = COALESCE(parcours_resume, '[]'::jsonb);
+
+ALTER TABLE public.programmes
+  ALTER COLUMN slug SET NOT NULL,
+  ALTER COLUMN tags SET DEFAULT '[]'::jsonb,
+  ALTER COLUMN tags SET NOT NULL,
+  ALTER COLUMN resultats SET DEFAULT '[]'::jsonb,
+  ALTER COLUMN resultats SET NOT NULL,
+  ALTER COLUMN parcours_resume SET DEFAULT '[]'::jsonb,
+  ALTER COLUMN parcours_resume SET NOT NULL;
+
+-- Validates that a jsonb value is an array containing only strings
+CREATE OR REPLACE FUNCTION public.is_text_array(value jsonb)
+RETURNS boolean AS $$
+  SELECT jsonb_typeof(value) = 'array'
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(value) AS elem
+      WHERE jsonb_typeof(elem) <> 'string'
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Seed difficulty levels and clan affinities before constraints apply
+UPDATE public.programmes p
+SET
+  niveau_difficulte = s.niveau_difficulte,
+  clan_id = (SELECT c.id FROM public.clans c WHERE c.nom_clan = s.nom_clan)
+FROM (
+  VALUES
+    ('crocodile-tide', 'Débutant', 'OKWÁHO'),
+    ('jaguar-breath', 'Intermédiaire', 'EKLOA'),
+    ('mohero-origin', 'Avancé', NULL)
+) AS s(slug, niveau_difficulte, nom_clan)
+WHERE p.slug = s.slug;
+
+ALTER TABLE public.programmes
+  ADD CONSTRAINT programmes_type_check
+    CHECK (type IN ('Découverte', 'Premium')),
+  ADD CONSTRAINT programmes_duree_jours_check
+    CHECK (duree_jours > 0),
+  ADD CONSTRAINT programmes_niveau_difficulte_check
+    CHECK (niveau_difficulte IN ('Débutant', 'Intermédiaire', 'Avancé')),
+  ADD CONSTRAINT programmes_tags_check
+    CHECK (public.is_text_array(tags)),
+  ADD CONSTRAINT programmes_resultats_check
+    CHECK (public.is_text_array(resultats)),
+  ADD CONSTRAINT programmes_parcours_resume_check
+    CHECK (jsonb_typeof(parcours_resume) = 'array'),
+  ADD CONSTRAINT programmes_clan_id_fkey
+    FOREIGN KEY (clan_id) REFERENCES public.clans(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS programmes_clan_id_idx ON public.programmes (clan_id);
+
+-- Only expose published programs
+DROP POLICY IF EXISTS "Allow public read access to programmes" ON public.programmes;
+
+CREATE POLICY "Allow public read access to published programmes"
+  ON public.programmes
+  FOR SELECT
+  TO public
+  USING (publie);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_programmes_updated_at
+  BEFORE UPDATE ON public.programmes
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
@@ -0,0 +1,63 @@
+/*
+  # Create user_programs table for program enrollments
+
+  1. New Tables
+    - `user_programs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `programme_id` (uuid, references programmes)
+      - `start_date` (timestamp with timezone)
+      - `current_day` (integer, default 1)
+      - `completed` (boolean, default false)
+      - `created_at` (timestamp with timezone)
+      - `updated_at` (timestamp with timezone)
+
+  2. Security
+    - Enable RLS on `user_programs` table
+    - Add policies for authenticated users to:
+      - Read their own enrollments
+      - Create their own enrollments
+      - Update their own enrollments
+*/
+
+CREATE TABLE IF NOT EXISTS public.user_programs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users ON DELETE CASCADE,
+  programme_id uuid NOT NULL REFERENCES public.programmes(id) ON DELETE CASCADE,
+  start_date timestamptz NOT NULL DEFAULT now(),
+  current_day integer NOT NULL DEFAULT 1 CHECK (current_day > 0),
+  completed boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, programme_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_programs_user_id_idx ON public.user_programs (user_id);
+
+ALTER TABLE public.user_programs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own programs"
+  ON public.user_programs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own programs"
+  ON public.user_programs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own programs"
+  ON public.user_programs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_user_programs_updated_at
+  BEFORE UPDATE ON public.user_programs
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
@@ -0,0 +1,59 @@
+/*
+  # Create exercise_logs table for workout history
+
+  1. New Tables
+    - `exercise_logs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `user_program_id` (uuid, references user_programs)
+      - `jour` (integer, program day the work was done for)
+      - `exercice_id` (uuid, references exercices)
+      - `reps` (integer, repetitions performed)
+      - `secondes` (integer, seconds performed for timed exercises)
+      - `logged_at` (timestamp with timezone)
+
+  2. Constraints
+    - Exactly one of `reps` or `secondes` is set, and it is positive
+
+  3. Security
+    - Enable RLS on `exercise_logs` table
+    - Add policies for authenticated users to:
+      - Read their own logs
+      - Create their own logs
+*/
+
+CREATE TABLE IF NOT EXISTS public.exercise_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users ON DELETE CASCADE,
+  user_program_id uuid NOT NULL REFERENCES public.user_programs(id) ON DELETE CASCADE,
+  jour integer NOT NULL CHECK (jour > 0),
+  exercice_id uuid NOT NULL REFERENCES public.exercices(id) ON DELETE RESTRICT,
+  reps integer CHECK (reps > 0),
+  secondes integer CHECK (secondes > 0),
+  logged_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT exercise_logs_quantity_check CHECK ((reps IS NULL) <> (secondes IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS exercise_logs_user_program_day_idx
+  ON public.exercise_logs (user_program_id, jour);
+
+ALTER TABLE public.exercise_logs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own exercise logs"
+  ON public.exercise_logs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own exercise logs"
+  ON public.exercise_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.user_programs up
+      WHERE up.id = user_program_id AND up.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,36 @@
+/*
+  # Unify profile clan columns on clan_id
+
+  1. Changes
+    - Add `code` (text, unique) to `clans`: stable lowercase identifier
+      ('onotka', 'ekloa', 'okwaho') matching the legacy `profiles.clan` values
+    - Backfill `profiles.clan_id` from the legacy `profiles.clan` text column
+      for profiles that never went through clan selection
+    - Drop `profiles.clan`; `clan_id` is now the only source of truth and stays
+      null until the user picks a clan
+*/
+
+ALTER TABLE public.clans
+  ADD COLUMN IF NOT EXISTS code text UNIQUE;
+
+UPDATE public.clans
+SET code = CASE nom_clan
+  WHEN 'ONOTKA' THEN 'onotka'
+  WHEN 'EKLOA' THEN 'ekloa'
+  WHEN 'OKWÁHO' THEN 'okwaho'
+  ELSE lower(nom_clan)
+END
+WHERE code IS NULL;
+
+ALTER TABLE public.clans
+  ALTER COLUMN code SET NOT NULL;
+
+-- Profiles keep the clan picked during onboarding when both columns are set
+UPDATE public.profiles p
+SET clan_id = c.id
+FROM public.clans c
+WHERE p.clan_id IS NULL
+  AND c.code = p.clan;
+
+ALTER TABLE public.profiles
+  DROP COLUMN IF EXISTS clan;
@@ -0,0 +1,53 @@
+/*
+  # Create profiles from auth signups
+
+  1. New Functions
+    - `handle_new_user()`: inserts the `profiles` row for a new `auth.users`
+      row, reading `name` and optionally `clan_id` (uuid) or `clan` (clan
+      code) from the signup metadata
+
+  2. New Triggers
+    - `on_auth_user_created` on `auth.users` after insert, so the profile is
+      created in the same transaction as the account
+
+  3. Data
+    - Create the missing profiles of users who signed up but lost their
+      client-side profile insert
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, name, clan_id)
+  VALUES (
+    NEW.id,
+    COALESCE(
+      NULLIF(btrim(NEW.raw_user_meta_data->>'name'), ''),
+      split_part(NEW.email, '@', 1)
+    ),
+    (
+      SELECT c.id
+      FROM public.clans c
+      WHERE c.id::text = NEW.raw_user_meta_data->>'clan_id'
+        OR c.code = NEW.raw_user_meta_data->>'clan'
+      LIMIT 1
+    )
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+-- Backfill profiles for existing accounts
+INSERT INTO public.profiles (id, name)
+SELECT
+  u.id,
+  COALESCE(NULLIF(btrim(u.raw_user_meta_data->>'name'), ''), split_part(u.email, '@', 1))
+FROM auth.users u
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = u.id);
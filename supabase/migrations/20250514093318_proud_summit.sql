@@ -0,0 +1,114 @@
+/*
+  # Server-authoritative ritual day completion
+
+  1. New Tables
+    - `ritual_completions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `user_program_id` (uuid, references user_programs)
+      - `jour` (integer, completed program day)
+      - `completed_at` (timestamp with timezone)
+      - Unique on (`user_program_id`, `jour`) so a day counts once
+
+  2. New Functions
+    - `complete_ritual_day(p_user_program_id, p_day)`: validates that the
+      enrollment belongs to the caller and that `p_day` is its current day,
+      records the completion, advances the enrollment, increments
+      `profiles.total_days_completed` exactly once per day, and returns the
+      resulting state. Replaying an already completed day only returns the
+      current state.
+
+  3. Security
+    - Enable RLS on `ritual_completions` table
+    - Users can read their own completions; writes only go through the function
+*/
+
+CREATE TABLE IF NOT EXISTS public.ritual_completions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  user_program_id uuid NOT NULL REFERENCES public.user_programs(id) ON DELETE CASCADE,
+  jour integer NOT NULL CHECK (jour > 0),
+  completed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_program_id, jour)
+);
+
+CREATE INDEX IF NOT EXISTS ritual_completions_user_id_idx
+  ON public.ritual_completions (user_id, completed_at);
+
+ALTER TABLE public.ritual_completions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own ritual completions"
+  ON public.ritual_completions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.complete_ritual_day(
+  p_user_program_id uuid,
+  p_day integer
+)
+RETURNS TABLE (
+  current_day integer,
+  completed boolean,
+  total_days_completed integer
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_enrollment public.user_programs%ROWTYPE;
+  v_duration integer;
+  v_inserted integer;
+BEGIN
+  SELECT * INTO v_enrollment
+  FROM public.user_programs up
+  WHERE up.id = p_user_program_id
+    AND up.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Enrollment % not found', p_user_program_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT pr.duree_jours INTO v_duration
+  FROM public.programmes pr
+  WHERE pr.id = v_enrollment.programme_id;
+
+  IF p_day < 1 OR p_day > v_duration THEN
+    RAISE EXCEPTION 'Day % is outside of the program', p_day
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_day > v_enrollment.current_day THEN
+    RAISE EXCEPTION 'Day % is not unlocked yet', p_day
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_day = v_enrollment.current_day THEN
+    INSERT INTO public.ritual_completions (user_id, user_program_id, jour)
+    VALUES (v_enrollment.user_id, p_user_program_id, p_day)
+    ON CONFLICT (user_program_id, jour) DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    IF v_inserted > 0 THEN
+      UPDATE public.user_programs up
+      SET current_day = p_day + 1,
+          completed = p_day >= v_duration
+      WHERE up.id = p_user_program_id;
+
+      UPDATE public.profiles p
+      SET total_days_completed = COALESCE(p.total_days_completed, 0) + 1
+      WHERE p.id = v_enrollment.user_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT up.current_day, up.completed, COALESCE(p.total_days_completed, 0)
+  FROM public.user_programs up
+  JOIN public.profiles p ON p.id = up.user_id
+  WHERE up.id = p_user_program_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.complete_ritual_day(uuid, integer) FROM public;
+GRANT EXECUTE ON FUNCTION public.complete_ritual_day(uuid, integer) TO authenticated;
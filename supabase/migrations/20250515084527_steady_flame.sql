@@ -0,0 +1,201 @@
+/*
+  # Streak tracking
+
+  1. Changes
+    - Add `timezone` (text, IANA name, default 'UTC') to `profiles`: the
+      member's local time zone, reported by the app
+    - Add `completed_on` (date) to `ritual_completions`: the local calendar day
+      of the completion in the member's time zone. Existing rows are backfilled
+      in UTC
+
+  2. New Tables
+    - `user_streaks`
+      - `user_id` (uuid, primary key, references profiles)
+      - `current_streak` (integer, consecutive days ending on `last_completed_on`)
+      - `longest_streak` (integer)
+      - `last_completed_on` (date)
+      - `updated_at` (timestamp with timezone)
+
+  3. New Functions
+    - `refresh_user_streak(p_user_id)`: recomputes the snapshot from the
+      distinct `completed_on` days of the member
+    - `complete_ritual_day(p_user_program_id, p_day)` now stamps the local day
+      of the completion, refreshes the streak snapshot and also returns it
+
+  4. Security
+    - Enable RLS on `user_streaks` table
+    - Users can read their own streak; snapshots are only written by functions
+*/
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE public.ritual_completions
+  ADD COLUMN IF NOT EXISTS completed_on date;
+
+UPDATE public.ritual_completions
+SET completed_on = (completed_at AT TIME ZONE 'UTC')::date
+WHERE completed_on IS NULL;
+
+ALTER TABLE public.ritual_completions
+  ALTER COLUMN completed_on SET NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.user_streaks (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  current_streak integer NOT NULL DEFAULT 0 CHECK (current_streak >= 0),
+  longest_streak integer NOT NULL DEFAULT 0 CHECK (longest_streak >= current_streak),
+  last_completed_on date,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.user_streaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own streak"
+  ON public.user_streaks
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Consecutive days share the same (day - rank) value, which groups them into runs
+CREATE OR REPLACE FUNCTION public.refresh_user_streak(p_user_id uuid)
+RETURNS public.user_streaks AS $$
+DECLARE
+  v_streak public.user_streaks%ROWTYPE;
+BEGIN
+  WITH days AS (
+    SELECT DISTINCT rc.completed_on
+    FROM public.ritual_completions rc
+    WHERE rc.user_id = p_user_id
+  ),
+  runs AS (
+    SELECT
+      count(*)::integer AS length,
+      max(d.completed_on) AS last_day
+    FROM (
+      SELECT
+        completed_on,
+        completed_on - (row_number() OVER (ORDER BY completed_on))::integer AS run_key
+      FROM days
+    ) d
+    GROUP BY d.run_key
+  )
+  INSERT INTO public.user_streaks (user_id, current_streak, longest_streak, last_completed_on, updated_at)
+  SELECT
+    p_user_id,
+    COALESCE((SELECT r.length FROM runs r ORDER BY r.last_day DESC LIMIT 1), 0),
+    COALESCE((SELECT max(r.length) FROM runs r), 0),
+    (SELECT max(r.last_day) FROM runs r),
+    now()
+  ON CONFLICT (user_id) DO UPDATE
+  SET current_streak = EXCLUDED.current_streak,
+      longest_streak = EXCLUDED.longest_streak,
+      last_completed_on = EXCLUDED.last_completed_on,
+      updated_at = EXCLUDED.updated_at
+  RETURNING * INTO v_streak;
+
+  RETURN v_streak;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.refresh_user_streak(uuid) FROM public;
+
+-- The result columns change, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.complete_ritual_day(uuid, integer);
+
+CREATE FUNCTION public.complete_ritual_day(
+  p_user_program_id uuid,
+  p_day integer
+)
+RETURNS TABLE (
+  current_day integer,
+  completed boolean,
+  total_days_completed integer,
+  current_streak integer,
+  longest_streak integer,
+  last_completed_on date
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_enrollment public.user_programs%ROWTYPE;
+  v_duration integer;
+  v_timezone text;
+  v_inserted integer;
+BEGIN
+  SELECT * INTO v_enrollment
+  FROM public.user_programs up
+  WHERE up.id = p_user_program_id
+    AND up.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Enrollment % not found', p_user_program_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT pr.duree_jours INTO v_duration
+  FROM public.programmes pr
+  WHERE pr.id = v_enrollment.programme_id;
+
+  IF p_day < 1 OR p_day > v_duration THEN
+    RAISE EXCEPTION 'Day % is outside of the program', p_day
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_day > v_enrollment.current_day THEN
+    RAISE EXCEPTION 'Day % is not unlocked yet', p_day
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Unknown zone names fall back to UTC rather than failing the completion
+  SELECT COALESCE(tz.name, 'UTC') INTO v_timezone
+  FROM public.profiles p
+  LEFT JOIN pg_catalog.pg_timezone_names tz ON tz.name = p.timezone
+  WHERE p.id = v_enrollment.user_id;
+
+  IF p_day = v_enrollment.current_day THEN
+    INSERT INTO public.ritual_completions (user_id, user_program_id, jour, completed_on)
+    VALUES (
+      v_enrollment.user_id,
+      p_user_program_id,
+      p_day,
+      (now() AT TIME ZONE COALESCE(v_timezone, 'UTC'))::date
+    )
+    ON CONFLICT (user_program_id, jour) DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    IF v_inserted > 0 THEN
+      UPDATE public.user_programs up
+      SET current_day = p_day + 1,
+          completed = p_day >= v_duration
+      WHERE up.id = p_user_program_id;
+
+      UPDATE public.profiles p
+      SET total_days_completed = COALESCE(p.total_days_completed, 0) + 1
+      WHERE p.id = v_enrollment.user_id;
+
+      PERFORM public.refresh_user_streak(v_enrollment.user_id);
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    up.current_day,
+    up.completed,
+    COALESCE(p.total_days_completed, 0),
+    COALESCE(s.current_streak, 0),
+    COALESCE(s.longest_streak, 0),
+    s.last_completed_on
+  FROM public.user_programs up
+  JOIN public.profiles p ON p.id = up.user_id
+  LEFT JOIN public.user_streaks s ON s.user_id = up.user_id
+  WHERE up.id = p_user_program_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.complete_ritual_day(uuid, integer) FROM public;
+GRANT EXECUTE ON FUNCTION public.complete_ritual_day(uuid, integer) TO authenticated;
+
+-- Snapshots for members who completed days before streaks existed
+SELECT public.refresh_user_streak(rc.user_id)
+FROM (SELECT DISTINCT user_id FROM public.ritual_completions) rc;
@@ -0,0 +1,209 @@
+/*
+  # Calendar-aware day progression
+
+  1. Changes
+    - Add `jours_repos` (integer[]) to `programmes`: program days without a
+      ritual. A rest day still takes a calendar day
+    - Add `politique_jours_manques` (text) to `programmes`: what happens to an
+      enrollment whose next ritual was not done on the day it unlocked
+      - 'attente': the program waits for the member (default)
+      - 'saut': each missed calendar day moves the program one day forward
+      - 'reprise_phase': the member goes back to the start of the current phase
+    - Phases in `parcours_resume` get `jour_debut` and `jour_fin`, backfilled
+      from the "(Jours x-y)" suffix of their title
+    - Add `unlocks_on` (date) to `user_programs`: the local calendar day from
+      which `current_day` can be completed, null when it is available now
+    - `ritual_completions` are now keyed by the id sent by the client instead
+      of (`user_program_id`, `jour`), since restarting a phase completes the
+      same day again
+
+  2. New Functions
+    - `complete_ritual_day(p_completion_id, p_user_program_id, p_day, p_completed_at)`
+      replaces the previous version. It dates the completion at
+      `p_completed_at` (clamped to the last 7 days, so queued offline
+      completions keep their day), settles missed days with the program
+      policy, allows one day per calendar day, skips rest days, and also
+      returns `unlocks_on`
+*/
+
+ALTER TABLE public.programmes
+  ADD COLUMN IF NOT EXISTS jours_repos integer[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS politique_jours_manques text NOT NULL DEFAULT 'attente';
+
+ALTER TABLE public.programmes
+  ADD CONSTRAINT programmes_jours_repos_check
+    CHECK (0 < ALL (jours_repos) AND duree_jours >= ALL (jours_repos)),
+  ADD CONSTRAINT programmes_politique_jours_manques_check
+    CHECK (politique_jours_manques IN ('attente', 'saut', 'reprise_phase'));
+
+UPDATE public.programmes pr
+SET parcours_resume = (
+  SELECT COALESCE(jsonb_agg(
+    CASE
+      WHEN m IS NULL THEN ph.value
+      ELSE ph.value || jsonb_build_object('jour_debut', m[1]::integer, 'jour_fin', m[2]::integer)
+    END
+    ORDER BY ph.ordinality
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(pr.parcours_resume) WITH ORDINALITY ph(value, ordinality)
+  LEFT JOIN LATERAL regexp_match(ph.value->>'titre', 'Jours (\d+)-(\d+)') m ON true
+);
+
+ALTER TABLE public.user_programs
+  ADD COLUMN IF NOT EXISTS unlocks_on date;
+
+ALTER TABLE public.ritual_completions
+  DROP CONSTRAINT IF EXISTS ritual_completions_user_program_id_jour_key;
+
+CREATE INDEX IF NOT EXISTS ritual_completions_user_program_id_idx
+  ON public.ritual_completions (user_program_id, jour);
+
+DROP FUNCTION IF EXISTS public.complete_ritual_day(uuid, integer);
+
+CREATE FUNCTION public.complete_ritual_day(
+  p_completion_id uuid,
+  p_user_program_id uuid,
+  p_day integer,
+  p_completed_at timestamptz DEFAULT now()
+)
+RETURNS TABLE (
+  current_day integer,
+  completed boolean,
+  unlocks_on date,
+  total_days_completed integer,
+  current_streak integer,
+  longest_streak integer,
+  last_completed_on date
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_enrollment public.user_programs%ROWTYPE;
+  v_programme public.programmes%ROWTYPE;
+  v_timezone text;
+  v_completed_at timestamptz;
+  v_completed_on date;
+  v_next_day integer;
+  v_unlocks_on date;
+BEGIN
+  SELECT * INTO v_enrollment
+  FROM public.user_programs up
+  WHERE up.id = p_user_program_id
+    AND up.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Enrollment % not found', p_user_program_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_programme
+  FROM public.programmes pr
+  WHERE pr.id = v_enrollment.programme_id;
+
+  IF p_day < 1 OR p_day > v_programme.duree_jours THEN
+    RAISE EXCEPTION 'Day % is outside of the program', p_day
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- A replayed completion only returns the current state
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ritual_completions rc WHERE rc.id = p_completion_id
+  ) THEN
+    -- Unknown zone names fall back to UTC rather than failing the completion
+    SELECT COALESCE(tz.name, 'UTC') INTO v_timezone
+    FROM public.profiles p
+    LEFT JOIN pg_catalog.pg_timezone_names tz ON tz.name = p.timezone
+    WHERE p.id = v_enrollment.user_id;
+
+    v_completed_at := LEAST(now(), GREATEST(COALESCE(p_completed_at, now()), now() - interval '7 days'));
+    v_completed_on := (v_completed_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::date;
+
+    -- Missed days are settled against the day of this completion
+    IF NOT v_enrollment.completed
+      AND v_enrollment.unlocks_on IS NOT NULL
+      AND v_completed_on > v_enrollment.unlocks_on
+      AND v_programme.politique_jours_manques <> 'attente'
+    THEN
+      IF v_programme.politique_jours_manques = 'saut' THEN
+        v_enrollment.current_day := v_enrollment.current_day + (v_completed_on - v_enrollment.unlocks_on);
+      ELSE
+        v_enrollment.current_day := COALESCE((
+          SELECT max((ph->>'jour_debut')::integer)
+          FROM jsonb_array_elements(v_programme.parcours_resume) ph
+          WHERE jsonb_typeof(ph->'jour_debut') = 'number'
+            AND (ph->>'jour_debut')::integer <= v_enrollment.current_day
+        ), 1);
+      END IF;
+
+      v_enrollment.unlocks_on := v_completed_on;
+
+      WHILE v_enrollment.current_day = ANY (v_programme.jours_repos) LOOP
+        v_enrollment.current_day := v_enrollment.current_day + 1;
+        v_enrollment.unlocks_on := v_enrollment.unlocks_on + 1;
+      END LOOP;
+
+      v_enrollment.current_day := LEAST(v_enrollment.current_day, v_programme.duree_jours + 1);
+      v_enrollment.completed := v_enrollment.current_day > v_programme.duree_jours;
+
+      UPDATE public.user_programs up
+      SET current_day = v_enrollment.current_day,
+          unlocks_on = v_enrollment.unlocks_on,
+          completed = v_enrollment.completed
+      WHERE up.id = p_user_program_id;
+    END IF;
+
+    IF p_day > v_enrollment.current_day THEN
+      RAISE EXCEPTION 'Day % is not unlocked yet', p_day
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF p_day = v_enrollment.current_day AND NOT v_enrollment.completed THEN
+      IF v_enrollment.unlocks_on IS NOT NULL AND v_completed_on < v_enrollment.unlocks_on THEN
+        RAISE EXCEPTION 'Day % unlocks on %', p_day, v_enrollment.unlocks_on
+          USING ERRCODE = '22023';
+      END IF;
+
+      INSERT INTO public.ritual_completions (id, user_id, user_program_id, jour, completed_at, completed_on)
+      VALUES (p_completion_id, v_enrollment.user_id, p_user_program_id, p_day, v_completed_at, v_completed_on);
+
+      -- The next ritual unlocks tomorrow, after the rest days that follow
+      v_next_day := p_day + 1;
+      v_unlocks_on := v_completed_on + 1;
+
+      WHILE v_next_day = ANY (v_programme.jours_repos) LOOP
+        v_next_day := v_next_day + 1;
+        v_unlocks_on := v_unlocks_on + 1;
+      END LOOP;
+
+      UPDATE public.user_programs up
+      SET current_day = LEAST(v_next_day, v_programme.duree_jours + 1),
+          unlocks_on = v_unlocks_on,
+          completed = v_next_day > v_programme.duree_jours
+      WHERE up.id = p_user_program_id;
+
+      UPDATE public.profiles p
+      SET total_days_completed = COALESCE(p.total_days_completed, 0) + 1
+      WHERE p.id = v_enrollment.user_id;
+
+      PERFORM public.refresh_user_streak(v_enrollment.user_id);
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    up.current_day,
+    up.completed,
+    up.unlocks_on,
+    COALESCE(p.total_days_completed, 0),
+    COALESCE(s.current_streak, 0),
+    COALESCE(s.longest_streak, 0),
+    s.last_completed_on
+  FROM public.user_programs up
+  JOIN public.profiles p ON p.id = up.user_id
+  LEFT JOIN public.user_streaks s ON s.user_id = up.user_id
+  WHERE up.id = p_user_program_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.complete_ritual_day(uuid, uuid, integer, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.complete_ritual_day(uuid, uuid, integer, timestamptz) TO authenticated;
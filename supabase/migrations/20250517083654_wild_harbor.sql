@@ -0,0 +1,100 @@
+/*
+  # Enrollment states
+
+  1. Changes
+    - Add `status` (text) to `user_programs`: 'active', 'paused', 'abandoned'
+      or 'completed'. Existing enrollments are 'completed' when finished and
+      'active' otherwise
+    - Add `paused_at`, `abandoned_at` and `completed_at` (timestamp with
+      timezone), stamped when the enrollment enters the matching state
+    - Replace UNIQUE (`user_id`, `programme_id`) so a finished or abandoned
+      program can be restarted as a new enrollment, keeping the old one as
+      history:
+      - at most one active or paused enrollment per program
+      - at most one active enrollment per user
+
+  2. New Functions
+    - `handle_user_program_status()`: trigger keeping `status`, `completed`
+      and the state timestamps consistent. Completing the last day moves the
+      enrollment to 'completed'; finished and abandoned enrollments are final
+      and abandoned ones no longer advance
+*/
+
+ALTER TABLE public.user_programs
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS paused_at timestamptz,
+  ADD COLUMN IF NOT EXISTS abandoned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+UPDATE public.user_programs
+SET status = 'completed',
+    completed_at = COALESCE(updated_at, now())
+WHERE completed;
+
+-- Only the most recently touched unfinished enrollment stays active
+UPDATE public.user_programs up
+SET status = 'paused',
+    paused_at = now()
+WHERE up.status = 'active'
+  AND EXISTS (
+    SELECT 1
+    FROM public.user_programs other
+    WHERE other.user_id = up.user_id
+      AND other.status = 'active'
+      AND other.id <> up.id
+      AND (COALESCE(other.updated_at, other.start_date), other.id)
+        > (COALESCE(up.updated_at, up.start_date), up.id)
+  );
+
+ALTER TABLE public.user_programs
+  ADD CONSTRAINT user_programs_status_check
+    CHECK (status IN ('active', 'paused', 'abandoned', 'completed')),
+  DROP CONSTRAINT IF EXISTS user_programs_user_id_programme_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_programs_live_programme_idx
+  ON public.user_programs (user_id, programme_id)
+  WHERE status IN ('active', 'paused');
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_programs_active_idx
+  ON public.user_programs (user_id)
+  WHERE status = 'active';
+
+CREATE OR REPLACE FUNCTION public.handle_user_program_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND OLD.status IN ('completed', 'abandoned') THEN
+    RAISE EXCEPTION 'A % enrollment cannot change state', OLD.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Completions replayed after abandoning still count, but do not move the program
+  IF OLD.status = 'abandoned' THEN
+    NEW.current_day := OLD.current_day;
+    NEW.unlocks_on := OLD.unlocks_on;
+    NEW.completed := OLD.completed;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.completed AND NOT OLD.completed THEN
+    NEW.status := 'completed';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'paused' THEN NEW.paused_at := now();
+      WHEN 'abandoned' THEN NEW.abandoned_at := now();
+      WHEN 'completed' THEN
+        NEW.completed := true;
+        NEW.completed_at := now();
+      ELSE NULL;
+    END CASE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER on_user_program_status_change
+  BEFORE UPDATE ON public.user_programs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_user_program_status();
@@ -0,0 +1,185 @@
+/*
+  # Achievements and badges
+
+  1. New Tables
+    - `badges`: badge definitions, each with one rule
+      - `id` (uuid, primary key)
+      - `code` (text, unique, stable identifier used by seeds)
+      - `nom` (text, required)
+      - `description` (text)
+      - `icone` (text, icon name known by the app)
+      - `regle` (text): what is counted
+        - 'rituels': ritual days completed
+        - 'serie': longest streak of consecutive days
+        - 'repetitions': reps logged, of `exercice_id` when set
+        - 'programmes_termines': programs completed
+      - `seuil` (integer): count needed to unlock the badge
+      - `exercice_id` (uuid, references exercices, optional)
+      - `clan_id` (uuid, references clans, optional): only members of this
+        clan can earn the badge
+      - `ordre` (integer, display order)
+      - `created_at` (timestamp with timezone)
+    - `user_badges`: badges unlocked by users
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `badge_id` (uuid, references badges)
+      - `unlocked_at` (timestamp with timezone)
+      - Unique on (`user_id`, `badge_id`) so a badge is awarded once
+
+  2. New Functions
+    - `evaluate_achievements(p_user_id)`: awards every badge whose rule the
+      user now meets and returns the newly unlocked ones
+    - `handle_progress_event()`: trigger evaluating achievements after
+      reps are logged, a streak snapshot is refreshed (every completed day)
+      or a program is completed
+
+  3. Security
+    - Enable RLS on both tables
+    - Anyone can read badge definitions
+    - Users can read their own unlocked badges; awards only go through
+      `evaluate_achievements`
+*/
+
+CREATE TABLE IF NOT EXISTS public.badges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL,
+  nom text NOT NULL,
+  description text,
+  icone text,
+  regle text NOT NULL CHECK (regle IN ('rituels', 'serie', 'repetitions', 'programmes_termines')),
+  seuil integer NOT NULL CHECK (seuil > 0),
+  exercice_id uuid REFERENCES public.exercices(id) ON DELETE CASCADE,
+  clan_id uuid REFERENCES public.clans(id) ON DELETE CASCADE,
+  ordre integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (exercice_id IS NULL OR regle = 'repetitions')
+);
+
+CREATE TABLE IF NOT EXISTS public.user_badges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  badge_id uuid NOT NULL REFERENCES public.badges(id) ON DELETE CASCADE,
+  unlocked_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, badge_id)
+);
+
+ALTER TABLE public.badges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to badges"
+  ON public.badges
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Users can read own badges"
+  ON public.user_badges
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.evaluate_achievements(p_user_id uuid)
+RETURNS SETOF public.user_badges AS $$
+  INSERT INTO public.user_badges (user_id, badge_id)
+  SELECT p.id, b.id
+  FROM public.badges b
+  JOIN public.profiles p ON p.id = p_user_id
+  WHERE (b.clan_id IS NULL OR b.clan_id = p.clan_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.user_badges ub
+      WHERE ub.user_id = p.id
+        AND ub.badge_id = b.id
+    )
+    AND CASE b.regle
+      WHEN 'rituels' THEN (
+        SELECT count(*)
+        FROM public.ritual_completions rc
+        WHERE rc.user_id = p.id
+      ) >= b.seuil
+      WHEN 'serie' THEN COALESCE((
+        SELECT s.longest_streak
+        FROM public.user_streaks s
+        WHERE s.user_id = p.id
+      ), 0) >= b.seuil
+      WHEN 'repetitions' THEN (
+        SELECT COALESCE(sum(el.reps), 0)
+        FROM public.exercise_logs el
+        WHERE el.user_id = p.id
+          AND (b.exercice_id IS NULL OR el.exercice_id = b.exercice_id)
+      ) >= b.seuil
+      WHEN 'programmes_termines' THEN (
+        SELECT count(*)
+        FROM public.user_programs up
+        WHERE up.user_id = p.id
+          AND up.status = 'completed'
+      ) >= b.seuil
+      ELSE false
+    END
+  ON CONFLICT (user_id, badge_id) DO NOTHING
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.evaluate_achievements(uuid) FROM public;
+
+CREATE OR REPLACE FUNCTION public.handle_progress_event()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM public.evaluate_achievements(NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_exercise_logged
+  AFTER INSERT ON public.exercise_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_progress_event();
+
+CREATE TRIGGER on_streak_refreshed
+  AFTER INSERT OR UPDATE ON public.user_streaks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_progress_event();
+
+CREATE TRIGGER on_user_program_completed
+  AFTER UPDATE OF status ON public.user_programs
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION public.handle_progress_event();
+
+-- Insert badges
+INSERT INTO public.badges (code, nom, description, icone, regle, seuil, ordre)
+VALUES
+  ('premier-rituel', 'Premier Pas', 'Accomplir votre premier rituel.', 'footprints', 'rituels', 1, 1),
+  ('serie-7', 'Sept Soleils', 'Accomplir un rituel sept jours de suite.', 'flame', 'serie', 7, 2),
+  ('serie-30', 'Lune Complète', 'Accomplir un rituel trente jours de suite.', 'moon', 'serie', 30, 3),
+  ('premier-programme', 'Voie Achevée', 'Terminer votre premier programme.', 'trophy', 'programmes_termines', 1, 5)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.badges (code, nom, description, icone, regle, seuil, exercice_id, ordre)
+SELECT 'squats-1000', 'Mille Racines', 'Réaliser 1000 squats.', 'dumbbell', 'repetitions', 1000, e.id, 4
+FROM public.exercices e
+WHERE e.slug = 'squats'
+ON CONFLICT (code) DO NOTHING;
+
+-- Clan feats: ten rituals completed as a member of the clan
+INSERT INTO public.badges (code, nom, description, icone, regle, seuil, clan_id, ordre)
+SELECT
+  'clan-' || c.code,
+  CASE c.code
+    WHEN 'onotka' THEN 'Souffle d''Onotka'
+    WHEN 'ekloa' THEN 'Éclat d''Ekloa'
+    WHEN 'okwaho' THEN 'Instinct d''Okwáho'
+    ELSE 'Fierté du clan'
+  END,
+  'Accomplir dix rituels en portant les couleurs de votre clan.',
+  'shield',
+  'rituels',
+  10,
+  c.id,
+  6
+FROM public.clans c
+ON CONFLICT (code) DO NOTHING;
+
+-- Award what existing members already earned
+SELECT public.evaluate_achievements(p.id)
+FROM public.profiles p;
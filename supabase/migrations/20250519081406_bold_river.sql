@@ -0,0 +1,187 @@
+/*
+  # Clan and member leaderboards
+
+  1. Changes
+    - Add `public_ranking` (boolean, default true) to `profiles`: members who
+      turn it off are left out of member rankings seen by others. Clan totals
+      still include them since they do not expose anyone
+
+  2. New Functions
+    - `leaderboard_since(p_period)`: start of the 'week', 'month' or 'all'
+      window (calendar week and month, UTC)
+    - `member_stats(p_since)`: per member days completed and reps logged
+      since `p_since`, and current streak (0 once a day was missed)
+    - `get_member_leaderboard(p_period, p_metric, p_clan_id, p_limit)`: members
+      ranked by 'days', 'reps' or 'streak', optionally within one clan. The
+      caller is always returned, even outside of the top `p_limit`
+    - `get_clan_leaderboard(p_period, p_metric)`: clans ranked by the sum of
+      their members' days or reps, or by their number of active streaks
+
+  3. Security
+    - `member_stats` reads every member's progress and is not exposed; the
+      leaderboard functions only return aggregates and opted-in names
+*/
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS public_ranking boolean NOT NULL DEFAULT true;
+
+CREATE OR REPLACE FUNCTION public.leaderboard_since(p_period text)
+RETURNS timestamptz AS $$
+  SELECT CASE p_period
+    WHEN 'week' THEN date_trunc('week', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    WHEN 'month' THEN date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    WHEN 'all' THEN '-infinity'::timestamptz
+  END;
+$$ LANGUAGE sql STABLE SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.member_stats(p_since timestamptz)
+RETURNS TABLE (
+  user_id uuid,
+  clan_id uuid,
+  days_completed integer,
+  reps_logged integer,
+  current_streak integer
+) AS $$
+  SELECT
+    p.id,
+    p.clan_id,
+    (
+      SELECT count(*)::integer
+      FROM public.ritual_completions rc
+      WHERE rc.user_id = p.id
+        AND rc.completed_at >= p_since
+    ),
+    (
+      SELECT COALESCE(sum(el.reps), 0)::integer
+      FROM public.exercise_logs el
+      WHERE el.user_id = p.id
+        AND el.logged_at >= p_since
+    ),
+    -- The snapshot keeps its value until the next completion
+    CASE
+      WHEN s.last_completed_on >= (now() AT TIME ZONE COALESCE(tz.name, 'UTC'))::date - 1
+        THEN s.current_streak
+      ELSE 0
+    END
+  FROM public.profiles p
+  LEFT JOIN public.user_streaks s ON s.user_id = p.id
+  LEFT JOIN pg_catalog.pg_timezone_names tz ON tz.name = p.timezone;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.member_stats(timestamptz) FROM public;
+
+CREATE OR REPLACE FUNCTION public.get_member_leaderboard(
+  p_period text,
+  p_metric text,
+  p_clan_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  rank bigint,
+  user_id uuid,
+  name text,
+  clan_id uuid,
+  days_completed integer,
+  reps_logged integer,
+  current_streak integer,
+  is_current_user boolean
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_period NOT IN ('week', 'month', 'all') OR p_metric NOT IN ('days', 'reps', 'streak') THEN
+    RAISE EXCEPTION 'Unknown leaderboard % / %', p_period, p_metric
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      ms.*,
+      p.name,
+      rank() OVER (
+        ORDER BY CASE p_metric
+          WHEN 'days' THEN ms.days_completed
+          WHEN 'reps' THEN ms.reps_logged
+          ELSE ms.current_streak
+        END DESC
+      ) AS position
+    FROM public.member_stats(public.leaderboard_since(p_period)) ms
+    JOIN public.profiles p ON p.id = ms.user_id
+    WHERE (p.public_ranking OR p.id = auth.uid())
+      AND (p_clan_id IS NULL OR ms.clan_id = p_clan_id)
+      AND (ms.days_completed > 0 OR ms.reps_logged > 0 OR ms.current_streak > 0 OR p.id = auth.uid())
+  )
+  SELECT
+    r.position,
+    r.user_id,
+    r.name,
+    r.clan_id,
+    r.days_completed,
+    r.reps_logged,
+    r.current_streak,
+    r.user_id = auth.uid()
+  FROM ranked r
+  WHERE r.position <= p_limit OR r.user_id = auth.uid()
+  ORDER BY r.position, r.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.get_clan_leaderboard(
+  p_period text,
+  p_metric text
+)
+RETURNS TABLE (
+  rank bigint,
+  clan_id uuid,
+  name text,
+  color text,
+  members integer,
+  days_completed integer,
+  reps_logged integer,
+  active_streaks integer
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_period NOT IN ('week', 'month', 'all') OR p_metric NOT IN ('days', 'reps', 'streak') THEN
+    RAISE EXCEPTION 'Unknown leaderboard % / %', p_period, p_metric
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT
+      c.id,
+      c.nom_clan,
+      c.couleur_theme,
+      count(ms.user_id)::integer AS members,
+      COALESCE(sum(ms.days_completed), 0)::integer AS days_completed,
+      COALESCE(sum(ms.reps_logged), 0)::integer AS reps_logged,
+      (count(*) FILTER (WHERE ms.current_streak > 0))::integer AS active_streaks
+    FROM public.clans c
+    LEFT JOIN public.member_stats(public.leaderboard_since(p_period)) ms ON ms.clan_id = c.id
+    GROUP BY c.id, c.nom_clan, c.couleur_theme
+  )
+  SELECT
+    rank() OVER (
+      ORDER BY CASE p_metric
+        WHEN 'days' THEN t.days_completed
+        WHEN 'reps' THEN t.reps_logged
+        ELSE t.active_streaks
+      END DESC
+    ),
+    t.id,
+    t.nom_clan,
+    t.couleur_theme,
+    t.members,
+    t.days_completed,
+    t.reps_logged,
+    t.active_streaks
+  FROM totals t
+  ORDER BY 1, t.nom_clan;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.get_member_leaderboard(text, text, uuid, integer) FROM public;
+REVOKE ALL ON FUNCTION public.get_clan_leaderboard(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_member_leaderboard(text, text, uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_clan_leaderboard(text, text) TO authenticated;
@@ -0,0 +1,245 @@
+/*
+  # Weekly clan challenges
+
+  1. New Tables
+    - `defis`: time-boxed collective goals of a clan
+      - `id` (uuid, primary key)
+      - `clan_id` (uuid, references clans, required)
+      - `titre` (text, required)
+      - `description` (text)
+      - `exercice_id` (uuid, references exercices): only reps of this exercise
+        count, any exercise when null
+      - `objectif` (integer, reps to reach together)
+      - `debut`, `fin` (timestamp with timezone): reps logged in [debut, fin)
+        count
+      - `badge_id` (uuid, references badges): reward given to every member
+        who contributed once the goal is reached
+      - `complete_le` (timestamp with timezone): when the goal was reached
+      - `created_at` (timestamp with timezone)
+
+  2. Changes
+    - `badges.regle` accepts 'defi': reward badges that are only given by
+      challenges, never by `evaluate_achievements`
+
+  3. New Functions
+    - `challenge_progress(p_defi_id)`: reps logged by the clan members
+    - `get_active_challenge()`: the running challenge of the caller's clan with
+      its collective progress and the caller's contribution
+    - `get_challenge_contributions(p_defi_id)`: reps of each contributing
+      member. Members who opted out of public ranking are listed without name
+    - `handle_challenge_contribution()`: trigger completing challenges and
+      giving their reward as reps are logged
+
+  4. Security
+    - Enable RLS on `defis` table
+    - Anyone can read challenges; contributions are only returned to members
+      of the clan
+*/
+
+CREATE TABLE IF NOT EXISTS public.defis (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  clan_id uuid NOT NULL REFERENCES public.clans(id) ON DELETE CASCADE,
+  titre text NOT NULL,
+  description text,
+  exercice_id uuid REFERENCES public.exercices(id) ON DELETE CASCADE,
+  objectif integer NOT NULL CHECK (objectif > 0),
+  debut timestamptz NOT NULL,
+  fin timestamptz NOT NULL,
+  badge_id uuid REFERENCES public.badges(id) ON DELETE SET NULL,
+  complete_le timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (fin > debut)
+);
+
+CREATE INDEX IF NOT EXISTS defis_clan_id_idx ON public.defis (clan_id, fin);
+
+ALTER TABLE public.defis ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to defis"
+  ON public.defis
+  FOR SELECT
+  TO public
+  USING (true);
+
+ALTER TABLE public.badges
+  DROP CONSTRAINT IF EXISTS badges_regle_check,
+  ADD CONSTRAINT badges_regle_check
+    CHECK (regle IN ('rituels', 'serie', 'repetitions', 'programmes_termines', 'defi'));
+
+CREATE INDEX IF NOT EXISTS exercise_logs_logged_at_idx
+  ON public.exercise_logs (logged_at);
+
+CREATE OR REPLACE FUNCTION public.challenge_progress(p_defi_id uuid)
+RETURNS integer AS $$
+  SELECT COALESCE(sum(el.reps), 0)::integer
+  FROM public.defis d
+  JOIN public.profiles p ON p.clan_id = d.clan_id
+  JOIN public.exercise_logs el ON el.user_id = p.id
+  WHERE d.id = p_defi_id
+    AND el.logged_at >= d.debut
+    AND el.logged_at < d.fin
+    AND (d.exercice_id IS NULL OR el.exercice_id = d.exercice_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.challenge_progress(uuid) FROM public;
+
+CREATE OR REPLACE FUNCTION public.get_challenge_contributions(p_defi_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  name text,
+  reps integer,
+  is_current_user boolean
+) AS $$
+  SELECT
+    p.id,
+    CASE WHEN p.public_ranking OR p.id = auth.uid() THEN p.name END,
+    sum(el.reps)::integer,
+    p.id = auth.uid()
+  FROM public.defis d
+  JOIN public.profiles p ON p.clan_id = d.clan_id
+  JOIN public.exercise_logs el ON el.user_id = p.id
+  WHERE d.id = p_defi_id
+    AND el.logged_at >= d.debut
+    AND el.logged_at < d.fin
+    AND (d.exercice_id IS NULL OR el.exercice_id = d.exercice_id)
+    -- Only members of the clan see the contributions
+    AND d.clan_id = (SELECT me.clan_id FROM public.profiles me WHERE me.id = auth.uid())
+  GROUP BY p.id, p.name, p.public_ranking
+  HAVING sum(el.reps) > 0
+  ORDER BY 3 DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.get_active_challenge()
+RETURNS TABLE (
+  id uuid,
+  clan_id uuid,
+  titre text,
+  description text,
+  exercice_id uuid,
+  exercice_nom text,
+  objectif integer,
+  debut timestamptz,
+  fin timestamptz,
+  complete_le timestamptz,
+  progress integer,
+  contribution integer,
+  badge_nom text,
+  badge_description text,
+  badge_icone text
+) AS $$
+  SELECT
+    d.id,
+    d.clan_id,
+    d.titre,
+    d.description,
+    d.exercice_id,
+    e.nom,
+    d.objectif,
+    d.debut,
+    d.fin,
+    d.complete_le,
+    public.challenge_progress(d.id),
+    (
+      SELECT COALESCE(sum(el.reps), 0)::integer
+      FROM public.exercise_logs el
+      WHERE el.user_id = auth.uid()
+        AND el.logged_at >= d.debut
+        AND el.logged_at < d.fin
+        AND (d.exercice_id IS NULL OR el.exercice_id = d.exercice_id)
+    ),
+    b.nom,
+    b.description,
+    b.icone
+  FROM public.profiles me
+  JOIN public.defis d ON d.clan_id = me.clan_id
+  LEFT JOIN public.exercices e ON e.id = d.exercice_id
+  LEFT JOIN public.badges b ON b.id = d.badge_id
+  WHERE me.id = auth.uid()
+    AND d.debut <= now()
+    AND d.fin > now()
+  ORDER BY d.fin
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.get_challenge_contributions(uuid) FROM public;
+REVOKE ALL ON FUNCTION public.get_active_challenge() FROM public;
+GRANT EXECUTE ON FUNCTION public.get_challenge_contributions(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_active_challenge() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_challenge_contribution()
+RETURNS trigger AS $$
+DECLARE
+  v_defi public.defis%ROWTYPE;
+BEGIN
+  FOR v_defi IN
+    SELECT d.*
+    FROM public.defis d
+    JOIN public.profiles p ON p.clan_id = d.clan_id
+    WHERE p.id = NEW.user_id
+      AND NEW.logged_at >= d.debut
+      AND NEW.logged_at < d.fin
+      AND (d.exercice_id IS NULL OR d.exercice_id = NEW.exercice_id)
+  LOOP
+    IF v_defi.complete_le IS NULL
+      AND public.challenge_progress(v_defi.id) >= v_defi.objectif
+    THEN
+      UPDATE public.defis
+      SET complete_le = now()
+      WHERE id = v_defi.id
+        AND complete_le IS NULL;
+
+      v_defi.complete_le := now();
+    END IF;
+
+    -- Everyone who contributed gets the reward, including late contributors
+    IF v_defi.complete_le IS NOT NULL AND v_defi.badge_id IS NOT NULL THEN
+      INSERT INTO public.user_badges (user_id, badge_id)
+      SELECT DISTINCT p.id, v_defi.badge_id
+      FROM public.profiles p
+      JOIN public.exercise_logs el ON el.user_id = p.id
+      WHERE p.clan_id = v_defi.clan_id
+        AND el.logged_at >= v_defi.debut
+        AND el.logged_at < v_defi.fin
+        AND (v_defi.exercice_id IS NULL OR el.exercice_id = v_defi.exercice_id)
+        AND el.reps > 0
+      ON CONFLICT (user_id, badge_id) DO NOTHING;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_exercise_logged_for_challenges
+  AFTER INSERT ON public.exercise_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_challenge_contribution();
+
+-- This week's challenge of each clan, rewarded by a badge of its own
+INSERT INTO public.badges (code, nom, description, icone, regle, seuil, clan_id, ordre)
+SELECT
+  'defi-' || c.code || '-' || to_char(public.leaderboard_since('week'), 'IYYY-IW'),
+  'Défi des 50 000 squats',
+  'Atteindre avec votre clan l''objectif du défi de la semaine.',
+  'users',
+  'defi',
+  1,
+  c.id,
+  7
+FROM public.clans c
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.defis (clan_id, titre, description, exercice_id, objectif, debut, fin, badge_id)
+SELECT
+  c.id,
+  initcap(c.nom_clan) || ' : 50 000 squats cette semaine',
+  'Chaque squat enregistré pendant vos rituels rapproche le clan de l''objectif.',
+  e.id,
+  50000,
+  public.leaderboard_since('week'),
+  public.leaderboard_since('week') + interval '7 days',
+  b.id
+FROM public.clans c
+JOIN public.exercices e ON e.slug = 'squats'
+JOIN public.badges b
+  ON b.code = 'defi-' || c.code || '-' || to_char(public.leaderboard_since('week'), 'IYYY-IW');
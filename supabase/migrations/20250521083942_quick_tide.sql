@@ -0,0 +1,42 @@
+/*
+  # Exercise measurement types
+
+  1. Changes
+    - Add `mesure` to `exercices`: what the daily target counts, one of
+      'repetitions', 'secondes', 'distance' (meters) or 'respirations'
+    - Rename `rituel_exercices.objectif_reps` to `objectif`: the target is in
+      the unit of the exercise
+    - Add `metres` (integer) to `exercise_logs` for distance exercises.
+      Breaths are logged in `reps`. Exactly one quantity is set per log
+    - The plank is timed and the tribal breathing counts breaths; plank logs
+      recorded as reps are moved to `secondes`
+*/
+
+ALTER TABLE public.exercices
+  ADD COLUMN IF NOT EXISTS mesure text NOT NULL DEFAULT 'repetitions'
+    CHECK (mesure IN ('repetitions', 'secondes', 'distance', 'respirations'));
+
+UPDATE public.exercices
+SET mesure = CASE slug
+  WHEN 'plank' THEN 'secondes'
+  WHEN 'breath' THEN 'respirations'
+  ELSE mesure
+END;
+
+ALTER TABLE public.rituel_exercices
+  RENAME COLUMN objectif_reps TO objectif;
+
+ALTER TABLE public.exercise_logs
+  ADD COLUMN IF NOT EXISTS metres integer CHECK (metres > 0),
+  DROP CONSTRAINT IF EXISTS exercise_logs_quantity_check;
+
+UPDATE public.exercise_logs el
+SET secondes = el.reps,
+    reps = NULL
+FROM public.exercices e
+WHERE e.id = el.exercice_id
+  AND e.mesure = 'secondes'
+  AND el.reps IS NOT NULL;
+
+ALTER TABLE public.exercise_logs
+  ADD CONSTRAINT exercise_logs_quantity_check CHECK (num_nonnulls(reps, secondes, metres) = 1);
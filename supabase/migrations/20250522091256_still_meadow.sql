@@ -0,0 +1,41 @@
+/*
+  # Sets and rest periods for ritual exercises
+
+  1. Changes
+    - Add `series` (integer, default 1) to `rituel_exercices`: number of sets
+    - Add `repos_secondes` (integer, default 60) to `rituel_exercices`: rest
+      after each set
+    - `objectif` becomes the target of one set; the target of the day is
+      `series * objectif`. Existing rows keep a single set so their daily
+      target does not change
+    - Split the Marée du Crocodile exercises into sets with the same daily
+      totals
+*/
+
+ALTER TABLE public.rituel_exercices
+  ADD COLUMN IF NOT EXISTS series integer NOT NULL DEFAULT 1 CHECK (series > 0),
+  ADD COLUMN IF NOT EXISTS repos_secondes integer NOT NULL DEFAULT 60 CHECK (repos_secondes >= 0);
+
+UPDATE public.rituel_exercices re
+SET series = x.series,
+    objectif = re.objectif / x.series,
+    repos_secondes = x.repos_secondes
+FROM (
+  VALUES
+    ('squats', 4, 60),
+    ('pushups', 3, 60),
+    ('burpees', 5, 90),
+    ('lunges', 3, 60),
+    ('plank', 2, 45),
+    ('breath', 3, 30)
+) AS x(exercice_slug, series, repos_secondes),
+  public.exercices e,
+  public.rituels r,
+  public.programmes p
+WHERE e.slug = x.exercice_slug
+  AND re.exercice_id = e.id
+  AND r.id = re.rituel_id
+  AND p.id = r.programme_id
+  AND p.slug = 'crocodile-tide'
+  AND re.series = 1
+  AND re.objectif % x.series = 0;
@@ -0,0 +1,31 @@
+/*
+  # Undo and corrections of exercise logs
+
+  1. Changes
+    - Add `nature` to `exercise_logs`: 'saisie' for logged work, 'annulation'
+      for an undo and 'correction' when the user sets an exact value
+    - Add `annule_log_id` (uuid, references exercise_logs, unique): the log an
+      'annulation' cancels, each log being undone at most once
+    - Quantities of undos are negative and corrections can be either sign, so
+      the day total stays the sum of the logs. Logs are never updated or
+      deleted, which keeps the history auditable
+*/
+
+ALTER TABLE public.exercise_logs
+  ADD COLUMN IF NOT EXISTS nature text NOT NULL DEFAULT 'saisie'
+    CHECK (nature IN ('saisie', 'annulation', 'correction')),
+  ADD COLUMN IF NOT EXISTS annule_log_id uuid UNIQUE REFERENCES public.exercise_logs(id) ON DELETE CASCADE,
+  DROP CONSTRAINT IF EXISTS exercise_logs_reps_check,
+  DROP CONSTRAINT IF EXISTS exercise_logs_secondes_check,
+  DROP CONSTRAINT IF EXISTS exercise_logs_metres_check;
+
+ALTER TABLE public.exercise_logs
+  ADD CONSTRAINT exercise_logs_sign_check CHECK (
+    CASE nature
+      WHEN 'saisie' THEN COALESCE(reps, secondes, metres) > 0
+      WHEN 'annulation' THEN COALESCE(reps, secondes, metres) < 0
+      ELSE COALESCE(reps, secondes, metres) <> 0
+    END
+  ),
+  ADD CONSTRAINT exercise_logs_annulation_check
+    CHECK ((nature = 'annulation') = (annule_log_id IS NOT NULL));
@@ -0,0 +1,182 @@
+/*
+  # Adaptive exercise targets
+
+  1. Changes
+    - Add `ajustement_min` and `ajustement_max` (numeric, default 0.5 and 1.5)
+      to `programmes`: bounds of the multiplier applied to its targets
+    - Add `effort` (1 very easy to 5 exhausting) and `duree_secondes` (time
+      from the first log of the day to the completion) to
+      `ritual_completions`
+
+  2. New Tables
+    - `user_target_adjustments`: per member multiplier of the targets of one
+      exercise in one program, kept across restarts of the program
+      - `user_id` (uuid, references profiles)
+      - `programme_id` (uuid, references programmes)
+      - `exercice_id` (uuid, references exercices)
+      - `multiplier` (numeric, within the bounds of the program)
+      - `updated_at` (timestamp with timezone)
+
+  3. New Functions
+    - `rate_ritual_day(p_completion_id, p_effort)`: records the effort of a
+      completed day and scales the exercises of that day by
+      - the mean effort of the last three rated days: +10% when very easy down
+        to -10% when exhausting
+      - the speed of the session: ±2.5% when 20% faster or slower than the
+        usual session of the program
+      Rating is idempotent; a day the server did not count is ignored. Returns
+      the multipliers of the program
+
+  4. Security
+    - Enable RLS on `user_target_adjustments` table
+    - Users can read their own adjustments; writes only go through the
+      function
+*/
+
+ALTER TABLE public.programmes
+  ADD COLUMN IF NOT EXISTS ajustement_min numeric(4, 2) NOT NULL DEFAULT 0.5,
+  ADD COLUMN IF NOT EXISTS ajustement_max numeric(4, 2) NOT NULL DEFAULT 1.5,
+  ADD CONSTRAINT programmes_ajustement_check
+    CHECK (ajustement_min > 0 AND ajustement_min <= 1 AND ajustement_max >= 1);
+
+ALTER TABLE public.ritual_completions
+  ADD COLUMN IF NOT EXISTS effort smallint CHECK (effort BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS duree_secondes integer CHECK (duree_secondes >= 0);
+
+CREATE TABLE IF NOT EXISTS public.user_target_adjustments (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  programme_id uuid NOT NULL REFERENCES public.programmes(id) ON DELETE CASCADE,
+  exercice_id uuid NOT NULL REFERENCES public.exercices(id) ON DELETE CASCADE,
+  multiplier numeric(4, 2) NOT NULL DEFAULT 1 CHECK (multiplier > 0),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, programme_id, exercice_id)
+);
+
+ALTER TABLE public.user_target_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own target adjustments"
+  ON public.user_target_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.rate_ritual_day(
+  p_completion_id uuid,
+  p_effort integer
+)
+RETURNS TABLE (
+  programme_id uuid,
+  exercice_id uuid,
+  multiplier numeric
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_completion public.ritual_completions%ROWTYPE;
+  v_programme public.programmes%ROWTYPE;
+  v_duration integer;
+  v_usual_duration numeric;
+  v_effort numeric;
+  v_factor numeric;
+BEGIN
+  IF p_effort NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Effort % must be between 1 and 5', p_effort
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_completion
+  FROM public.ritual_completions rc
+  WHERE rc.id = p_completion_id
+    AND rc.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT pr.* INTO v_programme
+    FROM public.user_programs up
+    JOIN public.programmes pr ON pr.id = up.programme_id
+    WHERE up.id = v_completion.user_program_id;
+  END IF;
+
+  IF FOUND AND v_completion.effort IS NULL THEN
+    SELECT extract(epoch FROM v_completion.completed_at - min(el.logged_at))::integer
+    INTO v_duration
+    FROM public.exercise_logs el
+    WHERE el.user_program_id = v_completion.user_program_id
+      AND el.jour = v_completion.jour
+      AND el.logged_at <= v_completion.completed_at
+      AND el.logged_at > v_completion.completed_at - interval '1 day';
+
+    -- Usual session of the program, before this one
+    SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY rc.duree_secondes)
+    INTO v_usual_duration
+    FROM public.ritual_completions rc
+    JOIN public.user_programs up ON up.id = rc.user_program_id
+    WHERE rc.user_id = v_completion.user_id
+      AND up.programme_id = v_programme.id
+      AND rc.duree_secondes IS NOT NULL
+      AND rc.id <> v_completion.id;
+
+    UPDATE public.ritual_completions rc
+    SET effort = p_effort,
+        duree_secondes = v_duration
+    WHERE rc.id = v_completion.id;
+
+    SELECT avg(recent.effort)
+    INTO v_effort
+    FROM (
+      SELECT rc.effort
+      FROM public.ritual_completions rc
+      JOIN public.user_programs up ON up.id = rc.user_program_id
+      WHERE rc.user_id = v_completion.user_id
+        AND up.programme_id = v_programme.id
+        AND rc.effort IS NOT NULL
+      ORDER BY rc.completed_at DESC
+      LIMIT 3
+    ) recent;
+
+    v_factor := CASE
+      WHEN v_effort < 1.5 THEN 1.10
+      WHEN v_effort < 2.5 THEN 1.05
+      WHEN v_effort <= 3.5 THEN 1.00
+      WHEN v_effort <= 4.5 THEN 0.95
+      ELSE 0.90
+    END;
+
+    IF v_duration IS NOT NULL AND v_usual_duration > 0 THEN
+      IF v_duration < v_usual_duration * 0.8 THEN
+        v_factor := v_factor + 0.025;
+      ELSIF v_duration > v_usual_duration * 1.2 THEN
+        v_factor := v_factor - 0.025;
+      END IF;
+    END IF;
+
+    INSERT INTO public.user_target_adjustments (user_id, programme_id, exercice_id, multiplier)
+    SELECT
+      v_completion.user_id,
+      v_programme.id,
+      re.exercice_id,
+      LEAST(GREATEST(round(v_factor, 2), v_programme.ajustement_min), v_programme.ajustement_max)
+    FROM public.rituels r
+    JOIN public.rituel_exercices re ON re.rituel_id = r.id
+    WHERE r.programme_id = v_programme.id
+      AND r.jour = v_completion.jour
+    ON CONFLICT (user_id, programme_id, exercice_id) DO UPDATE
+    SET multiplier = LEAST(
+          GREATEST(
+            round(public.user_target_adjustments.multiplier * v_factor, 2),
+            v_programme.ajustement_min
+          ),
+          v_programme.ajustement_max
+        ),
+        updated_at = now();
+  END IF;
+
+  RETURN QUERY
+  SELECT uta.programme_id, uta.exercice_id, uta.multiplier
+  FROM public.user_target_adjustments uta
+  WHERE uta.user_id = auth.uid()
+    AND uta.programme_id = v_programme.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.rate_ritual_day(uuid, integer) FROM public;
+GRANT EXECUTE ON FUNCTION public.rate_ritual_day(uuid, integer) TO authenticated;
@@ -0,0 +1,85 @@
+/*
+  # Ritual check-ins
+
+  1. New Tables
+    - `ritual_checkins`: how the member felt around one ritual day, one row
+      per day of an enrollment. The row is created by the optional readiness
+      check before the ritual and completed by the check-in after it
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `user_program_id` (uuid, references user_programs)
+      - `jour` (integer, program day)
+      - `checkin_on` (date, local calendar day of the last answer)
+      - `sleep`, `energy` (1 to 5, readiness before the ritual)
+      - `mood_before`, `mood_after` (1 to 5)
+      - `rpe` (1 to 10, rate of perceived exertion)
+      - `soreness` (text[], sore areas)
+      - `light_variant` (boolean): the member followed the lighter variant
+      - `created_at`, `updated_at` (timestamp with timezone)
+
+  2. Changes
+    - Add `coefficient_allege` (numeric) to `programmes`: targets of its
+      lighter variant, suggested when readiness is low. No variant when null
+
+  3. Security
+    - Enable RLS on `ritual_checkins` table
+    - Users can read, create and update their own check-ins
+*/
+
+ALTER TABLE public.programmes
+  ADD COLUMN IF NOT EXISTS coefficient_allege numeric(3, 2) DEFAULT 0.7
+    CHECK (coefficient_allege > 0 AND coefficient_allege < 1);
+
+CREATE TABLE IF NOT EXISTS public.ritual_checkins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_program_id uuid NOT NULL REFERENCES public.user_programs(id) ON DELETE CASCADE,
+  jour integer NOT NULL CHECK (jour > 0),
+  checkin_on date NOT NULL,
+  sleep smallint CHECK (sleep BETWEEN 1 AND 5),
+  energy smallint CHECK (energy BETWEEN 1 AND 5),
+  mood_before smallint CHECK (mood_before BETWEEN 1 AND 5),
+  mood_after smallint CHECK (mood_after BETWEEN 1 AND 5),
+  rpe smallint CHECK (rpe BETWEEN 1 AND 10),
+  soreness text[] NOT NULL DEFAULT '{}'
+    CHECK (soreness <@ ARRAY['neck', 'shoulders', 'back', 'arms', 'core', 'hips', 'legs']),
+  light_variant boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_program_id, jour)
+);
+
+CREATE INDEX IF NOT EXISTS ritual_checkins_user_id_idx
+  ON public.ritual_checkins (user_id, checkin_on);
+
+CREATE TRIGGER update_ritual_checkins_updated_at
+  BEFORE UPDATE ON public.ritual_checkins
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+ALTER TABLE public.ritual_checkins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own ritual checkins"
+  ON public.ritual_checkins
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own ritual checkins"
+  ON public.ritual_checkins
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.user_programs up
+      WHERE up.id = user_program_id AND up.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own ritual checkins"
+  ON public.ritual_checkins
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,238 @@
+/*
+  # Premium entitlements
+
+  1. New Tables
+    - `boutiques`: stores whose receipts can be redeemed
+      - `code` (text, primary key): 'app_store', 'play_store' or 'test'
+      - `nom` (text)
+      - `accepte_achats` (boolean): receipts are only redeemed when true.
+        Real stores stay closed until their receipts are verified
+        server-side; development databases open the test store with
+        `UPDATE public.boutiques SET accepte_achats = true WHERE code = 'test'`
+    - `user_entitlements`: premium programs a member can follow
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `programme_id` (uuid, references programmes)
+      - `store` (text, references boutiques): null when granted
+      - `transaction_id` (text): unique per store, so a receipt is only
+        redeemed by one member
+      - `purchased_at`, `expires_at`, `revoked_at` (timestamp with timezone)
+      - `created_at` (timestamp with timezone)
+
+  2. Changes
+    - Add `produit_id` (text, unique) to `programmes`: store product unlocking
+      the program, required for premium programs
+    - Members already enrolled in a premium program keep it as a grant
+    - Enrollments are only created through `enroll_in_program`
+    - Rituals of premium programs are only readable by entitled members
+
+  3. New Functions
+    - `has_program_access(p_programme_id)`: whether the caller can follow a
+      program: any non premium program, premium ones with a live
+      entitlement
+    - `redeem_receipt(p_store, p_product_id, p_transaction_id, p_purchased_at)`:
+      records the entitlement bought with a store receipt; replaying the same
+      receipt is harmless. Returns the unlocked program
+    - `enroll_in_program(p_programme_id)`: starts a new enrollment of the
+      caller, refused without access to the program
+
+  4. Security
+    - Enable RLS on `boutiques` and `user_entitlements` tables
+    - Anyone can read stores; users can read their own entitlements, which
+      are only written by `redeem_receipt`
+*/
+
+CREATE TABLE IF NOT EXISTS public.boutiques (
+  code text PRIMARY KEY CHECK (code IN ('app_store', 'play_store', 'test')),
+  nom text NOT NULL,
+  accepte_achats boolean NOT NULL DEFAULT false
+);
+
+INSERT INTO public.boutiques (code, nom)
+VALUES
+  ('app_store', 'App Store'),
+  ('play_store', 'Google Play'),
+  ('test', 'Boutique de test')
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.boutiques ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to boutiques"
+  ON public.boutiques
+  FOR SELECT
+  TO public
+  USING (true);
+
+ALTER TABLE public.programmes
+  ADD COLUMN IF NOT EXISTS produit_id text UNIQUE;
+
+UPDATE public.programmes
+SET produit_id = 'mohero.' || replace(slug, '-', '_')
+WHERE type = 'Premium'
+  AND produit_id IS NULL;
+
+ALTER TABLE public.programmes
+  ADD CONSTRAINT programmes_produit_id_check
+    CHECK (type <> 'Premium' OR produit_id IS NOT NULL);
+
+CREATE TABLE IF NOT EXISTS public.user_entitlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  programme_id uuid NOT NULL REFERENCES public.programmes(id) ON DELETE CASCADE,
+  store text REFERENCES public.boutiques(code),
+  transaction_id text,
+  purchased_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, programme_id),
+  UNIQUE (store, transaction_id),
+  CHECK ((store IS NULL) = (transaction_id IS NULL))
+);
+
+ALTER TABLE public.user_entitlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own entitlements"
+  ON public.user_entitlements
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Members who already started a premium program keep following it
+INSERT INTO public.user_entitlements (user_id, programme_id)
+SELECT DISTINCT up.user_id, up.programme_id
+FROM public.user_programs up
+JOIN public.programmes pr ON pr.id = up.programme_id
+JOIN public.profiles p ON p.id = up.user_id
+WHERE pr.type = 'Premium'
+ON CONFLICT (user_id, programme_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.has_program_access(p_programme_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.programmes pr
+    WHERE pr.id = p_programme_id
+      AND (
+        pr.type <> 'Premium'
+        OR EXISTS (
+          SELECT 1
+          FROM public.user_entitlements ue
+          WHERE ue.programme_id = pr.id
+            AND ue.user_id = auth.uid()
+            AND ue.revoked_at IS NULL
+            AND (ue.expires_at IS NULL OR ue.expires_at > now())
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.redeem_receipt(
+  p_store text,
+  p_product_id text,
+  p_transaction_id text,
+  p_purchased_at timestamptz
+)
+RETURNS TABLE (
+  programme_id uuid
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_programme_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.boutiques b WHERE b.code = p_store AND b.accepte_achats
+  ) THEN
+    RAISE EXCEPTION 'Store % does not accept purchases', p_store
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT pr.id INTO v_programme_id
+  FROM public.programmes pr
+  WHERE pr.produit_id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.user_entitlements ue
+    WHERE ue.store = p_store
+      AND ue.transaction_id = p_transaction_id
+      AND (ue.user_id <> auth.uid() OR ue.programme_id <> v_programme_id)
+  ) THEN
+    RAISE EXCEPTION 'Receipt % was already redeemed', p_transaction_id
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.user_entitlements (user_id, programme_id, store, transaction_id, purchased_at)
+  VALUES (auth.uid(), v_programme_id, p_store, p_transaction_id, p_purchased_at)
+  ON CONFLICT (user_id, programme_id) DO UPDATE
+  SET store = EXCLUDED.store,
+      transaction_id = EXCLUDED.transaction_id,
+      purchased_at = EXCLUDED.purchased_at,
+      expires_at = NULL,
+      revoked_at = NULL;
+
+  RETURN QUERY SELECT v_programme_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.enroll_in_program(p_programme_id uuid)
+RETURNS SETOF public.user_programs AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.programmes pr WHERE pr.id = p_programme_id AND pr.publie
+  ) THEN
+    RAISE EXCEPTION 'Program % not found', p_programme_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.has_program_access(p_programme_id) THEN
+    RAISE EXCEPTION 'Program % requires an entitlement', p_programme_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.user_programs (user_id, programme_id)
+  VALUES (auth.uid(), p_programme_id)
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.redeem_receipt(text, text, text, timestamptz) FROM public;
+REVOKE ALL ON FUNCTION public.enroll_in_program(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.redeem_receipt(text, text, text, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enroll_in_program(uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Users can create own programs" ON public.user_programs;
+
+-- Premium rituals stay hidden until the member is entitled
+DROP POLICY IF EXISTS "Allow public read access to rituels" ON public.rituels;
+DROP POLICY IF EXISTS "Allow public read access to rituel_exercices" ON public.rituel_exercices;
+
+CREATE POLICY "Allow read access to rituels of accessible programmes"
+  ON public.rituels
+  FOR SELECT
+  TO public
+  USING (public.has_program_access(programme_id));
+
+CREATE POLICY "Allow read access to rituel_exercices of accessible programmes"
+  ON public.rituel_exercices
+  FOR SELECT
+  TO public
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.rituels r
+      WHERE r.id = rituel_id
+        AND public.has_program_access(r.programme_id)
+    )
+  );
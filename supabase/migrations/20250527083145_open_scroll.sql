@@ -0,0 +1,165 @@
+/*
+  # Program import
+
+  1. New Functions
+    - `import_programme(p_document jsonb)`: writes one program authored in
+      the versioned content format (see `lib/programFormat.ts`), already
+      validated and converted to column names by `scripts/import-programs.ts`:
+      - exercises are upserted by slug
+      - the program is upserted by slug
+      - the rituals of the program are replaced by the imported days
+      Everything happens in one transaction, so a failing import leaves the
+      program untouched. Progress is kept: logs and completions reference
+      days, not rituals. Returns the program and the number of rituals
+
+  2. Security
+    - Only callable with the service role key
+*/
+
+CREATE OR REPLACE FUNCTION public.import_programme(p_document jsonb)
+RETURNS TABLE (
+  programme_id uuid,
+  rituels integer
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_programme jsonb := p_document->'programme';
+  v_clan_id uuid;
+  v_programme_id uuid;
+  v_rituels integer;
+  v_missing text;
+BEGIN
+  IF (p_document->>'version') IS DISTINCT FROM '1' THEN
+    RAISE EXCEPTION 'Unsupported program format version %', p_document->>'version'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF v_programme->>'clan' IS NOT NULL THEN
+    SELECT c.id INTO v_clan_id
+    FROM public.clans c
+    WHERE c.code = v_programme->>'clan';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Clan % not found', v_programme->>'clan'
+        USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  INSERT INTO public.exercices (slug, nom, description, image_url, video_url, mesure)
+  SELECT e.slug, e.nom, e.description, e.image_url, e.video_url, e.mesure
+  FROM jsonb_to_recordset(COALESCE(p_document->'exercices', '[]'::jsonb)) AS e(
+    slug text,
+    nom text,
+    description text,
+    image_url text,
+    video_url text,
+    mesure text
+  )
+  ON CONFLICT (slug) DO UPDATE
+  SET nom = EXCLUDED.nom,
+      description = EXCLUDED.description,
+      image_url = EXCLUDED.image_url,
+      video_url = EXCLUDED.video_url,
+      mesure = EXCLUDED.mesure;
+
+  -- Days may use exercises imported earlier, but not unknown ones
+  SELECT x->>'exercice' INTO v_missing
+  FROM jsonb_array_elements(p_document->'rituels') d
+  CROSS JOIN LATERAL jsonb_array_elements(d->'exercices') x
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.exercices e WHERE e.slug = x->>'exercice'
+  )
+  LIMIT 1;
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Exercise % not found', v_missing
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.programmes (
+    slug,
+    nom,
+    description,
+    image_url,
+    duree_jours,
+    type,
+    tags,
+    clan_id,
+    niveau_difficulte,
+    resultats,
+    parcours_resume,
+    jours_repos,
+    politique_jours_manques,
+    ajustement_min,
+    ajustement_max,
+    coefficient_allege,
+    produit_id,
+    publie
+  )
+  VALUES (
+    v_programme->>'slug',
+    v_programme->>'nom',
+    v_programme->>'description',
+    v_programme->>'image_url',
+    (v_programme->>'duree_jours')::integer,
+    v_programme->>'type',
+    v_programme->'tags',
+    v_clan_id,
+    v_programme->>'niveau_difficulte',
+    v_programme->'resultats',
+    v_programme->'parcours_resume',
+    ARRAY(SELECT jsonb_array_elements_text(v_programme->'jours_repos')::integer),
+    v_programme->>'politique_jours_manques',
+    (v_programme->>'ajustement_min')::numeric,
+    (v_programme->>'ajustement_max')::numeric,
+    (v_programme->>'coefficient_allege')::numeric,
+    v_programme->>'produit_id',
+    (v_programme->>'publie')::boolean
+  )
+  ON CONFLICT (slug) DO UPDATE
+  SET nom = EXCLUDED.nom,
+      description = EXCLUDED.description,
+      image_url = EXCLUDED.image_url,
+      duree_jours = EXCLUDED.duree_jours,
+      type = EXCLUDED.type,
+      tags = EXCLUDED.tags,
+      clan_id = EXCLUDED.clan_id,
+      niveau_difficulte = EXCLUDED.niveau_difficulte,
+      resultats = EXCLUDED.resultats,
+      parcours_resume = EXCLUDED.parcours_resume,
+      jours_repos = EXCLUDED.jours_repos,
+      politique_jours_manques = EXCLUDED.politique_jours_manques,
+      ajustement_min = EXCLUDED.ajustement_min,
+      ajustement_max = EXCLUDED.ajustement_max,
+      coefficient_allege = EXCLUDED.coefficient_allege,
+      produit_id = EXCLUDED.produit_id,
+      publie = EXCLUDED.publie
+  RETURNING id INTO v_programme_id;
+
+  DELETE FROM public.rituels r WHERE r.programme_id = v_programme_id;
+
+  INSERT INTO public.rituels (programme_id, jour, citation)
+  SELECT v_programme_id, d.jour, d.citation
+  FROM jsonb_to_recordset(p_document->'rituels') AS d(jour integer, citation text);
+
+  GET DIAGNOSTICS v_rituels = ROW_COUNT;
+
+  INSERT INTO public.rituel_exercices (rituel_id, exercice_id, ordre, objectif, series, repos_secondes)
+  SELECT
+    r.id,
+    e.id,
+    x.ordre::integer,
+    (x.value->>'objectif')::integer,
+    (x.value->>'series')::integer,
+    (x.value->>'repos_secondes')::integer
+  FROM jsonb_array_elements(p_document->'rituels') d
+  JOIN public.rituels r ON r.programme_id = v_programme_id AND r.jour = (d->>'jour')::integer
+  CROSS JOIN LATERAL jsonb_array_elements(d->'exercices') WITH ORDINALITY AS x(value, ordre)
+  JOIN public.exercices e ON e.slug = x.value->>'exercice';
+
+  RETURN QUERY SELECT v_programme_id, v_rituels;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.import_programme(jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.import_programme(jsonb) TO service_role;
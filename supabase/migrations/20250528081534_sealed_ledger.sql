@@ -0,0 +1,79 @@
+/*
+  # Server-owned progress
+
+  1. Changes
+    - Members can no longer update `user_programs` directly: progress
+      (`current_day`, `completed`, `unlocks_on`) only moves in
+      `complete_ritual_day`, and state changes go through
+      `set_enrollment_status`
+    - On `profiles`, members can only update `name`, `clan_id`, `timezone`
+      and `public_ranking`; `total_days_completed` is only written by
+      `complete_ritual_day`
+
+  2. New Functions
+    - `set_enrollment_status(p_user_program_id, p_status)`: pauses, abandons
+      or resumes an enrollment of the caller. Resuming an enrollment that is
+      already active only touches it. A resumed enrollment keeps its
+      `unlocks_on` when it is still ahead in the member's time zone, and
+      needs access to the program
+*/
+
+REVOKE UPDATE ON public.user_programs FROM anon, authenticated;
+
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (name, clan_id, timezone, public_ranking) ON public.profiles TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_enrollment_status(
+  p_user_program_id uuid,
+  p_status text
+)
+RETURNS SETOF public.user_programs AS $$
+DECLARE
+  v_enrollment public.user_programs%ROWTYPE;
+  v_today date;
+BEGIN
+  IF p_status NOT IN ('active', 'paused', 'abandoned') THEN
+    RAISE EXCEPTION 'Status % cannot be set', p_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_enrollment
+  FROM public.user_programs up
+  WHERE up.id = p_user_program_id
+    AND up.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Enrollment % not found', p_user_program_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_status = 'active' AND v_enrollment.status <> 'active' THEN
+    IF NOT public.has_program_access(v_enrollment.programme_id) THEN
+      RAISE EXCEPTION 'Program % requires an entitlement', v_enrollment.programme_id
+        USING ERRCODE = '42501';
+    END IF;
+
+    -- Unknown zone names fall back to UTC
+    SELECT (now() AT TIME ZONE COALESCE(tz.name, 'UTC'))::date INTO v_today
+    FROM public.profiles p
+    LEFT JOIN pg_catalog.pg_timezone_names tz ON tz.name = p.timezone
+    WHERE p.id = v_enrollment.user_id;
+
+    IF v_enrollment.unlocks_on IS NOT NULL AND v_enrollment.unlocks_on <= v_today THEN
+      v_enrollment.unlocks_on := NULL;
+    END IF;
+  END IF;
+
+  -- Final states are enforced by handle_user_program_status
+  RETURN QUERY
+  UPDATE public.user_programs up
+  SET status = p_status,
+      unlocks_on = v_enrollment.unlocks_on
+  WHERE up.id = p_user_program_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.set_enrollment_status(uuid, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_enrollment_status(uuid, text) TO authenticated;
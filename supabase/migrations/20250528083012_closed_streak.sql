@@ -0,0 +1,11 @@
+/*
+  # Private streak refresh
+
+  1. Security
+    - `refresh_user_streak(p_user_id)` is only called by
+      `complete_ritual_day`. Supabase grants EXECUTE on new functions to
+      `anon` and `authenticated` by default, which revoking from public
+      does not remove, so any client could recompute any member's streak
+*/
+
+REVOKE ALL ON FUNCTION public.refresh_user_streak(uuid) FROM public, anon, authenticated;
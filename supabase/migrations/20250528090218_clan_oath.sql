@@ -0,0 +1,91 @@
+/*
+  # Clan badges since joining
+
+  1. Changes
+    - Add `clan_joined_at` (timestamp with timezone) to `profiles`: when the
+      member joined their current clan, NULL without a clan. It is set by
+      `handle_profile_clan_change` and members cannot write it. Existing
+      members are dated from their profile creation
+    - `evaluate_achievements(p_user_id)` replaces the previous version. Clan
+      badges only count the rituals completed since the member joined the
+      clan
+
+  2. New Functions
+    - `handle_profile_clan_change()`: trigger dating `clan_joined_at` when a
+      profile is created with a clan or changes clan
+
+  3. Security
+    - `evaluate_achievements` can no longer be called by `anon` or
+      `authenticated`; badges are only awarded by `handle_progress_event`
+*/
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS clan_joined_at timestamptz;
+
+UPDATE public.profiles
+SET clan_joined_at = COALESCE(created_at, now())
+WHERE clan_id IS NOT NULL
+  AND clan_joined_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.handle_profile_clan_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.clan_id IS DISTINCT FROM OLD.clan_id THEN
+    NEW.clan_joined_at := CASE WHEN NEW.clan_id IS NOT NULL THEN now() END;
+  ELSE
+    NEW.clan_joined_at := OLD.clan_joined_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER on_profile_clan_change
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_profile_clan_change();
+
+CREATE OR REPLACE FUNCTION public.evaluate_achievements(p_user_id uuid)
+RETURNS SETOF public.user_badges AS $$
+  INSERT INTO public.user_badges (user_id, badge_id)
+  SELECT p.id, b.id
+  FROM public.badges b
+  JOIN public.profiles p ON p.id = p_user_id
+  WHERE (b.clan_id IS NULL OR b.clan_id = p.clan_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.user_badges ub
+      WHERE ub.user_id = p.id
+        AND ub.badge_id = b.id
+    )
+    AND CASE b.regle
+      WHEN 'rituels' THEN (
+        SELECT count(*)
+        FROM public.ritual_completions rc
+        WHERE rc.user_id = p.id
+          AND (b.clan_id IS NULL OR rc.completed_at >= p.clan_joined_at)
+      ) >= b.seuil
+      WHEN 'serie' THEN COALESCE((
+        SELECT s.longest_streak
+        FROM public.user_streaks s
+        WHERE s.user_id = p.id
+      ), 0) >= b.seuil
+      WHEN 'repetitions' THEN (
+        SELECT COALESCE(sum(el.reps), 0)
+        FROM public.exercise_logs el
+        WHERE el.user_id = p.id
+          AND (b.exercice_id IS NULL OR el.exercice_id = b.exercice_id)
+      ) >= b.seuil
+      WHEN 'programmes_termines' THEN (
+        SELECT count(*)
+        FROM public.user_programs up
+        WHERE up.user_id = p.id
+          AND up.status = 'completed'
+      ) >= b.seuil
+      ELSE false
+    END
+  ON CONFLICT (user_id, badge_id) DO NOTHING
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.evaluate_achievements(uuid) FROM public, anon, authenticated;
@@ -0,0 +1,11 @@
+/*
+  # Private member stats
+
+  1. Security
+    - `member_stats(p_since)` is only read by the leaderboard functions.
+      Revoking it from public left the default grants to `anon` and
+      `authenticated`, so any client could read every member's progress,
+      opted-out members included
+*/
+
+REVOKE ALL ON FUNCTION public.member_stats(timestamptz) FROM public, anon, authenticated;
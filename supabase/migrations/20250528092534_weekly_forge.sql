@@ -0,0 +1,112 @@
+/*
+  # Weekly challenge generation
+
+  1. New Functions
+    - `create_weekly_challenges()`: creates the challenge of the running week
+      and of the next one for every clan that does not have it yet. Each clan
+      repeats its latest challenge (title, exercise, goal and reward badge),
+      clans that never had one get the 50 000 squats challenge. Returns the
+      created challenges
+
+  2. Changes
+    - Enable `pg_cron` and run `create_weekly_challenges` every day, so next
+      week's challenges exist before Monday and a missed run is caught up
+    - Create next week's challenges now
+
+  3. Security
+    - `create_weekly_challenges` is only callable by `service_role`
+    - `challenge_progress(p_defi_id)` is only used by `get_active_challenge`
+      and `handle_challenge_contribution`; it can no longer be called by
+      `anon` or `authenticated`
+*/
+
+REVOKE ALL ON FUNCTION public.challenge_progress(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_weekly_challenges()
+RETURNS SETOF public.defis AS $$
+DECLARE
+  v_week timestamptz;
+  v_clan public.clans%ROWTYPE;
+  v_template public.defis%ROWTYPE;
+  v_badge public.badges%ROWTYPE;
+  v_badge_id uuid;
+  v_code text;
+BEGIN
+  FOREACH v_week IN ARRAY ARRAY[
+    public.leaderboard_since('week'),
+    public.leaderboard_since('week') + interval '7 days'
+  ] LOOP
+    FOR v_clan IN SELECT * FROM public.clans LOOP
+      CONTINUE WHEN EXISTS (
+        SELECT 1
+        FROM public.defis d
+        WHERE d.clan_id = v_clan.id
+          AND d.debut = v_week
+      );
+
+      SELECT * INTO v_template
+      FROM public.defis d
+      WHERE d.clan_id = v_clan.id
+      ORDER BY d.debut DESC
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        v_template.titre := initcap(v_clan.nom_clan) || ' : 50 000 squats cette semaine';
+        v_template.description := 'Chaque squat enregistré pendant vos rituels rapproche le clan de l''objectif.';
+        v_template.exercice_id := (SELECT e.id FROM public.exercices e WHERE e.slug = 'squats');
+        v_template.objectif := 50000;
+        v_template.badge_id := NULL;
+      END IF;
+
+      SELECT * INTO v_badge
+      FROM public.badges b
+      WHERE b.id = v_template.badge_id;
+
+      IF NOT FOUND THEN
+        v_badge.nom := 'Défi des 50 000 squats';
+        v_badge.description := 'Atteindre avec votre clan l''objectif du défi de la semaine.';
+        v_badge.icone := 'users';
+        v_badge.ordre := 7;
+      END IF;
+
+      -- Weeks are calendar weeks in UTC, like leaderboard_since
+      v_code := 'defi-' || v_clan.code || '-' || to_char(v_week AT TIME ZONE 'UTC', 'IYYY-IW');
+
+      INSERT INTO public.badges (code, nom, description, icone, regle, seuil, clan_id, ordre)
+      VALUES (v_code, v_badge.nom, v_badge.description, v_badge.icone, 'defi', 1, v_clan.id, v_badge.ordre)
+      ON CONFLICT (code) DO NOTHING;
+
+      SELECT b.id INTO v_badge_id
+      FROM public.badges b
+      WHERE b.code = v_code;
+
+      RETURN QUERY
+      INSERT INTO public.defis (clan_id, titre, description, exercice_id, objectif, debut, fin, badge_id)
+      VALUES (
+        v_clan.id,
+        v_template.titre,
+        v_template.description,
+        v_template.exercice_id,
+        v_template.objectif,
+        v_week,
+        v_week + interval '7 days',
+        v_badge_id
+      )
+      RETURNING *;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.create_weekly_challenges() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_weekly_challenges() TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'create-weekly-challenges',
+  '5 0 * * *',
+  'SELECT public.create_weekly_challenges()'
+);
+
+SELECT public.create_weekly_challenges();
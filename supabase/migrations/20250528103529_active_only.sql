@@ -0,0 +1,217 @@
+/*
+  # Completions of active enrollments only
+
+  1. Changes
+    - `complete_ritual_day` refuses new completions unless the enrollment is
+      active. Completions of an abandoned enrollment used to be recorded and
+      counted in the member's days while the enrollment stayed frozen, so the
+      same day could be completed again and again. Replayed completions still
+      return the current state
+    - `handle_user_program_status()` replaces the previous version: abandoned
+      enrollments still never move, but no completion reaches them anymore
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_user_program_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND OLD.status IN ('completed', 'abandoned') THEN
+    RAISE EXCEPTION 'A % enrollment cannot change state', OLD.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Abandoned enrollments keep the progress they had when abandoned
+  IF OLD.status = 'abandoned' THEN
+    NEW.current_day := OLD.current_day;
+    NEW.unlocks_on := OLD.unlocks_on;
+    NEW.completed := OLD.completed;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.completed AND NOT OLD.completed THEN
+    NEW.status := 'completed';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'paused' THEN NEW.paused_at := now();
+      WHEN 'abandoned' THEN NEW.abandoned_at := now();
+      WHEN 'completed' THEN
+        NEW.completed := true;
+        NEW.completed_at := now();
+      ELSE NULL;
+    END CASE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.complete_ritual_day(
+  p_completion_id uuid,
+  p_user_program_id uuid,
+  p_day integer,
+  p_completed_at timestamptz DEFAULT now()
+)
+RETURNS TABLE (
+  current_day integer,
+  completed boolean,
+  unlocks_on date,
+  total_days_completed integer,
+  current_streak integer,
+  longest_streak integer,
+  last_completed_on date
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_enrollment public.user_programs%ROWTYPE;
+  v_programme public.programmes%ROWTYPE;
+  v_timezone text;
+  v_completed_at timestamptz;
+  v_completed_on date;
+  v_next_day integer;
+  v_unlocks_on date;
+  v_replayed_enrollment_id uuid;
+BEGIN
+  SELECT * INTO v_enrollment
+  FROM public.user_programs up
+  WHERE up.id = p_user_program_id
+    AND up.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Enrollment % not found', p_user_program_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT rc.user_program_id INTO v_replayed_enrollment_id
+  FROM public.ritual_completions rc
+  WHERE rc.id = p_completion_id;
+
+  IF v_replayed_enrollment_id <> p_user_program_id THEN
+    RAISE EXCEPTION 'Completion % belongs to another enrollment', p_completion_id
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- A replayed completion only returns the current state, whatever the
+  -- enrollment became since
+  IF v_replayed_enrollment_id IS NULL THEN
+    SELECT * INTO v_programme
+    FROM public.programmes pr
+    WHERE pr.id = v_enrollment.programme_id;
+
+    -- Paused, abandoned and finished enrollments are not followed
+    IF v_enrollment.status <> 'active' THEN
+      RAISE EXCEPTION 'Enrollment % is %', p_user_program_id, v_enrollment.status
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF NOT public.has_program_access(v_enrollment.programme_id) THEN
+      RAISE EXCEPTION 'Program % requires an entitlement', v_enrollment.programme_id
+        USING ERRCODE = '42501';
+    END IF;
+
+    IF p_day < 1 OR p_day > v_programme.duree_jours THEN
+      RAISE EXCEPTION 'Day % is outside of the program', p_day
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Unknown zone names fall back to UTC rather than failing the completion
+    SELECT COALESCE(tz.name, 'UTC') INTO v_timezone
+    FROM public.profiles p
+    LEFT JOIN pg_catalog.pg_timezone_names tz ON tz.name = p.timezone
+    WHERE p.id = v_enrollment.user_id;
+
+    -- Queued completions keep their day back to yesterday at most, so at
+    -- most one missed day can be made up, whatever date the client sends
+    v_completed_at := LEAST(now(), GREATEST(
+      COALESCE(p_completed_at, now()),
+      ((now() AT TIME ZONE COALESCE(v_timezone, 'UTC'))::date - 1)::timestamp AT TIME ZONE COALESCE(v_timezone, 'UTC')
+    ));
+    v_completed_on := (v_completed_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::date;
+
+    -- Missed days are settled against the day of this completion
+    IF NOT v_enrollment.completed
+      AND v_enrollment.unlocks_on IS NOT NULL
+      AND v_completed_on > v_enrollment.unlocks_on
+      AND v_programme.politique_jours_manques <> 'attente'
+    THEN
+      IF v_programme.politique_jours_manques = 'saut' THEN
+        v_enrollment.current_day := v_enrollment.current_day + (v_completed_on - v_enrollment.unlocks_on);
+      ELSE
+        v_enrollment.current_day := COALESCE((
+          SELECT max((ph->>'jour_debut')::integer)
+          FROM jsonb_array_elements(v_programme.parcours_resume) ph
+          WHERE jsonb_typeof(ph->'jour_debut') = 'number'
+            AND (ph->>'jour_debut')::integer <= v_enrollment.current_day
+        ), 1);
+      END IF;
+
+      v_enrollment.unlocks_on := v_completed_on;
+
+      WHILE v_enrollment.current_day = ANY (v_programme.jours_repos) LOOP
+        v_enrollment.current_day := v_enrollment.current_day + 1;
+        v_enrollment.unlocks_on := v_enrollment.unlocks_on + 1;
+      END LOOP;
+
+      v_enrollment.current_day := LEAST(v_enrollment.current_day, v_programme.duree_jours + 1);
+      v_enrollment.completed := v_enrollment.current_day > v_programme.duree_jours;
+
+      UPDATE public.user_programs up
+      SET current_day = v_enrollment.current_day,
+          unlocks_on = v_enrollment.unlocks_on,
+          completed = v_enrollment.completed
+      WHERE up.id = p_user_program_id;
+    END IF;
+
+    IF p_day > v_enrollment.current_day THEN
+      RAISE EXCEPTION 'Day % is not unlocked yet', p_day
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF p_day = v_enrollment.current_day AND NOT v_enrollment.completed THEN
+      IF v_enrollment.unlocks_on IS NOT NULL AND v_completed_on < v_enrollment.unlocks_on THEN
+        RAISE EXCEPTION 'Day % unlocks on %', p_day, v_enrollment.unlocks_on
+          USING ERRCODE = '22023';
+      END IF;
+
+      INSERT INTO public.ritual_completions (id, user_id, user_program_id, jour, completed_at, completed_on)
+      VALUES (p_completion_id, v_enrollment.user_id, p_user_program_id, p_day, v_completed_at, v_completed_on);
+
+      -- The next ritual unlocks tomorrow, after the rest days that follow
+      v_next_day := p_day + 1;
+      v_unlocks_on := v_completed_on + 1;
+
+      WHILE v_next_day = ANY (v_programme.jours_repos) LOOP
+        v_next_day := v_next_day + 1;
+        v_unlocks_on := v_unlocks_on + 1;
+      END LOOP;
+
+      UPDATE public.user_programs up
+      SET current_day = LEAST(v_next_day, v_programme.duree_jours + 1),
+          unlocks_on = v_unlocks_on,
+          completed = v_next_day > v_programme.duree_jours
+      WHERE up.id = p_user_program_id;
+
+      UPDATE public.profiles p
+      SET total_days_completed = COALESCE(p.total_days_completed, 0) + 1
+      WHERE p.id = v_enrollment.user_id;
+
+      PERFORM public.refresh_user_streak(v_enrollment.user_id);
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    up.current_day,
+    up.completed,
+    up.unlocks_on,
+    COALESCE(p.total_days_completed, 0),
+    COALESCE(s.current_streak, 0),
+    COALESCE(s.longest_streak, 0),
+    s.last_completed_on
+  FROM public.user_programs up
+  JOIN public.profiles p ON p.id = up.user_id
+  LEFT JOIN public.user_streaks s ON s.user_id = up.user_id
+  WHERE up.id = p_user_program_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,235 @@
+/*
+  # Bounded exercise logs and leaderboards
+
+  1. Changes
+    - Logs are checked before they are stored: the day must be unlocked, the
+      exercise must be part of the ritual of that day, and the total of the
+      day for the exercise must stay between 0 and the target of the day
+      scaled by the largest adjustment of the program (`ajustement_max`).
+      The app never logs past the target, so only forged amounts are refused
+    - `member_stats`, `get_member_leaderboard` and `get_clan_leaderboard` are
+      recreated with `reps_logged` as bigint, so large totals never overflow
+
+  2. New Functions
+    - `handle_exercise_log_bounds()`: trigger checking each new log
+
+  3. Security
+    - `get_member_leaderboard` and `get_clan_leaderboard` can no longer be
+      called by `anon`: they return the names of opted-in members.
+      `member_stats` stays private to them
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_exercise_log_bounds()
+RETURNS trigger AS $$
+DECLARE
+  v_enrollment public.user_programs%ROWTYPE;
+  v_limit integer;
+  v_total bigint;
+BEGIN
+  -- A replayed log is skipped by its ON CONFLICT clause, not refused here
+  IF EXISTS (SELECT 1 FROM public.exercise_logs el WHERE el.id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Locking the enrollment checks the logs of a day one at a time
+  SELECT * INTO v_enrollment
+  FROM public.user_programs up
+  WHERE up.id = NEW.user_program_id
+  FOR UPDATE;
+
+  IF NEW.jour > v_enrollment.current_day THEN
+    RAISE EXCEPTION 'Day % is not unlocked yet', NEW.jour
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT re.series * GREATEST(1, round(re.objectif * pr.ajustement_max))::integer INTO v_limit
+  FROM public.rituels r
+  JOIN public.rituel_exercices re ON re.rituel_id = r.id
+  JOIN public.programmes pr ON pr.id = r.programme_id
+  WHERE r.programme_id = v_enrollment.programme_id
+    AND r.jour = NEW.jour
+    AND re.exercice_id = NEW.exercice_id;
+
+  IF v_limit IS NULL THEN
+    RAISE EXCEPTION 'Exercise % is not part of day %', NEW.exercice_id, NEW.jour
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum(COALESCE(el.reps, el.secondes, el.metres)), 0) INTO v_total
+  FROM public.exercise_logs el
+  WHERE el.user_program_id = NEW.user_program_id
+    AND el.jour = NEW.jour
+    AND el.exercice_id = NEW.exercice_id;
+
+  v_total := v_total + COALESCE(NEW.reps, NEW.secondes, NEW.metres);
+
+  IF v_total < 0 OR v_total > v_limit THEN
+    RAISE EXCEPTION 'Day % total of exercise % would be %, outside of 0 to %',
+      NEW.jour, NEW.exercice_id, v_total, v_limit
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_exercise_log_bounds
+  BEFORE INSERT ON public.exercise_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_exercise_log_bounds();
+
+-- Return types change, so the functions are recreated
+DROP FUNCTION IF EXISTS public.get_member_leaderboard(text, text, uuid, integer);
+DROP FUNCTION IF EXISTS public.get_clan_leaderboard(text, text);
+DROP FUNCTION IF EXISTS public.member_stats(timestamptz);
+
+CREATE FUNCTION public.member_stats(p_since timestamptz)
+RETURNS TABLE (
+  user_id uuid,
+  clan_id uuid,
+  days_completed integer,
+  reps_logged bigint,
+  current_streak integer
+) AS $$
+  SELECT
+    p.id,
+    p.clan_id,
+    (
+      SELECT count(*)::integer
+      FROM public.ritual_completions rc
+      WHERE rc.user_id = p.id
+        AND rc.completed_at >= p_since
+    ),
+    (
+      SELECT COALESCE(sum(el.reps), 0)::bigint
+      FROM public.exercise_logs el
+      WHERE el.user_id = p.id
+        AND el.logged_at >= p_since
+    ),
+    -- The snapshot keeps its value until the next completion
+    CASE
+      WHEN s.last_completed_on >= (now() AT TIME ZONE COALESCE(tz.name, 'UTC'))::date - 1
+        THEN s.current_streak
+      ELSE 0
+    END
+  FROM public.profiles p
+  LEFT JOIN public.user_streaks s ON s.user_id = p.id
+  LEFT JOIN pg_catalog.pg_timezone_names tz ON tz.name = p.timezone;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE FUNCTION public.get_member_leaderboard(
+  p_period text,
+  p_metric text,
+  p_clan_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  rank bigint,
+  user_id uuid,
+  name text,
+  clan_id uuid,
+  days_completed integer,
+  reps_logged bigint,
+  current_streak integer,
+  is_current_user boolean
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_period NOT IN ('week', 'month', 'all') OR p_metric NOT IN ('days', 'reps', 'streak') THEN
+    RAISE EXCEPTION 'Unknown leaderboard % / %', p_period, p_metric
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      ms.*,
+      p.name,
+      rank() OVER (
+        ORDER BY CASE p_metric
+          WHEN 'days' THEN ms.days_completed
+          WHEN 'reps' THEN ms.reps_logged
+          ELSE ms.current_streak
+        END DESC
+      ) AS position
+    FROM public.member_stats(public.leaderboard_since(p_period)) ms
+    JOIN public.profiles p ON p.id = ms.user_id
+    WHERE (p.public_ranking OR p.id = auth.uid())
+      AND (p_clan_id IS NULL OR ms.clan_id = p_clan_id)
+      AND (ms.days_completed > 0 OR ms.reps_logged > 0 OR ms.current_streak > 0 OR p.id = auth.uid())
+  )
+  SELECT
+    r.position,
+    r.user_id,
+    r.name,
+    r.clan_id,
+    r.days_completed,
+    r.reps_logged,
+    r.current_streak,
+    r.user_id = auth.uid()
+  FROM ranked r
+  WHERE r.position <= p_limit OR r.user_id = auth.uid()
+  ORDER BY r.position, r.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE FUNCTION public.get_clan_leaderboard(
+  p_period text,
+  p_metric text
+)
+RETURNS TABLE (
+  rank bigint,
+  clan_id uuid,
+  name text,
+  color text,
+  members integer,
+  days_completed integer,
+  reps_logged bigint,
+  active_streaks integer
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_period NOT IN ('week', 'month', 'all') OR p_metric NOT IN ('days', 'reps', 'streak') THEN
+    RAISE EXCEPTION 'Unknown leaderboard % / %', p_period, p_metric
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT
+      c.id,
+      c.nom_clan,
+      c.couleur_theme,
+      count(ms.user_id)::integer AS members,
+      COALESCE(sum(ms.days_completed), 0)::integer AS days_completed,
+      COALESCE(sum(ms.reps_logged), 0)::bigint AS reps_logged,
+      (count(*) FILTER (WHERE ms.current_streak > 0))::integer AS active_streaks
+    FROM public.clans c
+    LEFT JOIN public.member_stats(public.leaderboard_since(p_period)) ms ON ms.clan_id = c.id
+    GROUP BY c.id, c.nom_clan, c.couleur_theme
+  )
+  SELECT
+    rank() OVER (
+      ORDER BY CASE p_metric
+        WHEN 'days' THEN t.days_completed
+        WHEN 'reps' THEN t.reps_logged
+        ELSE t.active_streaks
+      END DESC
+    ),
+    t.id,
+    t.nom_clan,
+    t.couleur_theme,
+    t.members,
+    t.days_completed,
+    t.reps_logged,
+    t.active_streaks
+  FROM totals t
+  ORDER BY 1, t.nom_clan;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.member_stats(timestamptz) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_member_leaderboard(text, text, uuid, integer) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_clan_leaderboard(text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_member_leaderboard(text, text, uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_clan_leaderboard(text, text) TO authenticated;
@@ -0,0 +1,265 @@
+/*
+  # Running challenge totals
+
+  1. Changes
+    - Add `clan_id` (uuid, references clans) to `exercise_logs`: the clan of
+      the member when the log was stored, set by `handle_exercise_log_clan`.
+      Reps count for the clan they were logged in, so a member changing clan
+      mid-week no longer carries them to the new clan. Existing logs are
+      given the member's current clan when logged after joining it
+    - Add `progression` (bigint) to `defis`: reps logged toward the challenge,
+      kept up to date as reps are logged instead of summed on every read
+    - `challenge_progress`, `get_challenge_contributions` and
+      `get_active_challenge` are recreated to read the running totals, as
+      bigint
+    - `handle_challenge_contribution()` replaces the previous version. Each
+      log only adds its reps to the matching challenges and to the
+      contribution of its member. The reward goes to members whose net
+      contribution is positive, so undone reps do not earn it
+
+  2. New Tables
+    - `defi_contributions`: net reps of each member toward a challenge
+      - `defi_id` (uuid, references defis)
+      - `user_id` (uuid, references profiles)
+      - `reps` (bigint)
+      - Primary key on (`defi_id`, `user_id`)
+
+  3. New Functions
+    - `handle_exercise_log_clan()`: trigger stamping the clan of new logs
+    - `recount_challenge(p_defi_id)`: recomputes the contributions and
+      progression of a challenge from the logs
+    - `handle_new_challenge()`: trigger counting the reps already logged in
+      the window of a new challenge
+
+  4. Security
+    - Enable RLS on `defi_contributions` without policies: contributions are
+      only read through `get_challenge_contributions` and
+      `get_active_challenge`
+    - `recount_challenge` and `challenge_progress` cannot be called by
+      clients
+*/
+
+ALTER TABLE public.exercise_logs
+  ADD COLUMN IF NOT EXISTS clan_id uuid REFERENCES public.clans(id) ON DELETE SET NULL;
+
+UPDATE public.exercise_logs el
+SET clan_id = p.clan_id
+FROM public.profiles p
+WHERE p.id = el.user_id
+  AND el.logged_at >= p.clan_joined_at;
+
+CREATE INDEX IF NOT EXISTS exercise_logs_clan_id_idx
+  ON public.exercise_logs (clan_id, logged_at);
+
+CREATE OR REPLACE FUNCTION public.handle_exercise_log_clan()
+RETURNS trigger AS $$
+BEGIN
+  NEW.clan_id := (
+    SELECT p.clan_id
+    FROM public.profiles p
+    WHERE p.id = NEW.user_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_exercise_log_clan
+  BEFORE INSERT ON public.exercise_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_exercise_log_clan();
+
+ALTER TABLE public.defis
+  ADD COLUMN IF NOT EXISTS progression bigint NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.defi_contributions (
+  defi_id uuid NOT NULL REFERENCES public.defis(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reps bigint NOT NULL DEFAULT 0,
+  PRIMARY KEY (defi_id, user_id)
+);
+
+ALTER TABLE public.defi_contributions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.recount_challenge(p_defi_id uuid)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM public.defi_contributions c
+  WHERE c.defi_id = p_defi_id;
+
+  INSERT INTO public.defi_contributions (defi_id, user_id, reps)
+  SELECT d.id, el.user_id, sum(el.reps)
+  FROM public.defis d
+  JOIN public.exercise_logs el ON el.clan_id = d.clan_id
+  WHERE d.id = p_defi_id
+    AND el.reps IS NOT NULL
+    AND el.logged_at >= d.debut
+    AND el.logged_at < d.fin
+    AND (d.exercice_id IS NULL OR el.exercice_id = d.exercice_id)
+  GROUP BY d.id, el.user_id;
+
+  UPDATE public.defis d
+  SET progression = COALESCE((
+    SELECT sum(c.reps)
+    FROM public.defi_contributions c
+    WHERE c.defi_id = d.id
+  ), 0)
+  WHERE d.id = p_defi_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.recount_challenge(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_challenge()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM public.recount_challenge(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_challenge_created
+  AFTER INSERT ON public.defis
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_challenge();
+
+SELECT public.recount_challenge(d.id)
+FROM public.defis d;
+
+CREATE OR REPLACE FUNCTION public.handle_challenge_contribution()
+RETURNS trigger AS $$
+DECLARE
+  v_defi public.defis%ROWTYPE;
+  v_contribution bigint;
+BEGIN
+  IF NEW.reps IS NULL OR NEW.clan_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_defi IN
+    UPDATE public.defis d
+    SET progression = d.progression + NEW.reps
+    WHERE d.clan_id = NEW.clan_id
+      AND NEW.logged_at >= d.debut
+      AND NEW.logged_at < d.fin
+      AND (d.exercice_id IS NULL OR d.exercice_id = NEW.exercice_id)
+    RETURNING d.*
+  LOOP
+    INSERT INTO public.defi_contributions AS c (defi_id, user_id, reps)
+    VALUES (v_defi.id, NEW.user_id, NEW.reps)
+    ON CONFLICT (defi_id, user_id) DO UPDATE
+    SET reps = c.reps + EXCLUDED.reps
+    RETURNING c.reps INTO v_contribution;
+
+    IF v_defi.complete_le IS NULL AND v_defi.progression >= v_defi.objectif THEN
+      UPDATE public.defis
+      SET complete_le = now()
+      WHERE id = v_defi.id
+        AND complete_le IS NULL;
+
+      -- Everyone who contributed so far gets the reward
+      IF v_defi.badge_id IS NOT NULL THEN
+        INSERT INTO public.user_badges (user_id, badge_id)
+        SELECT c.user_id, v_defi.badge_id
+        FROM public.defi_contributions c
+        WHERE c.defi_id = v_defi.id
+          AND c.reps > 0
+        ON CONFLICT (user_id, badge_id) DO NOTHING;
+      END IF;
+    ELSIF v_defi.complete_le IS NOT NULL AND v_defi.badge_id IS NOT NULL AND v_contribution > 0 THEN
+      -- Late contributors get it too
+      INSERT INTO public.user_badges (user_id, badge_id)
+      VALUES (NEW.user_id, v_defi.badge_id)
+      ON CONFLICT (user_id, badge_id) DO NOTHING;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Return types change, so the functions are recreated
+DROP FUNCTION IF EXISTS public.get_active_challenge();
+DROP FUNCTION IF EXISTS public.get_challenge_contributions(uuid);
+DROP FUNCTION IF EXISTS public.challenge_progress(uuid);
+
+CREATE FUNCTION public.challenge_progress(p_defi_id uuid)
+RETURNS bigint AS $$
+  SELECT d.progression
+  FROM public.defis d
+  WHERE d.id = p_defi_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE FUNCTION public.get_challenge_contributions(p_defi_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  name text,
+  reps bigint,
+  is_current_user boolean
+) AS $$
+  SELECT
+    p.id,
+    CASE WHEN p.public_ranking OR p.id = auth.uid() THEN p.name END,
+    c.reps,
+    p.id = auth.uid()
+  FROM public.defis d
+  JOIN public.defi_contributions c ON c.defi_id = d.id
+  JOIN public.profiles p ON p.id = c.user_id
+  WHERE d.id = p_defi_id
+    AND c.reps > 0
+    -- Only members of the clan see the contributions
+    AND d.clan_id = (SELECT me.clan_id FROM public.profiles me WHERE me.id = auth.uid())
+  ORDER BY 3 DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE FUNCTION public.get_active_challenge()
+RETURNS TABLE (
+  id uuid,
+  clan_id uuid,
+  titre text,
+  description text,
+  exercice_id uuid,
+  exercice_nom text,
+  objectif integer,
+  debut timestamptz,
+  fin timestamptz,
+  complete_le timestamptz,
+  progress bigint,
+  contribution bigint,
+  badge_nom text,
+  badge_description text,
+  badge_icone text
+) AS $$
+  SELECT
+    d.id,
+    d.clan_id,
+    d.titre,
+    d.description,
+    d.exercice_id,
+    e.nom,
+    d.objectif,
+    d.debut,
+    d.fin,
+    d.complete_le,
+    d.progression,
+    COALESCE(c.reps, 0),
+    b.nom,
+    b.description,
+    b.icone
+  FROM public.profiles me
+  JOIN public.defis d ON d.clan_id = me.clan_id
+  LEFT JOIN public.defi_contributions c ON c.defi_id = d.id AND c.user_id = me.id
+  LEFT JOIN public.exercices e ON e.id = d.exercice_id
+  LEFT JOIN public.badges b ON b.id = d.badge_id
+  WHERE me.id = auth.uid()
+    AND d.debut <= now()
+    AND d.fin > now()
+  ORDER BY d.fin
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.challenge_progress(uuid) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_challenge_contributions(uuid) FROM public, anon;
+REVOKE ALL ON FUNCTION public.get_active_challenge() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.get_challenge_contributions(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_active_challenge() TO authenticated;
@@ -0,0 +1,58 @@
+/*
+  # Undos of corrections
+
+  1. Changes
+    - An 'annulation' no longer has to be negative: it has the opposite
+      quantity of the log it cancels, so undoing a correction that lowered
+      the day total adds the amount back. It used to be refused by
+      `exercise_logs_sign_check`
+    - The undone log must be of the same enrollment, day and exercise, and in
+      the same unit
+
+  2. New Functions
+    - `handle_exercise_log_undo()`: trigger checking each new 'annulation'
+      against the log it cancels
+*/
+
+ALTER TABLE public.exercise_logs
+  DROP CONSTRAINT IF EXISTS exercise_logs_sign_check,
+  ADD CONSTRAINT exercise_logs_sign_check CHECK (
+    CASE nature
+      WHEN 'saisie' THEN COALESCE(reps, secondes, metres) > 0
+      ELSE COALESCE(reps, secondes, metres) <> 0
+    END
+  );
+
+CREATE OR REPLACE FUNCTION public.handle_exercise_log_undo()
+RETURNS trigger AS $$
+DECLARE
+  v_undone public.exercise_logs%ROWTYPE;
+BEGIN
+  IF NEW.nature <> 'annulation' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_undone
+  FROM public.exercise_logs el
+  WHERE el.id = NEW.annule_log_id;
+
+  IF NOT FOUND
+    OR v_undone.user_program_id <> NEW.user_program_id
+    OR v_undone.jour <> NEW.jour
+    OR v_undone.exercice_id <> NEW.exercice_id
+    OR v_undone.reps IS DISTINCT FROM -NEW.reps
+    OR v_undone.secondes IS DISTINCT FROM -NEW.secondes
+    OR v_undone.metres IS DISTINCT FROM -NEW.metres
+  THEN
+    RAISE EXCEPTION 'Log % does not cancel log %', NEW.id, NEW.annule_log_id
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_exercise_log_undo
+  BEFORE INSERT ON public.exercise_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_exercise_log_undo();
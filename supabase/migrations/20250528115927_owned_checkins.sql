@@ -0,0 +1,23 @@
+/*
+  # Check-ins stay on own enrollments
+
+  1. Security
+    - Replace the "Users can update own ritual checkins" policy: the updated
+      row must still point to an enrollment of the member. A check-in could
+      otherwise be moved to the enrollment of another member
+*/
+
+DROP POLICY IF EXISTS "Users can update own ritual checkins" ON public.ritual_checkins;
+
+CREATE POLICY "Users can update own ritual checkins"
+  ON public.ritual_checkins
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.user_programs up
+      WHERE up.id = user_program_id AND up.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,81 @@
+/*
+  # Receipts verified by the server
+
+  1. Changes
+    - Members can no longer record entitlements themselves: `redeem_receipt`
+      took the receipt sent by the app at its word. Receipts now go through
+      the `redeem-receipt` Edge Function, which checks them with their store
+      before recording the entitlement with `redeem_verified_receipt`
+    - Only the test store can be checked for now, and only on projects that
+      enable it. App Store and Google Play receipts are refused until their
+      verification is written, so production builds have no purchase path
+
+  2. New Functions
+    - `redeem_verified_receipt(p_user_id, p_store, p_product_id,
+      p_transaction_id, p_purchased_at)`: records the entitlement of a
+      member for a receipt checked with its store; replaying the same receipt
+      is harmless. Returns the unlocked program
+
+  3. Security
+    - Drop `redeem_receipt`
+    - `redeem_verified_receipt` can only be called with the service role
+*/
+
+DROP FUNCTION IF EXISTS public.redeem_receipt(text, text, text, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.redeem_verified_receipt(
+  p_user_id uuid,
+  p_store text,
+  p_product_id text,
+  p_transaction_id text,
+  p_purchased_at timestamptz
+)
+RETURNS TABLE (
+  programme_id uuid
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_programme_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.boutiques b WHERE b.code = p_store AND b.accepte_achats
+  ) THEN
+    RAISE EXCEPTION 'Store % does not accept purchases', p_store
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT pr.id INTO v_programme_id
+  FROM public.programmes pr
+  WHERE pr.produit_id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.user_entitlements ue
+    WHERE ue.store = p_store
+      AND ue.transaction_id = p_transaction_id
+      AND (ue.user_id <> p_user_id OR ue.programme_id <> v_programme_id)
+  ) THEN
+    RAISE EXCEPTION 'Receipt % was already redeemed', p_transaction_id
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.user_entitlements (user_id, programme_id, store, transaction_id, purchased_at)
+  VALUES (p_user_id, v_programme_id, p_store, p_transaction_id, p_purchased_at)
+  ON CONFLICT (user_id, programme_id) DO UPDATE
+  SET store = EXCLUDED.store,
+      transaction_id = EXCLUDED.transaction_id,
+      purchased_at = EXCLUDED.purchased_at,
+      expires_at = NULL,
+      revoked_at = NULL;
+
+  RETURN QUERY SELECT v_programme_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.redeem_verified_receipt(uuid, text, text, text, timestamptz) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_verified_receipt(uuid, text, text, text, timestamptz) TO service_role;
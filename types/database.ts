@@ -0,0 +1,1079 @@
+// Database schema types, kept in sync with supabase/migrations.
+// Same shape as `supabase gen types typescript` so it can be regenerated.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      profiles: {
+        Row: {
+          id: string;
+          name: string;
+          clan_id: string | null;
+          clan_joined_at: string | null;
+          total_days_completed: number | null;
+          timezone: string;
+          public_ranking: boolean;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id: string;
+          name: string;
+          clan_id?: string | null;
+          clan_joined_at?: string | null;
+          total_days_completed?: number | null;
+          timezone?: string;
+          public_ranking?: boolean;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          clan_id?: string | null;
+          clan_joined_at?: string | null;
+          total_days_completed?: number | null;
+          timezone?: string;
+          public_ranking?: boolean;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'profiles_clan_id_fkey';
+            columns: ['clan_id'];
+            isOneToOne: false;
+            referencedRelation: 'clans';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      clans: {
+        Row: {
+          id: string;
+          code: string;
+          nom_clan: string;
+          tagline: string | null;
+          description: string | null;
+          rituel_entree: string | null;
+          image_url: string | null;
+          couleur_theme: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          nom_clan: string;
+          tagline?: string | null;
+          description?: string | null;
+          rituel_entree?: string | null;
+          image_url?: string | null;
+          couleur_theme?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          nom_clan?: string;
+          tagline?: string | null;
+          description?: string | null;
+          rituel_entree?: string | null;
+          image_url?: string | null;
+          couleur_theme?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [];
+      };
+      programmes: {
+        Row: {
+          id: string;
+          slug: string;
+          nom: string;
+          description: string | null;
+          image_url: string | null;
+          duree_jours: number;
+          type: string;
+          tags: Json;
+          clan_id: string | null;
+          niveau_difficulte: string | null;
+          resultats: Json;
+          parcours_resume: Json;
+          jours_repos: number[];
+          politique_jours_manques: string;
+          ajustement_min: number;
+          ajustement_max: number;
+          coefficient_allege: number | null;
+          produit_id: string | null;
+          publie: boolean;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          slug: string;
+          nom: string;
+          description?: string | null;
+          image_url?: string | null;
+          duree_jours: number;
+          type: string;
+          tags?: Json;
+          clan_id?: string | null;
+          niveau_difficulte?: string | null;
+          resultats?: Json;
+          parcours_resume?: Json;
+          jours_repos?: number[];
+          politique_jours_manques?: string;
+          ajustement_min?: number;
+          ajustement_max?: number;
+          coefficient_allege?: number | null;
+          produit_id?: string | null;
+          publie?: boolean;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          slug?: string;
+          nom?: string;
+          description?: string | null;
+          image_url?: string | null;
+          duree_jours?: number;
+          type?: string;
+          tags?: Json;
+          clan_id?: string | null;
+          niveau_difficulte?: string | null;
+          resultats?: Json;
+          parcours_resume?: Json;
+          jours_repos?: number[];
+          politique_jours_manques?: string;
+          ajustement_min?: number;
+          ajustement_max?: number;
+          coefficient_allege?: number | null;
+          produit_id?: string | null;
+          publie?: boolean;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'programmes_clan_id_fkey';
+            columns: ['clan_id'];
+            isOneToOne: false;
+            referencedRelation: 'clans';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      exercices: {
+        Row: {
+          id: string;
+          slug: string;
+          nom: string;
+          description: string | null;
+          image_url: string | null;
+          video_url: string | null;
+          mesure: string;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          slug: string;
+          nom: string;
+          description?: string | null;
+          image_url?: string | null;
+          video_url?: string | null;
+          mesure?: string;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          slug?: string;
+          nom?: string;
+          description?: string | null;
+          image_url?: string | null;
+          video_url?: string | null;
+          mesure?: string;
+          created_at?: string | null;
+        };
+        Relationships: [];
+      };
+      rituels: {
+        Row: {
+          id: string;
+          programme_id: string;
+          jour: number;
+          citation: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          programme_id: string;
+          jour: number;
+          citation?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          programme_id?: string;
+          jour?: number;
+          citation?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'rituels_programme_id_fkey';
+            columns: ['programme_id'];
+            isOneToOne: false;
+            referencedRelation: 'programmes';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      rituel_exercices: {
+        Row: {
+          rituel_id: string;
+          exercice_id: string;
+          ordre: number;
+          objectif: number;
+          series: number;
+          repos_secondes: number;
+        };
+        Insert: {
+          rituel_id: string;
+          exercice_id: string;
+          ordre: number;
+          objectif: number;
+          series?: number;
+          repos_secondes?: number;
+        };
+        Update: {
+          rituel_id?: string;
+          exercice_id?: string;
+          ordre?: number;
+          objectif?: number;
+          series?: number;
+          repos_secondes?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'rituel_exercices_rituel_id_fkey';
+            columns: ['rituel_id'];
+            isOneToOne: false;
+            referencedRelation: 'rituels';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'rituel_exercices_exercice_id_fkey';
+            columns: ['exercice_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercices';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_programs: {
+        Row: {
+          id: string;
+          user_id: string;
+          programme_id: string;
+          start_date: string;
+          current_day: number;
+          completed: boolean;
+          unlocks_on: string | null;
+          status: string;
+          paused_at: string | null;
+          abandoned_at: string | null;
+          completed_at: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          programme_id: string;
+          start_date?: string;
+          current_day?: number;
+          completed?: boolean;
+          unlocks_on?: string | null;
+          status?: string;
+          paused_at?: string | null;
+          abandoned_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          programme_id?: string;
+          start_date?: string;
+          current_day?: number;
+          completed?: boolean;
+          unlocks_on?: string | null;
+          status?: string;
+          paused_at?: string | null;
+          abandoned_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_programs_programme_id_fkey';
+            columns: ['programme_id'];
+            isOneToOne: false;
+            referencedRelation: 'programmes';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      exercise_logs: {
+        Row: {
+          id: string;
+          user_id: string;
+          user_program_id: string;
+          jour: number;
+          exercice_id: string;
+          reps: number | null;
+          secondes: number | null;
+          metres: number | null;
+          nature: string;
+          annule_log_id: string | null;
+          logged_at: string;
+          clan_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          user_program_id: string;
+          jour: number;
+          exercice_id: string;
+          reps?: number | null;
+          secondes?: number | null;
+          metres?: number | null;
+          nature?: string;
+          annule_log_id?: string | null;
+          logged_at?: string;
+          clan_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          user_program_id?: string;
+          jour?: number;
+          exercice_id?: string;
+          reps?: number | null;
+          secondes?: number | null;
+          metres?: number | null;
+          nature?: string;
+          annule_log_id?: string | null;
+          logged_at?: string;
+          clan_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'exercise_logs_user_program_id_fkey';
+            columns: ['user_program_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_programs';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'exercise_logs_exercice_id_fkey';
+            columns: ['exercice_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercices';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'exercise_logs_annule_log_id_fkey';
+            columns: ['annule_log_id'];
+            isOneToOne: true;
+            referencedRelation: 'exercise_logs';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'exercise_logs_clan_id_fkey';
+            columns: ['clan_id'];
+            isOneToOne: false;
+            referencedRelation: 'clans';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      ritual_completions: {
+        Row: {
+          id: string;
+          user_id: string;
+          user_program_id: string;
+          jour: number;
+          completed_at: string;
+          completed_on: string;
+          effort: number | null;
+          duree_secondes: number | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          user_program_id: string;
+          jour: number;
+          completed_at?: string;
+          completed_on: string;
+          effort: number | null;
+          duree_secondes: number | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          user_program_id?: string;
+          jour?: number;
+          completed_at?: string;
+          completed_on?: string;
+          effort?: number | null;
+          duree_secondes?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ritual_completions_user_program_id_fkey';
+            columns: ['user_program_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_programs';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_streaks: {
+        Row: {
+          user_id: string;
+          current_streak: number;
+          longest_streak: number;
+          last_completed_on: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          user_id: string;
+          current_streak?: number;
+          longest_streak?: number;
+          last_completed_on?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          user_id?: string;
+          current_streak?: number;
+          longest_streak?: number;
+          last_completed_on?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_streaks_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      badges: {
+        Row: {
+          id: string;
+          code: string;
+          nom: string;
+          description: string | null;
+          icone: string | null;
+          regle: string;
+          seuil: number;
+          exercice_id: string | null;
+          clan_id: string | null;
+          ordre: number;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          nom: string;
+          description?: string | null;
+          icone?: string | null;
+          regle: string;
+          seuil: number;
+          exercice_id?: string | null;
+          clan_id?: string | null;
+          ordre?: number;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          nom?: string;
+          description?: string | null;
+          icone?: string | null;
+          regle?: string;
+          seuil?: number;
+          exercice_id?: string | null;
+          clan_id?: string | null;
+          ordre?: number;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'badges_exercice_id_fkey';
+            columns: ['exercice_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercices';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'badges_clan_id_fkey';
+            columns: ['clan_id'];
+            isOneToOne: false;
+            referencedRelation: 'clans';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_badges: {
+        Row: {
+          id: string;
+          user_id: string;
+          badge_id: string;
+          unlocked_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          badge_id: string;
+          unlocked_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          badge_id?: string;
+          unlocked_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_badges_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_badges_badge_id_fkey';
+            columns: ['badge_id'];
+            isOneToOne: false;
+            referencedRelation: 'badges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      defis: {
+        Row: {
+          id: string;
+          clan_id: string;
+          titre: string;
+          description: string | null;
+          exercice_id: string | null;
+          objectif: number;
+          debut: string;
+          fin: string;
+          badge_id: string | null;
+          complete_le: string | null;
+          created_at: string | null;
+          progression: number;
+        };
+        Insert: {
+          id?: string;
+          clan_id: string;
+          titre: string;
+          description?: string | null;
+          exercice_id?: string | null;
+          objectif: number;
+          debut: string;
+          fin: string;
+          badge_id?: string | null;
+          complete_le?: string | null;
+          created_at?: string | null;
+          progression?: number;
+        };
+        Update: {
+          id?: string;
+          clan_id?: string;
+          titre?: string;
+          description?: string | null;
+          exercice_id?: string | null;
+          objectif?: number;
+          debut?: string;
+          fin?: string;
+          badge_id?: string | null;
+          complete_le?: string | null;
+          created_at?: string | null;
+          progression?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'defis_clan_id_fkey';
+            columns: ['clan_id'];
+            isOneToOne: false;
+            referencedRelation: 'clans';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'defis_exercice_id_fkey';
+            columns: ['exercice_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercices';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'defis_badge_id_fkey';
+            columns: ['badge_id'];
+            isOneToOne: false;
+            referencedRelation: 'badges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      defi_contributions: {
+        Row: {
+          defi_id: string;
+          user_id: string;
+          reps: number;
+        };
+        Insert: {
+          defi_id: string;
+          user_id: string;
+          reps?: number;
+        };
+        Update: {
+          defi_id?: string;
+          user_id?: string;
+          reps?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'defi_contributions_defi_id_fkey';
+            columns: ['defi_id'];
+            isOneToOne: false;
+            referencedRelation: 'defis';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'defi_contributions_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_target_adjustments: {
+        Row: {
+          user_id: string;
+          programme_id: string;
+          exercice_id: string;
+          multiplier: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          user_id: string;
+          programme_id: string;
+          exercice_id: string;
+          multiplier?: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          user_id?: string;
+          programme_id?: string;
+          exercice_id?: string;
+          multiplier?: number;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_target_adjustments_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_target_adjustments_programme_id_fkey';
+            columns: ['programme_id'];
+            isOneToOne: false;
+            referencedRelation: 'programmes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_target_adjustments_exercice_id_fkey';
+            columns: ['exercice_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercices';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      ritual_checkins: {
+        Row: {
+          id: string;
+          user_id: string;
+          user_program_id: string;
+          jour: number;
+          checkin_on: string;
+          sleep: number | null;
+          energy: number | null;
+          mood_before: number | null;
+          mood_after: number | null;
+          rpe: number | null;
+          soreness: string[];
+          light_variant: boolean;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          user_program_id: string;
+          jour: number;
+          checkin_on: string;
+          sleep?: number | null;
+          energy?: number | null;
+          mood_before?: number | null;
+          mood_after?: number | null;
+          rpe?: number | null;
+          soreness?: string[];
+          light_variant?: boolean;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          user_program_id?: string;
+          jour?: number;
+          checkin_on?: string;
+          sleep?: number | null;
+          energy?: number | null;
+          mood_before?: number | null;
+          mood_after?: number | null;
+          rpe?: number | null;
+          soreness?: string[];
+          light_variant?: boolean;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ritual_checkins_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ritual_checkins_user_program_id_fkey';
+            columns: ['user_program_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_programs';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      boutiques: {
+        Row: {
+          code: string;
+          nom: string;
+          accepte_achats: boolean;
+        };
+        Insert: {
+          code: string;
+          nom: string;
+          accepte_achats?: boolean;
+        };
+        Update: {
+          code?: string;
+          nom?: string;
+          accepte_achats?: boolean;
+        };
+        Relationships: [];
+      };
+      user_entitlements: {
+        Row: {
+          id: string;
+          user_id: string;
+          programme_id: string;
+          store: string | null;
+          transaction_id: string | null;
+          purchased_at: string;
+          expires_at: string | null;
+          revoked_at: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          programme_id: string;
+          store?: string | null;
+          transaction_id?: string | null;
+          purchased_at?: string;
+          expires_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          programme_id?: string;
+          store?: string | null;
+          transaction_id?: string | null;
+          purchased_at?: string;
+          expires_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_entitlements_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_entitlements_programme_id_fkey';
+            columns: ['programme_id'];
+            isOneToOne: false;
+            referencedRelation: 'programmes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_entitlements_store_fkey';
+            columns: ['store'];
+            isOneToOne: false;
+            referencedRelation: 'boutiques';
+            referencedColumns: ['code'];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      challenge_progress: {
+        Args: {
+          p_defi_id: string;
+        };
+        Returns: number;
+      };
+      complete_ritual_day: {
+        Args: {
+          p_completion_id: string;
+          p_user_program_id: string;
+          p_day: number;
+          p_completed_at?: string;
+        };
+        Returns: {
+          current_day: number;
+          completed: boolean;
+          unlocks_on: string | null;
+          total_days_completed: number;
+          current_streak: number;
+          longest_streak: number;
+          last_completed_on: string | null;
+        }[];
+      };
+      create_weekly_challenges: {
+        Args: Record<PropertyKey, never>;
+        Returns: Database['public']['Tables']['defis']['Row'][];
+      };
+      enroll_in_program: {
+        Args: {
+          p_programme_id: string;
+        };
+        Returns: Database['public']['Tables']['user_programs']['Row'][];
+      };
+      evaluate_achievements: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: {
+          id: string;
+          user_id: string;
+          badge_id: string;
+          unlocked_at: string;
+        }[];
+      };
+      get_active_challenge: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          id: string;
+          clan_id: string;
+          titre: string;
+          description: string | null;
+          exercice_id: string | null;
+          exercice_nom: string | null;
+          objectif: number;
+          debut: string;
+          fin: string;
+          complete_le: string | null;
+          progress: number;
+          contribution: number;
+          badge_nom: string | null;
+          badge_description: string | null;
+          badge_icone: string | null;
+        }[];
+      };
+      get_challenge_contributions: {
+        Args: {
+          p_defi_id: string;
+        };
+        Returns: {
+          user_id: string;
+          name: string | null;
+          reps: number;
+          is_current_user: boolean;
+        }[];
+      };
+      get_clan_leaderboard: {
+        Args: {
+          p_period: string;
+          p_metric: string;
+        };
+        Returns: {
+          rank: number;
+          clan_id: string;
+          name: string;
+          color: string | null;
+          members: number;
+          days_completed: number;
+          reps_logged: number;
+          active_streaks: number;
+        }[];
+      };
+      get_member_leaderboard: {
+        Args: {
+          p_period: string;
+          p_metric: string;
+          p_clan_id?: string;
+          p_limit?: number;
+        };
+        Returns: {
+          rank: number;
+          user_id: string;
+          name: string;
+          clan_id: string | null;
+          days_completed: number;
+          reps_logged: number;
+          current_streak: number;
+          is_current_user: boolean;
+        }[];
+      };
+      has_program_access: {
+        Args: {
+          p_programme_id: string;
+        };
+        Returns: boolean;
+      };
+      import_programme: {
+        Args: {
+          p_document: Json;
+        };
+        Returns: {
+          programme_id: string;
+          rituels: number;
+        }[];
+      };
+      leaderboard_since: {
+        Args: {
+          p_period: string;
+        };
+        Returns: string;
+      };
+      member_stats: {
+        Args: {
+          p_since: string;
+        };
+        Returns: {
+          user_id: string;
+          clan_id: string | null;
+          days_completed: number;
+          reps_logged: number;
+          current_streak: number;
+        }[];
+      };
+      rate_ritual_day: {
+        Args: {
+          p_completion_id: string;
+          p_effort: number;
+        };
+        Returns: {
+          programme_id: string;
+          exercice_id: string;
+          multiplier: number;
+        }[];
+      };
+      recount_challenge: {
+        Args: {
+          p_defi_id: string;
+        };
+        Returns: undefined;
+      };
+      redeem_verified_receipt: {
+        Args: {
+          p_user_id: string;
+          p_store: string;
+          p_product_id: string;
+          p_transaction_id: string;
+          p_purchased_at: string;
+        };
+        Returns: {
+          programme_id: string;
+        }[];
+      };
+      refresh_user_streak: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: {
+          user_id: string;
+          current_streak: number;
+          longest_streak: number;
+          last_completed_on: string | null;
+          updated_at: string | null;
+        };
+      };
+      set_enrollment_status: {
+        Args: {
+          p_user_program_id: string;
+          p_status: string;
+        };
+        Returns: Database['public']['Tables']['user_programs']['Row'][];
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row'];
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Insert'];
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Update'];
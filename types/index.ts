@@ -1,20 +1,49 @@
-export type Clan = 'onotka' | 'ekloa' | 'okwaho';
+export interface Clan {
+  id: string;
+  code: string;
+  name: string;
+  tagline: string;
+  description: string;
+  entryRitual: string;
+  imageUrl: string;
+  color: string;
+}
+
+// Snapshot refreshed by the server each time a day is completed
+export interface Streak {
+  current: number;
+  longest: number;
+  lastCompletedOn: string | null; // YYYY-MM-DD in the user's time zone
+}
 
 export interface User {
   id: string;
   name: string;
   email: string;
-  clan: Clan;
+  clan: Clan | null;
   totalDaysCompleted: number;
+  streak: Streak;
+  timezone: string;
+  publicRanking: boolean;
   currentProgramId?: string;
 }
 
+export type ProgramCategory = 'discovery' | 'premium';
+
+export type ProgramDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+// What happens when the next ritual is not done on the day it unlocks
+export type MissedDayPolicy = 'hold' | 'skip' | 'restart_phase';
+
 export interface Program {
   id: string;
+  slug: string;
   title: string;
   description: string;
   duration: number;
-  category: 'discovery' | 'premium';
+  category: ProgramCategory;
+  difficulty: ProgramDifficulty | null;
+  clanId: string | null;
   focus: string[];
   imageUrl: string;
   details: {
@@ -22,18 +51,49 @@ export interface Program {
     phases: {
       title: string;
       description: string;
+      startDay: number | null;
+      endDay: number | null;
     }[];
   };
+  schedule: {
+    restDays: number[];
+    missedDayPolicy: MissedDayPolicy;
+  };
+  productId: string | null; // store product unlocking a premium program
+  lightVariantScale: number | null; // targets of the lighter variant, none when null
 }
 
+// Unit of an exercise target: repetitions, seconds, meters or breaths
+export type ExerciseMeasurement = 'reps' | 'seconds' | 'distance' | 'breaths';
+
 export interface Exercise {
   id: string;
   name: string;
   description: string;
   imageUrl: string;
   videoUrl: string;
-  targetReps: number;
-  completedReps: number;
+  measurement: ExerciseMeasurement;
+  sets: number;
+  setTarget: number;
+  restSeconds: number; // rest after each set
+  target: number; // whole day, sets * setTarget
+  completed: number;
+}
+
+// Undos and corrections are logs too, with a negative amount when they remove work
+export type ExerciseLogKind = 'entry' | 'undo' | 'correction';
+
+export interface ExerciseLog {
+  id: string;
+  userProgramId: string;
+  day: number;
+  exerciseId: string;
+  kind: ExerciseLogKind;
+  undoneLogId: string | null; // set on undos
+  reps: number | null;
+  seconds: number | null;
+  meters: number | null;
+  loggedAt: Date;
 }
 
 export interface DailyRitual {
@@ -45,9 +105,101 @@ export interface DailyRitual {
   isCompleted: boolean;
 }
 
+// Effort felt on a completed day, from 1 (very easy) to 5 (exhausting)
+export type EffortRating = 1 | 2 | 3 | 4 | 5;
+
+export type SorenessArea = 'neck' | 'shoulders' | 'back' | 'arms' | 'core' | 'hips' | 'legs';
+
+// How the member felt around one ritual day. Readiness (sleep, energy, mood
+// before) is optional and asked before the ritual, the rest after it
+export interface CheckIn {
+  userProgramId: string;
+  day: number;
+  date: string; // YYYY-MM-DD of the last answer
+  sleep: number | null; // 1 to 5
+  energy: number | null; // 1 to 5
+  moodBefore: number | null; // 1 to 5
+  moodAfter: number | null; // 1 to 5
+  rpe: number | null; // rate of perceived exertion, 1 to 10
+  soreness: SorenessArea[];
+  lightVariant: boolean;
+}
+
+export type CheckInAnswers = Partial<
+  Pick<CheckIn, 'sleep' | 'energy' | 'moodBefore' | 'moodAfter' | 'rpe' | 'soreness' | 'lightVariant'>
+>;
+
+export type EnrollmentStatus = 'active' | 'paused' | 'abandoned' | 'completed';
+
 export interface UserProgram {
+  id: string;
   programId: string;
+  status: EnrollmentStatus;
   startDate: Date;
   currentDay: number;
   completed: boolean;
+  unlocksOn: string | null; // YYYY-MM-DD from which currentDay can be done, null when available
+  pausedAt: Date | null;
+  abandonedAt: Date | null;
+  completedAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface Achievement {
+  id: string;
+  code: string;
+  name: string;
+  description: string;
+  icon: string | null;
+  clanId: string | null;
+  unlockedAt: Date | null; // null while locked
+}
+
+export type LeaderboardPeriod = 'week' | 'month' | 'all';
+
+export type LeaderboardMetric = 'days' | 'reps' | 'streak';
+
+export interface ClanStanding {
+  rank: number;
+  clanId: string;
+  name: string;
+  color: string;
+  members: number;
+  daysCompleted: number;
+  repsLogged: number;
+  activeStreaks: number;
+}
+
+export interface MemberStanding {
+  rank: number;
+  userId: string;
+  name: string;
+  clanId: string | null;
+  daysCompleted: number;
+  repsLogged: number;
+  currentStreak: number;
+  isCurrentUser: boolean;
+}
+
+export interface Challenge {
+  id: string;
+  clanId: string;
+  title: string;
+  description: string;
+  exerciseId: string | null; // null when every exercise counts
+  exerciseName: string | null;
+  goal: number;
+  startsAt: Date;
+  endsAt: Date;
+  completedAt: Date | null;
+  progress: number;
+  contribution: number;
+  reward: { name: string; description: string; icon: string | null } | null;
+}
+
+export interface ChallengeContribution {
+  userId: string;
+  name: string | null; // null for members who opted out of public ranking
+  reps: number;
+  isCurrentUser: boolean;
 }
\ No newline at end of file